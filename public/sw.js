@@ -0,0 +1,147 @@
+// Service worker: keeps the app shell available offline, receives Web Share Target posts and
+// forwards Background Sync events to the page, which owns the note sync queue.
+// Registered from src/lib/pwa.ts in production builds only, as /sw.js?v=<build id>: the URL
+// changes with every build, so each deploy installs the worker again and caches its files.
+
+const SHELL_CACHE = 'marginalia-shell-v2';
+const SHARE_CACHE = 'marginalia-share';
+const SHELL = ['/', '/manifest.webmanifest', '/favicon.svg', '/favicon.ico'];
+// Written by the build (build.manifest in vite.config.ts)
+const ASSET_MANIFEST = '/asset-manifest.json';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => Promise.all([cache.addAll(SHELL), precacheBuild(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+async function fetchAssetManifest() {
+  const response = await fetch(ASSET_MANIFEST, { cache: 'no-cache' });
+  return response.ok ? response.json() : null;
+}
+
+// The page that registered the worker loaded its scripts before the worker existed, so they
+// aren't cached yet: fetch every built script and stylesheet now, or the next offline open
+// would be blank.
+async function precacheBuild(cache) {
+  const manifest = await fetchAssetManifest();
+  if (!manifest) return;
+  const files = new Set();
+  // Fonts and images have entries of their own; only chunks (scripts) and their CSS are taken
+  for (const chunk of Object.values(manifest)) {
+    if (!chunk.file.endsWith('.js')) continue;
+    files.add(`/${chunk.file}`);
+    (chunk.css || []).forEach((file) => files.add(`/${file}`));
+  }
+  await cache.addAll([...files]);
+}
+
+// Hashed files of earlier builds are never requested again; drop whatever the current build
+// doesn't list
+async function pruneBuild(cache) {
+  const manifest = await fetchAssetManifest();
+  if (!manifest) return;
+  const files = new Set();
+  for (const chunk of Object.values(manifest)) {
+    [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])].forEach((file) => files.add(`/${file}`));
+  }
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const { pathname } = new URL(request.url);
+        return pathname.startsWith('/assets/') && !files.has(pathname);
+      })
+      .map((request) => cache.delete(request))
+  );
+}
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith('marginalia-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => caches.open(SHELL_CACHE))
+      .then(pruneBuild)
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === '/share-target') {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  // Pages: network first so deploys show up, the cached shell when offline (client-side routes)
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets have hashed names and never change; everything else is refreshed in the background
+  event.respondWith(
+    caches.open(SHELL_CACHE).then(async (cache) => {
+      const cached = await cache.match(request);
+      if (cached && url.pathname.startsWith('/assets/')) return cached;
+      const network = fetch(request)
+        .then((response) => {
+          if (response.ok) cache.put(request, response.clone());
+          return response;
+        })
+        .catch(() => cached);
+      if (!cached) return network;
+      event.waitUntil(network);
+      return cached;
+    })
+  );
+});
+
+// Shared text/image is parked in a cache for /capture to pick up, then the app is opened there
+async function receiveShare(request) {
+  const form = await request.formData();
+  const cache = await caches.open(SHARE_CACHE);
+  await cache.delete('/shared/image');
+  const shared = {
+    title: form.get('title') || '',
+    text: form.get('text') || '',
+    url: form.get('url') || '',
+  };
+  await cache.put('/shared/text', new Response(JSON.stringify(shared), { headers: { 'Content-Type': 'application/json' } }));
+  const image = form.get('image');
+  if (image && typeof image !== 'string' && image.size > 0) {
+    await cache.put('/shared/image', new Response(image, { headers: { 'Content-Type': image.type } }));
+  }
+  return Response.redirect('/capture?share=1', 303);
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'note-sync') return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window' })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: 'note-sync' })))
+  );
+});
@@ -1,19 +1,45 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { AnimatePresence, motion } from "framer-motion";
 import Index from "./pages/Index";
 import BookDetail from "./pages/BookDetail";
 import MyProfile from "./pages/MyProfile";
+import KnowledgeGraph from "./pages/KnowledgeGraph";
+import Trash from "./pages/Trash";
+import Capture from "./pages/Capture";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
-import { AuthProvider } from "@/lib/auth";
+import { AuthProvider, useAuth } from "@/lib/auth";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { registerNoteSync, useRealtimeSync } from "@/api/hooks";
+import { persistOptions } from "@/api/offline";
+import { registerServiceWorker, requestBackgroundSync } from "@/lib/pwa";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    // Kept around long enough to be persisted for offline use
+    queries: { gcTime: 1000 * 60 * 60 * 24 },
+  },
+});
+registerNoteSync(queryClient);
+
+// A note queued while offline asks for a Background Sync, which replays the queue from the worker
+registerServiceWorker({ onSync: () => queryClient.resumePausedMutations() });
+queryClient.getMutationCache().subscribe((event) => {
+  if (event.type === "updated" && event.action.type === "pause") requestBackgroundSync();
+});
+
+// Changes made on other devices land in the caches while signed in
+function RealtimeSync() {
+  const { user } = useAuth();
+  useRealtimeSync(user?.id);
+  return null;
+}
 
 const pageVariants = {
   initial: { opacity: 0, y: 10 },
@@ -74,6 +100,30 @@ function AnimatedRoutes() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/graph"
+            element={
+              <ProtectedRoute>
+                <KnowledgeGraph />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/capture"
+            element={
+              <ProtectedRoute>
+                <Capture />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <Trash />
+              </ProtectedRoute>
+            }
+          />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -84,17 +134,23 @@ function AnimatedRoutes() {
 
 const App = () => (
   <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={persistOptions}
+      // Replay note captures/edits queued before the app was closed
+      onSuccess={() => queryClient.resumePausedMutations()}
+    >
       <TooltipProvider>
         <Toaster />
         <Sonner position="bottom-center" />
         <AuthProvider>
+          <RealtimeSync />
           <BrowserRouter>
             <AnimatedRoutes />
           </BrowserRouter>
         </AuthProvider>
       </TooltipProvider>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   </ThemeProvider>
 );
 
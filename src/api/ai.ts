@@ -1,6 +1,6 @@
 import { supabase } from '@/api/client';
 
-export type AIAction = 'cleanup' | 'expand' | 'summarize' | 'flashcard';
+export type AIAction = 'cleanup' | 'expand' | 'summarize' | 'flashcard' | 'cloze';
 export type AIContext =
   | {
       bookTitle?: string;
@@ -0,0 +1,115 @@
+import { Book, Note } from '@/types';
+import { stripNoteLinks } from './noteLinks';
+import { clozeNumbers, parseCloze } from './cloze';
+
+// Anki export as a tab-separated import file (Anki 2.1.55+ reads the #-headers below).
+// AI flashcards become "Basic" notes; quotes and notes with {{c1::...}} clozes become "Cloze"
+// notes. Each card carries a stable GUID so importing a later export updates cards instead of
+// duplicating them.
+
+export interface AnkiCard {
+  guid: string;
+  noteType: 'Basic' | 'Cloze';
+  deck: string;
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+const DECK_ROOT = 'Marginalia';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+
+// Inside a deletion "::" would start a hint and "}}" would close it early
+const clozeSafe = (text: string) => text.replace(/::/g, ':&#58;').replace(/}}/g, '}&#125;');
+
+// "::" nests decks in Anki, so it can't appear inside a title
+const deckName = (book?: Book) => (book ? `${DECK_ROOT}::${book.title.replace(/::/g, ':')}` : DECK_ROOT);
+
+// Anki tags are space separated
+const ankiTag = (tag: string) => tag.trim().replace(/\s+/g, '_');
+
+// The note's own clozes carry over as they are. Otherwise emphasised spans (**bold** or
+// ==highlight==) become the deletions, and failing that the card asks who wrote the quote and
+// where it's from.
+function clozeText(note: Note, book?: Book): string {
+  const content = stripNoteLinks(note.content);
+  if (clozeNumbers(content).length) {
+    return parseCloze(content)
+      .map((s) =>
+        s.type === 'text'
+          ? escapeHtml(s.text)
+          : `{{c${s.cloze}::${clozeSafe(escapeHtml(s.answer))}${s.hint ? `::${clozeSafe(escapeHtml(s.hint))}` : ''}}}`
+      )
+      .join('');
+  }
+  let count = 0;
+  const marked = escapeHtml(content).replace(/\*\*(.+?)\*\*|==(.+?)==/g, (_, bold, highlight) => {
+    count += 1;
+    return `{{c${count}::${clozeSafe(bold ?? highlight)}}}`;
+  });
+  if (count) return marked;
+  const source = book ? `{{c1::${clozeSafe(escapeHtml(book.author))}}}, <i>{{c1::${clozeSafe(escapeHtml(book.title))}}}</i>` : '{{c1::?}}';
+  return `&ldquo;${marked}&rdquo;<br>&mdash; ${source}`;
+}
+
+function cardExtra(note: Note, book?: Book): string {
+  const parts = [book ? `${escapeHtml(book.title)} &mdash; ${escapeHtml(book.author)}` : ''];
+  if (note.location) parts.push(escapeHtml(note.location));
+  if (note.context) parts.push(`<i>${escapeHtml(stripNoteLinks(note.context))}</i>`);
+  return parts.filter(Boolean).join('<br>');
+}
+
+export function buildAnkiCards(notes: Note[], books: Book[]): AnkiCard[] {
+  const bookMap = new Map(books.map((b) => [b.id, b]));
+  const cards: AnkiCard[] = [];
+
+  for (const note of notes) {
+    const book = bookMap.get(note.bookId);
+    const tags = ['marginalia', `marginalia::${note.type}`, ...(note.tags ?? []).map(ankiTag)].filter(Boolean);
+
+    if (note.aiFlashcard?.question && note.aiFlashcard.answer) {
+      cards.push({
+        guid: `marginalia-${note.id}`,
+        noteType: 'Basic',
+        deck: deckName(book),
+        front: escapeHtml(note.aiFlashcard.question),
+        back: `${escapeHtml(note.aiFlashcard.answer)}<hr>${cardExtra(note, book)}`,
+        tags,
+      });
+    }
+    if ((note.type === 'quote' && note.content.trim()) || clozeNumbers(note.content).length) {
+      cards.push({
+        guid: `marginalia-${note.id}-cloze`,
+        noteType: 'Cloze',
+        deck: deckName(book),
+        front: clozeText(note, book),
+        back: cardExtra(note, book),
+        tags,
+      });
+    }
+  }
+  return cards;
+}
+
+export function exportCardsToAnkiTSV(cards: AnkiCard[]): string {
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#guid column:1',
+    '#notetype column:2',
+    '#deck column:3',
+    '#tags column:6',
+  ];
+  const rows = cards.map((card) =>
+    [card.guid, card.noteType, card.deck, card.front, card.back, card.tags.join(' ')].map(clean).join('\t')
+  );
+  return [...header, ...rows].join('\n');
+}
@@ -0,0 +1,326 @@
+import JSZip from 'jszip';
+import { supabase, requireUserId } from './client';
+import { DbBook, DbCollection, DbFolder, DbNote, DbReadingProgress, DbReadingSession, DbSavedFilter } from './types';
+import { BackupData } from './exportImport';
+import { mapBook } from './books';
+import { mapNote } from './notes';
+import { mapFolder } from './folders';
+import { mapCollection } from './collections';
+import { mapSavedFilter } from './savedFilters';
+import { ConflictResolution, ImportPlan, ImportSummary, conflictKey, executeImport } from './importMerge';
+import { uploadAvatar, uploadBookCover, uploadNoteAudio, uploadNoteImage } from './storage';
+
+// Full-account backup: a zip holding manifest.json, data/<table>.json with the raw rows of
+// every table the user owns, and media/<bucket>/<file> with their storage objects.
+
+export const BACKUP_FORMAT = 'marginalia-backup';
+export const BACKUP_VERSION = 1;
+
+export type MediaBucket = 'note-images' | 'note-audio' | 'book-covers' | 'avatars';
+
+const mediaBuckets: MediaBucket[] = ['note-images', 'note-audio', 'book-covers', 'avatars'];
+
+const uploaders: Record<MediaBucket, (file: File) => Promise<{ path: string; publicUrl?: string }>> = {
+  'note-images': uploadNoteImage,
+  'note-audio': uploadNoteAudio,
+  'book-covers': uploadBookCover,
+  'avatars': uploadAvatar,
+};
+
+// Tables exported, with the column that ties a row to its owner. Rows in the trash are left out.
+const ownedTables: { table: string; owner: string; trash?: boolean }[] = [
+  { table: 'profiles', owner: 'id' },
+  { table: 'folders', owner: 'user_id', trash: true },
+  { table: 'books', owner: 'user_id', trash: true },
+  { table: 'notes', owner: 'user_id', trash: true },
+  { table: 'collections', owner: 'user_id', trash: true },
+  { table: 'saved_filters', owner: 'user_id' },
+  { table: 'review_sessions', owner: 'user_id' },
+  { table: 'review_log', owner: 'user_id' },
+  { table: 'reading_goals', owner: 'user_id' },
+  { table: 'activity_dates', owner: 'user_id' },
+  { table: 'reading_progress', owner: 'user_id' },
+  { table: 'reading_sessions', owner: 'user_id' },
+  { table: 'social_posts', owner: 'user_id' },
+  { table: 'social_comments', owner: 'user_id' },
+  { table: 'social_likes', owner: 'user_id' },
+  { table: 'social_follows', owner: 'follower_id' },
+];
+
+const PAGE_SIZE = 1000;
+
+export interface BackupMediaEntry {
+  bucket: MediaBucket;
+  // Storage path at export time ("<userId>/<name>")
+  path: string;
+  // Location inside the archive
+  file: string;
+  contentType: string;
+  size: number;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  userId: string;
+  tables: Record<string, number>;
+  media: BackupMediaEntry[];
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  tables: Record<string, Record<string, unknown>[]>;
+  zip: JSZip;
+}
+
+export interface BackupRestoreSummary extends ImportSummary {
+  media: number;
+}
+
+async function fetchAllRows(table: string, owner: string, userId: string, liveOnly = false) {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select('*').eq(owner, userId);
+    if (liveOnly) query = query.is('deleted_at', null);
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data as Record<string, unknown>[]));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Uploads land flat under "<userId>/", so one level of listing covers a bucket
+async function listMedia(bucket: MediaBucket, userId: string) {
+  const objects: { path: string; contentType: string; size: number }[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(bucket).list(userId, { limit: PAGE_SIZE, offset });
+    if (error) throw error;
+    for (const object of data) {
+      if (!object.id) continue; // folder placeholder
+      objects.push({
+        path: `${userId}/${object.name}`,
+        contentType: object.metadata?.mimetype ?? 'application/octet-stream',
+        size: object.metadata?.size ?? 0,
+      });
+    }
+    if (data.length < PAGE_SIZE) return objects;
+  }
+}
+
+export async function createBackupArchive(): Promise<Blob> {
+  const userId = await requireUserId();
+  const zip = new JSZip();
+  const tables: Record<string, number> = {};
+
+  for (const { table, owner, trash } of ownedTables) {
+    const rows = await fetchAllRows(table, owner, userId, trash);
+    tables[table] = rows.length;
+    zip.file(`data/${table}.json`, JSON.stringify(rows, null, 2));
+  }
+
+  const media: BackupMediaEntry[] = [];
+  for (const bucket of mediaBuckets) {
+    for (const object of await listMedia(bucket, userId)) {
+      const { data, error } = await supabase.storage.from(bucket).download(object.path);
+      if (error) throw error;
+      const file = `media/${bucket}/${object.path.split('/').pop()}`;
+      zip.file(file, data);
+      media.push({ bucket, path: object.path, file, contentType: data.type || object.contentType, size: data.size });
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    userId,
+    tables,
+    media,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+export async function readBackupArchive(file: Blob): Promise<BackupArchive> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new Error('Not a Marginalia backup (manifest.json is missing)');
+  const manifest = JSON.parse(await manifestFile.async('string')) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) throw new Error('Not a Marginalia backup');
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Marginalia');
+  }
+
+  const tables: BackupArchive['tables'] = {};
+  for (const table of Object.keys(manifest.tables)) {
+    const entry = zip.file(`data/${table}.json`);
+    tables[table] = entry ? JSON.parse(await entry.async('string')) : [];
+  }
+  return { manifest, tables, zip };
+}
+
+export function backupDataFromArchive(archive: BackupArchive): BackupData {
+  const rows = <T>(table: string) => (archive.tables[table] ?? []) as unknown as T[];
+  return {
+    folders: rows<DbFolder>('folders').map(mapFolder),
+    books: rows<DbBook>('books').map(mapBook),
+    notes: rows<DbNote>('notes').map(mapNote),
+    collections: rows<DbCollection>('collections').map(mapCollection),
+    savedFilters: rows<DbSavedFilter>('saved_filters').map(mapSavedFilter),
+  };
+}
+
+// "<bucket>/<path>" for a storage reference: a public/signed URL, or a bare path for note-audio
+function storageKey(value: string | undefined | null, bucket: MediaBucket): string | undefined {
+  if (!value || value.startsWith('data:')) return undefined;
+  const match = value.match(/\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/([^?#]+)/);
+  if (match) return match[1] === bucket ? `${bucket}/${decodeURIComponent(match[2])}` : undefined;
+  return bucket === 'note-audio' && !/^https?:/.test(value) ? `${bucket}/${value}` : undefined;
+}
+
+// Public buckets are referenced by URL, note-audio by storage path
+function storageValue(bucket: MediaBucket, path: string, publicUrl?: string) {
+  if (bucket === 'note-audio') return path;
+  return publicUrl ?? supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+}
+
+export async function restoreBackupArchive(
+  archive: BackupArchive,
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>
+): Promise<BackupRestoreSummary> {
+  const userId = await requireUserId();
+  const conflictKeys = new Set(plan.conflicts.map((c) => c.key));
+  const written = (kind: 'book' | 'note', id: string) => {
+    const key = conflictKey(kind, id);
+    return !conflictKeys.has(key) || (resolutions[key] ?? 'skip') !== 'skip';
+  };
+
+  const profile = (archive.tables.profiles?.[0] ?? null) as { display_name?: string; bio?: string; avatar_url?: string } | null;
+  const { data: current, error: profileError } = await supabase
+    .from('profiles')
+    .select('display_name, bio, avatar_url')
+    .eq('id', userId)
+    .single();
+  if (profileError) throw profileError;
+
+  // Only media that ends up referenced by a restored row is uploaded
+  const needed = new Set<string>();
+  const want = (value: string | undefined | null, bucket: MediaBucket) => {
+    const key = storageKey(value, bucket);
+    if (key) needed.add(key);
+  };
+  plan.data.books.filter((b) => written('book', b.id)).forEach((b) => want(b.coverUrl, 'book-covers'));
+  plan.data.notes.filter((n) => written('note', n.id)).forEach((n) => {
+    want(n.imageUrl, 'note-images');
+    want(n.audioUrl, 'note-audio');
+  });
+  if (!current.avatar_url) want(profile?.avatar_url, 'avatars');
+
+  const rewrites = new Map<string, string>();
+  let media = 0;
+  for (const bucket of mediaBuckets) {
+    const entries = archive.manifest.media.filter((m) => m.bucket === bucket && needed.has(`${bucket}/${m.path}`));
+    if (!entries.length) continue;
+    // Restoring into the same account with its files still in place: keep them
+    const present = new Set((await listMedia(bucket, userId)).map((o) => o.path));
+    for (const entry of entries) {
+      const key = `${bucket}/${entry.path}`;
+      if (present.has(entry.path)) {
+        rewrites.set(key, storageValue(bucket, entry.path));
+        continue;
+      }
+      const blob = await archive.zip.file(entry.file)?.async('blob');
+      if (!blob) continue;
+      const name = entry.path.split('/').pop() ?? 'file';
+      const uploaded = await uploaders[bucket](new File([blob], name, { type: entry.contentType.split(';')[0] }));
+      rewrites.set(key, storageValue(bucket, uploaded.path, uploaded.publicUrl));
+      media += 1;
+    }
+  }
+
+  const rewrite = (value: string | undefined, bucket: MediaBucket) => {
+    const key = storageKey(value, bucket);
+    return key && rewrites.has(key) ? rewrites.get(key) : value;
+  };
+  const data: BackupData = {
+    ...plan.data,
+    books: plan.data.books.map((b) => ({ ...b, coverUrl: rewrite(b.coverUrl, 'book-covers') })),
+    notes: plan.data.notes.map((n) => ({
+      ...n,
+      imageUrl: rewrite(n.imageUrl, 'note-images'),
+      audioUrl: rewrite(n.audioUrl, 'note-audio'),
+    })),
+  };
+  const result = await executeImport({ ...plan, data }, resolutions);
+
+  // Profile fields are only filled in where the account has none yet
+  if (profile) {
+    const patch = {
+      display_name: current.display_name || profile.display_name || undefined,
+      bio: current.bio || profile.bio || undefined,
+      avatar_url: current.avatar_url || rewrite(profile.avatar_url, 'avatars') || undefined,
+    };
+    const { error } = await supabase.from('profiles').update(patch).eq('id', userId);
+    if (error) throw error;
+  }
+
+  const goals = (archive.tables.reading_goals ?? []).map((g) => ({
+    user_id: userId,
+    year: g.year,
+    yearly_book_target: g.yearly_book_target,
+  }));
+  if (goals.length) {
+    const { error } = await supabase.from('reading_goals').upsert(goals, { onConflict: 'user_id,year' });
+    if (error) throw error;
+  }
+
+  const activity = (archive.tables.activity_dates ?? []).map((a) => ({ user_id: userId, activity_date: a.activity_date }));
+  if (activity.length) {
+    const { error } = await supabase
+      .from('activity_dates')
+      .upsert(activity, { onConflict: 'user_id,activity_date', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  // Progress and session history only for books this restore created; matched books keep their own.
+  // Progress rows tied to a note are recreated by the notes trigger, so only manual entries are copied.
+  const newBookId = (id: string) => (result.createdBooks.has(id) ? result.idMaps.book.get(id) : undefined);
+  const progress = ((archive.tables.reading_progress ?? []) as unknown as DbReadingProgress[])
+    .filter((p) => !p.note_id && newBookId(p.book_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((p) => ({
+      user_id: userId,
+      book_id: newBookId(p.book_id),
+      page: p.page,
+      position_seconds: p.position_seconds,
+      created_at: p.created_at,
+    }));
+  if (progress.length) {
+    const { error } = await supabase.from('reading_progress').insert(progress);
+    if (error) throw error;
+  }
+
+  const sessions = ((archive.tables.reading_sessions ?? []) as unknown as DbReadingSession[])
+    .filter((s) => s.ended_at && newBookId(s.book_id))
+    .map((s) => ({
+      user_id: userId,
+      book_id: newBookId(s.book_id),
+      started_at: s.started_at,
+      ended_at: s.ended_at,
+      duration_seconds: s.duration_seconds,
+      start_page: s.start_page,
+      end_page: s.end_page,
+      start_position: s.start_position,
+      end_position: s.end_position,
+      note_ids: (s.note_ids ?? []).map((id) => result.idMaps.note.get(id)).filter(Boolean),
+      created_at: s.created_at,
+    }));
+  if (sessions.length) {
+    const { error } = await supabase.from('reading_sessions').insert(sessions);
+    if (error) throw error;
+  }
+
+  return { created: result.created, updated: result.updated, skipped: result.skipped, media };
+}
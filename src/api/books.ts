@@ -1,13 +1,22 @@
-import { supabase, requireUserId } from './client';
+import { supabase, requireUserId, IMPORT_HEADER } from './client';
 import { DbBook } from './types';
-import { Book } from '@/types';
+import { PatchColumns, UpdateConflictError, matchingVersion, patchRow } from './patch';
+import { Book, BookUpdate, ReadingStatus } from '@/types';
 
-function mapBook(row: DbBook): Book {
+export function mapBook(row: DbBook): Book {
   return {
     id: row.id,
     title: row.title,
     author: row.author,
     format: row.format,
+    status: row.status ?? 'want_to_read',
+    startedAt: row.started_at ? new Date(row.started_at) : undefined,
+    finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+    totalPages: row.total_pages ?? undefined,
+    totalDuration: row.total_duration ?? undefined,
+    currentPage: row.current_page ?? undefined,
+    currentPosition: row.current_position ?? undefined,
+    rating: row.rating !== null && row.rating !== undefined ? Number(row.rating) : undefined,
     coverUrl: row.cover_url || undefined,
     isbn: row.isbn || undefined,
     tags: row.tags || undefined,
@@ -15,6 +24,8 @@ function mapBook(row: DbBook): Book {
     displayOrder: row.display_order,
     notesCount: row.notes_count,
     createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
   };
 }
 
@@ -24,6 +35,7 @@ export async function fetchBooks(): Promise<Book[]> {
     .from('books')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('display_order', { ascending: true });
   if (error) throw error;
   return (data as DbBook[]).map(mapBook);
@@ -35,9 +47,22 @@ export async function createBook(input: {
   format: Book['format'];
   coverUrl?: string;
   isbn?: string;
+  status?: ReadingStatus;
+  // Left out, they default to now for the status; null keeps a date unknown (e.g. imports)
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  totalPages?: number;
+  totalDuration?: number;
+  rating?: number;
+  tags?: string[];
+  // Added by an import: not announced in the feed
+  imported?: boolean;
 }): Promise<Book> {
   const userId = await requireUserId();
-  const { data, error } = await supabase
+  const status = input.status ?? 'want_to_read';
+  const startedAt = input.startedAt === undefined ? (status === 'reading' ? new Date() : null) : input.startedAt;
+  const finishedAt = input.finishedAt === undefined ? (status === 'finished' ? new Date() : null) : input.finishedAt;
+  let insert = supabase
     .from('books')
     .insert({
       user_id: userId,
@@ -46,35 +71,57 @@ export async function createBook(input: {
       format: input.format,
       cover_url: input.coverUrl ?? null,
       isbn: input.isbn ?? null,
-    })
-    .select('*')
-    .single();
+      status,
+      started_at: startedAt ? startedAt.toISOString() : null,
+      finished_at: finishedAt ? finishedAt.toISOString() : null,
+      total_pages: input.totalPages ?? null,
+      total_duration: input.totalDuration ?? null,
+      rating: input.rating ?? null,
+      tags: input.tags?.length ? input.tags : null,
+    });
+  if (input.imported) insert = insert.setHeader(IMPORT_HEADER, 'true');
+  const { data, error } = await insert.select('*').single();
   if (error) throw error;
   return mapBook(data as DbBook);
 }
 
-export async function updateBook(id: string, updates: Partial<Book>): Promise<Book> {
-  const { data, error } = await supabase
-    .from('books')
-    .update({
-      title: updates.title,
-      author: updates.author,
-      format: updates.format,
-      cover_url: updates.coverUrl ?? null,
-      isbn: updates.isbn ?? null,
-      tags: updates.tags ?? null,
-      folder_id: updates.folderId ?? null,
-    })
-    .eq('id', id)
-    .select('*')
-    .single();
+const bookColumns: PatchColumns<BookUpdate> = {
+  title: 'title',
+  author: 'author',
+  format: 'format',
+  coverUrl: 'cover_url',
+  isbn: 'isbn',
+  tags: 'tags',
+  folderId: 'folder_id',
+  totalPages: 'total_pages',
+  totalDuration: 'total_duration',
+  rating: 'rating',
+};
+
+// Writes only the fields present in `updates` (null clears one). With `expectedUpdatedAt` the
+// write only happens if the book is still at that version; otherwise UpdateConflictError.
+export async function updateBook(id: string, updates: BookUpdate, expectedUpdatedAt?: Date): Promise<Book> {
+  let query = supabase.from('books').update(patchRow(updates, bookColumns)).eq('id', id);
+  if (expectedUpdatedAt) query = matchingVersion(query, expectedUpdatedAt);
+  const { data, error } = await query.select('*').maybeSingle();
   if (error) throw error;
+  if (!data) throw new UpdateConflictError('book');
   return mapBook(data as DbBook);
 }
 
-export async function deleteBook(id: string): Promise<void> {
-  const { error } = await supabase.from('books').delete().eq('id', id);
+export async function setBookStatus(
+  id: string,
+  status: ReadingStatus,
+  dates?: { startedAt?: Date; finishedAt?: Date }
+): Promise<Book> {
+  const { data, error } = await supabase.rpc('book_set_status', {
+    p_book_id: id,
+    p_status: status,
+    p_started_at: dates?.startedAt ? dates.startedAt.toISOString() : null,
+    p_finished_at: dates?.finishedAt ? dates.finishedAt.toISOString() : null,
+  });
   if (error) throw error;
+  return mapBook(data as DbBook);
 }
 
 export async function reorderBooks(bookIds: string[]): Promise<void> {
@@ -83,3 +130,26 @@ export async function reorderBooks(bookIds: string[]): Promise<void> {
   const { error } = await supabase.from('books').upsert(updates, { onConflict: 'id' });
   if (error) throw error;
 }
+
+const normalizeTitle = (value: string) =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const normalizeIsbn = (value?: string) => (value ?? '').replace(/[^0-9X]/gi, '').toUpperCase();
+
+// Match an imported book against the library: ISBN first, then title + author.
+// Imported titles often carry a subtitle after ":" so fall back to that prefix.
+export function findMatchingBook(books: Book[], title: string, author: string, isbn?: string): Book | undefined {
+  const i = normalizeIsbn(isbn);
+  if (i) {
+    const byIsbn = books.find((b) => normalizeIsbn(b.isbn) === i);
+    if (byIsbn) return byIsbn;
+  }
+  const t = normalizeTitle(title);
+  const shortTitle = normalizeTitle(title.split(':')[0]);
+  const a = normalizeTitle(author);
+  return (
+    books.find((b) => normalizeTitle(b.title) === t && normalizeTitle(b.author) === a) ??
+    books.find((b) => normalizeTitle(b.title.split(':')[0]) === shortTitle && normalizeTitle(b.author) === a) ??
+    books.find((b) => normalizeTitle(b.title) === t)
+  );
+}
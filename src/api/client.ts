@@ -8,4 +8,19 @@ async function requireUserId(): Promise<string> {
   return data.session.user.id;
 }
 
-export { supabase, requireUserId };
+// Writes sent with this header are imports (library CSV, Kindle clippings, backups); the feed
+// triggers don't post about the books and notes they create
+const IMPORT_HEADER = 'x-marginalia-import';
+
+// Whether a failed request may go through if sent again: it never got an answer (offline, timed
+// out) or the server failed (5xx). Validation, constraint and permission errors (4xx) won't.
+// PostgREST errors don't carry the HTTP status, so writes that are retried attach it.
+function isTransientError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  if (!error || typeof error !== 'object') return false;
+  const { name, status } = error as { name?: string; status?: number };
+  if (name === 'StorageUnknownError') return true;
+  return typeof status === 'number' && (status === 0 || status >= 500);
+}
+
+export { supabase, requireUserId, isTransientError, IMPORT_HEADER };
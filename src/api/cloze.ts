@@ -0,0 +1,54 @@
+import { Note } from '@/types';
+
+// Cloze deletions, written inline in a note's content:
+//
+//   {{c1::hidden phrase}}          hidden while cloze 1 is reviewed
+//   {{c2::hidden phrase::hint}}    shown as [hint] instead of […]
+//
+// Every cloze number is a separate review card with its own schedule (notes.review_clozes);
+// spans sharing a number are hidden together. Everywhere else the markup reads as plain text.
+
+export type ClozeSegment =
+  | { type: 'text'; text: string }
+  | { type: 'cloze'; cloze: number; answer: string; hint?: string };
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]+?)(?:::([^{}]*?))?\}\}/g;
+
+export function parseCloze(text: string): ClozeSegment[] {
+  const source = text ?? '';
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of source.matchAll(CLOZE_PATTERN)) {
+    if (match.index > last) segments.push({ type: 'text', text: source.slice(last, match.index) });
+    segments.push({ type: 'cloze', cloze: Number(match[1]), answer: match[2], hint: match[3] || undefined });
+    last = match.index + match[0].length;
+  }
+  if (last < source.length) segments.push({ type: 'text', text: source.slice(last) });
+  return segments;
+}
+
+// Distinct cloze numbers in the text, ascending
+export function clozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of (text ?? '').matchAll(CLOZE_PATTERN)) numbers.add(Number(match[1]));
+  return [...numbers].sort((a, b) => a - b);
+}
+
+export const stripCloze = (text: string) => (text ?? '').replace(CLOZE_PATTERN, '$2');
+
+// Wraps text[from, to) as the next cloze number; returns the new text and the caret after it
+export function wrapCloze(text: string, from: number, to: number): { text: string; caret: number } {
+  const cloze = `{{c${Math.max(0, ...clozeNumbers(text)) + 1}::${text.slice(from, to)}}}`;
+  return { text: text.slice(0, from) + cloze + text.slice(to), caret: from + cloze.length };
+}
+
+// The clozes of a note to review now: those due or never reviewed, or all of them when the note
+// is reviewed ahead of schedule. Empty for a note without clozes.
+export function dueClozes(note: Note, now = new Date()): number[] {
+  const numbers = clozeNumbers(note.content);
+  const due = numbers.filter((n) => {
+    const nextReviewAt = note.reviewClozes?.[n]?.nextReviewAt;
+    return !nextReviewAt || nextReviewAt <= now;
+  });
+  return due.length ? due : numbers;
+}
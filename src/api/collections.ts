@@ -2,13 +2,14 @@ import { supabase, requireUserId } from './client';
 import { DbCollection } from './types';
 import { Collection } from '@/types';
 
-function mapCollection(row: DbCollection): Collection {
+export function mapCollection(row: DbCollection): Collection {
   return {
     id: row.id,
     name: row.name,
     description: row.description ?? undefined,
     noteIds: row.note_ids ?? [],
     createdAt: new Date(row.created_at),
+    deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
   };
 }
 
@@ -18,6 +19,7 @@ export async function fetchCollections(): Promise<Collection[]> {
     .from('collections')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
   if (error) throw error;
   return (data as DbCollection[]).map(mapCollection);
@@ -48,8 +50,3 @@ export async function updateCollection(id: string, updates: Partial<Collection>)
   if (error) throw error;
   return mapCollection(data as DbCollection);
 }
-
-export async function deleteCollection(id: string): Promise<void> {
-  const { error } = await supabase.from('collections').delete().eq('id', id);
-  if (error) throw error;
-}
@@ -0,0 +1,47 @@
+import { supabase } from './client';
+
+// Semantic similarity over note embeddings. The embed-notes Edge Function writes the vectors
+// (content + context, provider chosen by its EMBEDDING_PROVIDER secret); lookups go through the
+// related_notes RPC or the function's search action.
+
+export interface SimilarNote {
+  noteId: string;
+  // Cosine similarity, 1 = identical direction
+  similarity: number;
+}
+
+type SimilarityRow = { note_id: string; similarity: number };
+
+const mapSimilarity = (row: SimilarityRow): SimilarNote => ({
+  noteId: row.note_id,
+  similarity: row.similarity,
+});
+
+// Invoked without overriding headers so the function receives the user's session token
+async function invokeEmbedNotes<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('embed-notes', { body });
+  if (error) throw error;
+  return data as T;
+}
+
+// Embeds notes that are new, edited since they were embedded, or embedded by another model
+export async function embedPendingNotes(limit?: number): Promise<{ embedded: number; remaining: boolean }> {
+  return invokeEmbedNotes({ action: 'embed', limit });
+}
+
+// Closest notes to a note; by default only notes from other books
+export async function fetchRelatedNotes(noteId: string, limit = 5, otherBooksOnly = true): Promise<SimilarNote[]> {
+  const { data, error } = await supabase.rpc('related_notes', {
+    p_note_id: noteId,
+    p_limit: limit,
+    p_other_books: otherBooksOnly,
+  });
+  if (error) throw error;
+  return ((data ?? []) as SimilarityRow[]).map(mapSimilarity);
+}
+
+// Notes whose meaning is closest to free text, most similar first
+export async function searchSimilarNotes(query: string, bookId?: string, limit = 30): Promise<SimilarNote[]> {
+  const { matches } = await invokeEmbedNotes<{ matches: SimilarityRow[] }>({ action: 'search', query, bookId, limit });
+  return (matches ?? []).map(mapSimilarity);
+}
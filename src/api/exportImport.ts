@@ -1,4 +1,6 @@
-﻿import { Book, Note } from '@/types';
+﻿import { Book, Note, Folder, Collection, SavedFilter } from '@/types';
+import { stripNoteLinks } from './noteLinks';
+import { stripCloze } from './cloze';
 
 export function exportNotesToMarkdown(notes: Note[], books: Book[]): string {
   const bookMap = new Map(books.map((b) => [b.id, b]));
@@ -21,8 +23,8 @@ export function exportNotesToMarkdown(notes: Note[], books: Book[]): string {
       const typeLabel = { quote: 'QUOTE', idea: 'IDEA', question: 'QUESTION', action: 'ACTION' }[note.type];
       markdown += `### ${typeLabel} ${note.type.charAt(0).toUpperCase() + note.type.slice(1)}\n`;
       if (note.location) markdown += `*${note.location}*\n\n`;
-      markdown += `${note.content}\n\n`;
-      if (note.context) markdown += `> ${note.context}\n\n`;
+      markdown += `${stripCloze(stripNoteLinks(note.content))}\n\n`;
+      if (note.context) markdown += `> ${stripNoteLinks(note.context)}\n\n`;
       if (note.tags?.length) markdown += `Tags: ${note.tags.map((t) => `#${t}`).join(' ')}\n\n`;
       markdown += '---\n\n';
     }
@@ -41,9 +43,9 @@ export function exportNotesToCSV(notes: Note[], books: Book[]): string {
       book?.title || '',
       book?.author || '',
       note.type,
-      `"${note.content.replace(/"/g, '""')}"`,
+      `"${stripCloze(stripNoteLinks(note.content)).replace(/"/g, '""')}"`,
       note.location || '',
-      note.context ? `"${note.context.replace(/"/g, '""')}"` : '',
+      note.context ? `"${stripNoteLinks(note.context).replace(/"/g, '""')}"` : '',
       note.tags?.join(', ') || '',
       note.createdAt.toISOString(),
     ].join(',');
@@ -52,11 +54,35 @@ export function exportNotesToCSV(notes: Note[], books: Book[]): string {
   return [headers.join(','), ...rows].join('\n');
 }
 
-export function exportNotesToJSON(notes: Note[], books: Book[]): string {
-  return JSON.stringify({ books, notes }, null, 2);
+export interface BackupData {
+  books: Book[];
+  notes: Note[];
+  folders: Folder[];
+  collections: Collection[];
+  savedFilters: SavedFilter[];
 }
 
-export function importFromJSON(jsonString: string): { books: Book[]; notes: Note[] } | null {
+export function exportNotesToJSON(
+  notes: Note[],
+  books: Book[],
+  extras?: { folders?: Folder[]; collections?: Collection[]; savedFilters?: SavedFilter[] }
+): string {
+  return JSON.stringify(
+    {
+      version: 2,
+      exportedAt: new Date().toISOString(),
+      books,
+      notes,
+      folders: extras?.folders ?? [],
+      collections: extras?.collections ?? [],
+      savedFilters: extras?.savedFilters ?? [],
+    },
+    null,
+    2
+  );
+}
+
+export function importFromJSON(jsonString: string): BackupData | null {
   try {
     const data = JSON.parse(jsonString);
     if (data.books && data.notes) {
@@ -64,6 +90,8 @@ export function importFromJSON(jsonString: string): { books: Book[]; notes: Note
         books: data.books.map((b: any) => ({
           ...b,
           createdAt: new Date(b.createdAt),
+          startedAt: b.startedAt ? new Date(b.startedAt) : undefined,
+          finishedAt: b.finishedAt ? new Date(b.finishedAt) : undefined,
         })),
         notes: data.notes.map((n: any) => ({
           ...n,
@@ -72,6 +100,23 @@ export function importFromJSON(jsonString: string): { books: Book[]; notes: Note
           lastReviewedAt: n.lastReviewedAt ? new Date(n.lastReviewedAt) : undefined,
           nextReviewAt: n.nextReviewAt ? new Date(n.nextReviewAt) : undefined,
         })),
+        // Version 1 exports only carried books and notes
+        folders: (data.folders ?? []).map((f: Folder) => ({ ...f, createdAt: new Date(f.createdAt) })),
+        collections: (data.collections ?? []).map((c: Collection) => ({
+          ...c,
+          noteIds: c.noteIds ?? [],
+          createdAt: new Date(c.createdAt),
+        })),
+        savedFilters: (data.savedFilters ?? []).map((f: SavedFilter) => ({
+          ...f,
+          filters: {
+            ...f.filters,
+            dateRange: f.filters?.dateRange
+              ? { start: new Date(f.filters.dateRange.start), end: new Date(f.filters.dateRange.end) }
+              : undefined,
+          },
+          createdAt: new Date(f.createdAt),
+        })),
       };
     }
     return null;
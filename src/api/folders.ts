@@ -2,12 +2,13 @@ import { supabase, requireUserId } from './client';
 import { DbFolder } from './types';
 import { Folder } from '@/types';
 
-function mapFolder(row: DbFolder): Folder {
+export function mapFolder(row: DbFolder): Folder {
   return {
     id: row.id,
     name: row.name,
     color: row.color ?? undefined,
     createdAt: new Date(row.created_at),
+    deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
   };
 }
 
@@ -17,6 +18,7 @@ export async function fetchFolders(): Promise<Folder[]> {
     .from('folders')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
   if (error) throw error;
   return (data as DbFolder[]).map(mapFolder);
@@ -43,8 +45,3 @@ export async function updateFolder(id: string, updates: Partial<Folder>): Promis
   if (error) throw error;
   return mapFolder(data as DbFolder);
 }
-
-export async function deleteFolder(id: string): Promise<void> {
-  const { error } = await supabase.from('folders').delete().eq('id', id);
-  if (error) throw error;
-}
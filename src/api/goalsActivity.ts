@@ -1,5 +1,6 @@
 import { supabase, requireUserId } from './client';
 import { DbReadingGoal, DbActivityDate } from './types';
+import { Book } from '@/types';
 
 export interface ReadingGoals {
   yearlyBookTarget: number;
@@ -91,6 +92,13 @@ export function calculateStreakFromDates(dates: string[]): { current: number; lo
   return { current: currentStreak, longest: Math.max(longestStreak, currentStreak) };
 }
 
+// Yearly goal progress counts books finished in that year, not books added
+export function countBooksFinishedInYear(books: Book[], year: number): number {
+  return books.filter(
+    (b) => b.status === 'finished' && b.finishedAt && b.finishedAt.getFullYear() === year
+  ).length;
+}
+
 export async function recordActivity(): Promise<void> {
   const today = new Date().toISOString().split('T')[0];
   const userId = await requireUserId();
@@ -1,33 +1,58 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useMemo } from 'react';
+import {
+  QueryClient,
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useMutationState,
+  useQueryClient,
+  keepPreviousData,
+} from '@tanstack/react-query';
 import {
   fetchBooks,
   createBook as apiCreateBook,
   updateBook as apiUpdateBook,
-  deleteBook as apiDeleteBook,
+  setBookStatus as apiSetBookStatus,
   reorderBooks as apiReorderBooks,
 } from './books';
 import {
   fetchNotes,
   fetchNotesForBook,
-  createNote as apiCreateNote,
+  createNoteWithMedia,
   updateNote as apiUpdateNote,
-  deleteNote as apiDeleteNote,
+  withPendingChanges,
+  NoteCapture,
+  PendingNoteChange,
+  searchNotes,
   searchNotesClient,
   getAllTags as getAllTagsFromNotes,
   getNotesForReview as getNotesForReviewClient,
   markNoteReviewed as apiMarkNoteReviewed,
 } from './notes';
+import { applyPatch } from './patch';
+import { isTransientError } from './client';
+import { fetchFailedCaptures, removeFailedCapture, saveFailedCapture } from './offline';
+import { fetchNoteLinks } from './noteLinks';
+import { fetchNoteRevisions, restoreNoteRevision } from './noteRevisions';
+import { embedPendingNotes, fetchRelatedNotes, searchSimilarNotes } from './embeddings';
+import {
+  TrashItemRef,
+  fetchTrash,
+  fetchTrashRetention,
+  purgeTrash,
+  restoreItem,
+  trashItem,
+  updateTrashRetention,
+} from './trash';
 import {
   fetchFolders,
   createFolder as apiCreateFolder,
   updateFolder as apiUpdateFolder,
-  deleteFolder as apiDeleteFolder,
 } from './folders';
 import {
   fetchCollections,
   createCollection as apiCreateCollection,
   updateCollection as apiUpdateCollection,
-  deleteCollection as apiDeleteCollection,
 } from './collections';
 import {
   fetchSavedFilters,
@@ -50,22 +75,52 @@ import {
   fetchFollowingProfiles,
   fetchFollowerProfiles,
   fetchSuggestedProfiles,
+  SocialComment,
+  SocialPost,
 } from './social';
+import { ChangeHandlers, RowChange, subscribeToChanges } from './realtime';
 import {
   createReviewSession as apiCreateReviewSession,
   fetchReviewSession as apiFetchReviewSession,
+  fetchOpenReviewSession,
   completeReviewSession as apiCompleteReviewSession,
   markNoteReviewedInSession as apiMarkNoteReviewedInSession,
   pickNotesForSession,
+  ReviewPickOptions,
 } from './reviewSessions';
+import { fetchReviewDailyStats, fetchReviewForecast } from './reviewStats';
 import {
   fetchReadingGoals as apiFetchReadingGoals,
   updateReadingGoals as apiUpdateReadingGoals,
   fetchActivityDates as apiFetchActivityDates,
   calculateStreakFromDates,
+  countBooksFinishedInYear,
   recordActivity as apiRecordActivity,
 } from './goalsActivity';
-import { Book, Note, Folder, Collection, SavedFilter, ReviewSession } from '@/types';
+import { fetchBookProgress, logProgress as apiLogProgress } from './progress';
+import {
+  fetchActiveReadingSession,
+  fetchReadingSessionsForBook,
+  startReadingSession as apiStartReadingSession,
+  endReadingSession as apiEndReadingSession,
+  discardReadingSession as apiDiscardReadingSession,
+} from './readingSessions';
+import {
+  fetchImportSourceIds,
+  planImport,
+  executeImport,
+  ImportPlan,
+  ConflictResolution,
+} from './importMerge';
+import { BackupData } from './exportImport';
+import {
+  createBackupArchive,
+  readBackupArchive,
+  backupDataFromArchive,
+  restoreBackupArchive,
+  BackupArchive,
+} from './backup';
+import { Book, BookUpdate, Note, NoteUpdate, Folder, Collection, SavedFilter, ReviewSession, ReviewGrade, ReadingStatus } from '@/types';
 import { ReadingGoals } from './goalsActivity';
 
 // Keys
@@ -73,10 +128,26 @@ const qk = {
   books: ['books'] as const,
   notes: ['notes'] as const,
   notesByBook: (bookId: string) => ['notes', bookId] as const,
+  noteSearch: (query: string, bookId?: string) => ['notes', 'search', bookId ?? 'all', query] as const,
+  noteLinks: ['notes', 'links'] as const,
+  // Refreshed when embeddings change (scheduleEmbedding), not on every note mutation
+  relatedNotes: (noteId: string) => ['relatedNotes', noteId] as const,
+  similarNotes: (query: string, bookId?: string) => ['notes', 'similar', bookId ?? 'all', query] as const,
+  noteRevisions: (noteId: string) => ['notes', 'revisions', noteId] as const,
+  failedCaptures: ['failedCaptures'] as const,
+  trash: ['trash'] as const,
+  trashRetention: ['trash', 'retention'] as const,
+  progress: (bookId: string) => ['readingProgress', bookId] as const,
+  activeReadingSession: ['activeReadingSession'] as const,
+  readingSessions: (bookId: string) => ['readingSessions', bookId] as const,
   folders: ['folders'] as const,
   collections: ['collections'] as const,
   savedFilters: ['savedFilters'] as const,
   reviewSession: (id: string) => ['reviewSession', id] as const,
+  openReviewSession: ['reviewSession', 'open'] as const,
+  reviewStats: ['reviewStats'] as const,
+  reviewDaily: (days: number) => ['reviewStats', 'daily', days] as const,
+  reviewForecast: (days: number) => ['reviewStats', 'forecast', days] as const,
   goals: ['readingGoals'] as const,
   activity: ['activityDates'] as const,
   feed: ['feed'] as const,
@@ -89,76 +160,382 @@ const qk = {
   suggestedProfiles: ['suggestedProfiles'] as const,
 };
 
+// Versions of books/notes this client wrote itself. An edit started from a snapshot taken before
+// our own previous save is checked against that save, not reported as a conflict. A note still
+// waiting to be created (updatedAt 0) has no version to check yet.
+const ownVersions = new Map<string, number>();
+const expectedVersion = (id: string, seen: Date) => {
+  const version = Math.max(seen.getTime(), ownVersions.get(id) ?? 0);
+  return version ? new Date(version) : undefined;
+};
+
 // Books
 export function useBooks() {
-  return useQuery({ queryKey: qk.books, queryFn: fetchBooks });
+  return useQuery({ queryKey: qk.books, queryFn: fetchBooks, meta: { persist: true } });
 }
 
 export function useBookMutations() {
   const client = useQueryClient();
   const invalidate = () => client.invalidateQueries({ queryKey: qk.books });
+  // Renaming a book rewrites [[book:...]] links inside notes server-side; trashing one takes its notes along
+  const invalidateWithNotes = () => {
+    invalidate();
+    client.invalidateQueries({ queryKey: qk.notes });
+  };
 
   const create = useMutation({ mutationFn: apiCreateBook, onSuccess: invalidate });
+  // Patches the cached book straight away; rolled back if the write fails or conflicts
   const update = useMutation({
-    mutationFn: ({ id, updates }: { id: string; updates: Partial<Book> }) =>
-      apiUpdateBook(id, updates),
-    onSuccess: invalidate,
+    scope: { id: 'book-update' },
+    mutationFn: ({ book, updates }: { book: Book; updates: BookUpdate }) =>
+      apiUpdateBook(book.id, updates, expectedVersion(book.id, book.updatedAt)),
+    onMutate: async ({ book, updates }) => {
+      await client.cancelQueries({ queryKey: qk.books });
+      const previous = client.getQueryData<Book[]>(qk.books);
+      client.setQueryData<Book[]>(qk.books, (list) =>
+        list?.map((b) => (b.id === book.id ? applyPatch(b, updates) : b))
+      );
+      return { previous };
+    },
+    onError: (_error, _vars, context) => client.setQueryData(qk.books, context?.previous),
+    onSuccess: (saved) => ownVersions.set(saved.id, saved.updatedAt.getTime()),
+    onSettled: invalidateWithNotes,
+  });
+  const remove = useMutation({
+    mutationFn: (id: string) => trashItem('book', id),
+    onSuccess: () => {
+      invalidateWithNotes();
+      client.invalidateQueries({ queryKey: qk.trash });
+    },
   });
-  const remove = useMutation({ mutationFn: (id: string) => apiDeleteBook(id), onSuccess: invalidate });
   const reorder = useMutation({
     mutationFn: (ids: string[]) => apiReorderBooks(ids),
     onSuccess: invalidate,
   });
+  const setStatus = useMutation({
+    mutationFn: ({ id, status, dates }: { id: string; status: ReadingStatus; dates?: { startedAt?: Date; finishedAt?: Date } }) =>
+      apiSetBookStatus(id, status, dates),
+    onSuccess: invalidate,
+  });
 
-  return { create, update, remove, reorder };
+  return { create, update, remove, reorder, setStatus };
 }
 
 // Notes
 export function useNotes() {
-  return useQuery({ queryKey: qk.notes, queryFn: fetchNotes });
+  const query = useQuery({ queryKey: qk.notes, queryFn: fetchNotes, meta: { persist: true } });
+  const pending = usePendingNoteChanges();
+  const data = useMemo(() => withPendingChanges(query.data, pending), [query.data, pending]);
+  return { ...query, data };
 }
 
-export function useNotesByBook(bookId: string) {
+const SEARCH_PAGE_SIZE = 50;
+
+// Lives under the 'notes' key so note mutations refresh open searches too. Hits come a page at a
+// time; `data` is every page loaded so far and fetchNextPage asks for more.
+export function useNoteSearch(query: string, bookId?: string) {
+  const term = query.trim();
+  const search = useInfiniteQuery({
+    queryKey: qk.noteSearch(term, bookId),
+    queryFn: ({ pageParam }) => searchNotes(term, bookId, SEARCH_PAGE_SIZE, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (last, pages) => (last.length < SEARCH_PAGE_SIZE ? undefined : pages.length * SEARCH_PAGE_SIZE),
+    enabled: term.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  const data = useMemo(() => search.data?.pages.flat(), [search.data]);
+  return { ...search, data };
+}
+
+// Every [[link]] in the user's notes; backlinks are the rows targeting a note
+export function useNoteLinks() {
+  return useQuery({ queryKey: qk.noteLinks, queryFn: fetchNoteLinks });
+}
+
+// New and edited notes are embedded shortly after they are saved, in one batch per burst of
+// writes (each embed-notes call may hit the paid provider), rather than when neighbours are read
+const EMBED_DELAY_MS = 5000;
+let embedTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleEmbedding(client: QueryClient) {
+  if (embedTimer) clearTimeout(embedTimer);
+  embedTimer = setTimeout(() => {
+    embedTimer = null;
+    embedPendingNotes()
+      .then(({ embedded, remaining }) => {
+        if (embedded) client.invalidateQueries({ queryKey: ['relatedNotes'] });
+        if (remaining) scheduleEmbedding(client);
+      })
+      .catch((err) => console.error('Failed to embed notes', err));
+  }, EMBED_DELAY_MS);
+}
+
+export function useRelatedNotes(noteId: string | undefined, enabled = true) {
   return useQuery({
+    queryKey: qk.relatedNotes(noteId ?? ''),
+    queryFn: () => fetchRelatedNotes(noteId!),
+    enabled: !!noteId && enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSimilarNoteSearch(query: string, bookId?: string, enabled = true) {
+  const term = query.trim();
+  return useQuery({
+    queryKey: qk.similarNotes(term, bookId),
+    queryFn: () => searchSimilarNotes(term, bookId),
+    enabled: enabled && term.length > 0,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Earlier versions of a note; note mutations refresh these along with the rest of 'notes'
+export function useNoteRevisions(noteId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: qk.noteRevisions(noteId ?? ''),
+    queryFn: () => fetchNoteRevisions(noteId!),
+    enabled: !!noteId && enabled,
+  });
+}
+
+export function useNoteRevisionMutations() {
+  const client = useQueryClient();
+  const restore = useMutation({
+    mutationFn: (revisionId: string) => restoreNoteRevision(revisionId),
+    onSuccess: (data) => {
+      client.invalidateQueries({ queryKey: qk.notes });
+      client.invalidateQueries({ queryKey: qk.books });
+      client.invalidateQueries({ queryKey: qk.progress(data.bookId) });
+      scheduleEmbedding(client);
+    },
+  });
+  return { restore };
+}
+
+export function useNotesByBook(bookId: string) {
+  const query = useQuery({
     queryKey: qk.notesByBook(bookId),
     queryFn: () => fetchNotesForBook(bookId),
     enabled: !!bookId,
+    meta: { persist: true },
+  });
+  const pending = usePendingNoteChanges();
+  const data = useMemo(() => withPendingChanges(query.data, pending, bookId), [query.data, pending, bookId]);
+  return { ...query, data };
+}
+
+// Note captures and edits go through a queue: while offline (or while an earlier one is still
+// retrying) they wait, are persisted with the query cache (src/api/offline.ts) and run one at a
+// time in order. Their functions are registered on the client rather than in the hooks so that
+// a queue restored after a reload can still be replayed.
+const noteMutationKeys = {
+  create: ['notes', 'create'] as const,
+  update: ['notes', 'update'] as const,
+};
+
+const noteSync = {
+  scope: { id: 'note-sync' },
+  networkMode: 'online' as const,
+  // Keeps trying through flaky connections and server hiccups; a conflict or a rejected write
+  // won't go away by retrying, and would hold up the rest of the queue
+  retry: (failureCount: number, error: Error) => isTransientError(error) && failureCount < 8,
+  retryDelay: (attempt: number) => Math.min(1000 * 2 ** attempt, 5 * 60 * 1000),
+};
+
+const invalidateNotes = (client: QueryClient, bookId?: string) => {
+  if (bookId) {
+    client.invalidateQueries({ queryKey: qk.notesByBook(bookId) });
+    // Notes with a later location advance reading progress server-side
+    client.invalidateQueries({ queryKey: qk.progress(bookId) });
+  }
+  client.invalidateQueries({ queryKey: qk.notes });
+  client.invalidateQueries({ queryKey: qk.books });
+};
+
+export function registerNoteSync(client: QueryClient) {
+  client.setMutationDefaults(noteMutationKeys.create, {
+    ...noteSync,
+    mutationFn: (capture: NoteCapture) => createNoteWithMedia(capture),
+    onSuccess: (saved: Note) => {
+      ownVersions.set(saved.id, saved.updatedAt.getTime());
+      scheduleEmbedding(client);
+    },
+    // Out of retries: keep the capture (and any media it still holds) rather than drop it
+    onError: async (error: Error, capture: NoteCapture) => {
+      await saveFailedCapture(capture, error);
+      await client.invalidateQueries({ queryKey: qk.failedCaptures });
+    },
+    onSettled: (_data: Note, _error: Error, capture: NoteCapture) => invalidateNotes(client, capture.bookId),
+  });
+  client.setMutationDefaults(noteMutationKeys.update, {
+    ...noteSync,
+    mutationFn: ({ note, updates }: { note: Note; updates: NoteUpdate }) =>
+      apiUpdateNote(note.id, updates, expectedVersion(note.id, note.updatedAt)),
+    onSuccess: (saved: Note) => {
+      ownVersions.set(saved.id, saved.updatedAt.getTime());
+      scheduleEmbedding(client);
+    },
+    onSettled: (_data: Note, _error: Error, { note }: { note: Note }) => invalidateNotes(client, note.bookId),
+  });
+}
+
+// Queued captures/edits, oldest first. Note lists show them straight away (pendingSync) and
+// drop a failed edit again, which doubles as the optimistic update and its rollback. Failed
+// captures stay listed (syncFailed) until retried or discarded.
+function usePendingNoteChanges(): PendingNoteChange[] {
+  const queued = useMutationState({
+    filters: { mutationKey: ['notes'], status: 'pending' },
+    select: (mutation): PendingNoteChange =>
+      mutation.options.mutationKey?.[1] === 'create'
+        ? { kind: 'create', capture: mutation.state.variables as NoteCapture }
+        : { kind: 'update', ...(mutation.state.variables as { note: Note; updates: NoteUpdate }) },
+  });
+  const { data: failed } = useFailedCaptures();
+  return useMemo(() => {
+    if (!failed?.length) return queued;
+    const retrying = new Set(queued.flatMap((change) => (change.kind === 'create' ? [change.capture.id] : [])));
+    const stuck = failed
+      .filter((f) => !retrying.has(f.capture.id))
+      .map((f): PendingNoteChange => ({ kind: 'create', capture: f.capture, failed: true }));
+    return [...stuck, ...queued];
+  }, [queued, failed]);
+}
+
+export function useFailedCaptures() {
+  return useQuery({
+    queryKey: qk.failedCaptures,
+    queryFn: fetchFailedCaptures,
+    // Read from this device, not the network
+    networkMode: 'always',
+    staleTime: Infinity,
   });
 }
 
+export function useFailedCaptureMutations() {
+  const client = useQueryClient();
+  const create = useMutation<Note, Error, NoteCapture>({ mutationKey: noteMutationKeys.create });
+  const discard = useMutation({
+    mutationFn: (id: string) => removeFailedCapture(id),
+    networkMode: 'always',
+    onSuccess: () => client.invalidateQueries({ queryKey: qk.failedCaptures }),
+  });
+  // Back into the sync queue; it returns to the failed list if it fails again
+  const retry = useMutation({
+    mutationFn: async (capture: NoteCapture) => {
+      await removeFailedCapture(capture.id!);
+      create.mutate(capture);
+    },
+    networkMode: 'always',
+    onSuccess: () => client.invalidateQueries({ queryKey: qk.failedCaptures }),
+  });
+  return { retry, discard };
+}
+
+// Picks an id up front so a capture can be shown, opened and edited before it is synced
+export const newNoteId = () => crypto.randomUUID();
+
 export function useNoteMutations() {
   const client = useQueryClient();
   const invalidateAll = () => {
     client.invalidateQueries({ queryKey: qk.notes });
     client.invalidateQueries({ queryKey: qk.books });
   };
-  const invalidateByBook = (bookId?: string) => {
-    if (bookId) client.invalidateQueries({ queryKey: qk.notesByBook(bookId) });
-    client.invalidateQueries({ queryKey: qk.notes });
-    client.invalidateQueries({ queryKey: qk.books });
-  };
-
-  const create = useMutation({
-    mutationFn: apiCreateNote,
-    onSuccess: (data) => invalidateByBook(data.bookId),
-  });
-  const update = useMutation({
-    mutationFn: ({ id, updates }: { id: string; updates: Partial<Note> }) =>
-      apiUpdateNote(id, updates),
-    onSuccess: (data) => invalidateByBook(data.bookId),
+  // Both go through the note sync queue (registerNoteSync); pending ones show in the note lists
+  const create = useMutation<Note, Error, NoteCapture>({ mutationKey: noteMutationKeys.create });
+  const update = useMutation<Note, Error, { note: Note; updates: NoteUpdate }>({
+    mutationKey: noteMutationKeys.update,
   });
   const remove = useMutation({
-    mutationFn: (id: string) => apiDeleteNote(id),
-    onSuccess: () => invalidateAll(),
+    mutationFn: (id: string) => trashItem('note', id),
+    onSuccess: () => {
+      invalidateAll();
+      client.invalidateQueries({ queryKey: qk.trash });
+    },
   });
   const markReviewed = useMutation({
-    mutationFn: ({ id }: { id: string }) => apiMarkNoteReviewed(id),
-    onSuccess: invalidateAll,
+    mutationFn: ({
+      id,
+      grade,
+      responseMs,
+      cloze,
+    }: {
+      id: string;
+      grade: ReviewGrade;
+      responseMs?: number;
+      cloze?: number;
+    }) => apiMarkNoteReviewed(id, grade, responseMs, cloze),
+    onSuccess: () => {
+      invalidateAll();
+      client.invalidateQueries({ queryKey: qk.reviewStats });
+    },
   });
 
   return { create, update, remove, markReviewed };
 }
 
+// Reading progress
+export function useBookProgress(bookId: string) {
+  return useQuery({
+    queryKey: qk.progress(bookId),
+    queryFn: () => fetchBookProgress(bookId),
+    enabled: !!bookId,
+  });
+}
+
+export function useProgressMutations() {
+  const client = useQueryClient();
+  const log = useMutation({
+    mutationFn: ({ bookId, page, positionSeconds }: { bookId: string; page?: number; positionSeconds?: number }) =>
+      apiLogProgress(bookId, { page, positionSeconds }),
+    onSuccess: (data) => {
+      client.invalidateQueries({ queryKey: qk.progress(data.bookId) });
+      client.invalidateQueries({ queryKey: qk.books });
+      client.invalidateQueries({ queryKey: qk.activity });
+    },
+  });
+  return { log };
+}
+
+// Reading sessions
+export function useActiveReadingSession() {
+  return useQuery({ queryKey: qk.activeReadingSession, queryFn: fetchActiveReadingSession });
+}
+
+export function useReadingSessions(bookId: string) {
+  return useQuery({
+    queryKey: qk.readingSessions(bookId),
+    queryFn: () => fetchReadingSessionsForBook(bookId),
+    enabled: !!bookId,
+  });
+}
+
+export function useReadingSessionMutations() {
+  const client = useQueryClient();
+  const invalidate = (bookId?: string) => {
+    client.invalidateQueries({ queryKey: qk.activeReadingSession });
+    if (bookId) {
+      client.invalidateQueries({ queryKey: qk.readingSessions(bookId) });
+      client.invalidateQueries({ queryKey: qk.progress(bookId) });
+    }
+    client.invalidateQueries({ queryKey: qk.books });
+    client.invalidateQueries({ queryKey: qk.activity });
+  };
+  const start = useMutation({
+    mutationFn: (bookId: string) => apiStartReadingSession(bookId),
+    onSuccess: (data) => invalidate(data.bookId),
+  });
+  const end = useMutation({
+    mutationFn: ({ id, page, position }: { id: string; page?: number; position?: number }) =>
+      apiEndReadingSession(id, { page, position }),
+    onSuccess: (data) => invalidate(data.bookId),
+  });
+  const discard = useMutation({
+    mutationFn: (id: string) => apiDiscardReadingSession(id),
+    onSuccess: () => invalidate(),
+  });
+  return { start, end, discard };
+}
+
 // Folders
 export function useFolders() {
   return useQuery({ queryKey: qk.folders, queryFn: fetchFolders });
@@ -179,8 +556,11 @@ export function useFolderMutations() {
     onSuccess: invalidate,
   });
   const remove = useMutation({
-    mutationFn: (id: string) => apiDeleteFolder(id),
-    onSuccess: invalidate,
+    mutationFn: (id: string) => trashItem('folder', id),
+    onSuccess: () => {
+      invalidate();
+      client.invalidateQueries({ queryKey: qk.trash });
+    },
   });
   return { create, update, remove };
 }
@@ -203,12 +583,60 @@ export function useCollectionMutations() {
     onSuccess: invalidate,
   });
   const remove = useMutation({
-    mutationFn: (id: string) => apiDeleteCollection(id),
-    onSuccess: invalidate,
+    mutationFn: (id: string) => trashItem('collection', id),
+    onSuccess: () => {
+      invalidate();
+      client.invalidateQueries({ queryKey: qk.trash });
+    },
   });
   return { create, update, remove };
 }
 
+// Trash
+export function useTrash(enabled = true) {
+  return useQuery({ queryKey: qk.trash, queryFn: fetchTrash, enabled });
+}
+
+export function useTrashRetention() {
+  return useQuery({ queryKey: qk.trashRetention, queryFn: fetchTrashRetention });
+}
+
+export function useTrashMutations() {
+  const client = useQueryClient();
+  // Restores and purges touch every list (purging also unlinks [[links]] to purged notes)
+  const invalidateLibrary = () => {
+    client.invalidateQueries({ queryKey: qk.trash });
+    client.invalidateQueries({ queryKey: qk.books });
+    client.invalidateQueries({ queryKey: qk.notes });
+    client.invalidateQueries({ queryKey: qk.folders });
+    client.invalidateQueries({ queryKey: qk.collections });
+  };
+  const restore = useMutation({
+    mutationFn: ({ kind, id }: TrashItemRef) => restoreItem(kind, id),
+    onSuccess: invalidateLibrary,
+  });
+  const purge = useMutation({
+    mutationFn: (items: TrashItemRef[]) => purgeTrash({ items }),
+    onSuccess: invalidateLibrary,
+  });
+  const empty = useMutation({
+    mutationFn: () => purgeTrash({ all: true }),
+    onSuccess: invalidateLibrary,
+  });
+  // Drops whatever is past the retention period; the Trash page runs it on open
+  const purgeExpired = useMutation({
+    mutationFn: () => purgeTrash(),
+    onSuccess: (result) => {
+      if (result.books + result.notes + result.folders + result.collections > 0) invalidateLibrary();
+    },
+  });
+  const setRetention = useMutation({
+    mutationFn: (days: number) => updateTrashRetention(days),
+    onSuccess: (days) => client.setQueryData(qk.trashRetention, days),
+  });
+  return { restore, purge, empty, purgeExpired, setRetention };
+}
+
 // Saved Filters
 export function useSavedFilters() {
   return useQuery({ queryKey: qk.savedFilters, queryFn: fetchSavedFilters });
@@ -232,28 +660,56 @@ export function useReviewSession(id: string) {
     enabled: !!id,
   });
 }
+
+// The session to offer for resuming, if any
+export function useOpenReviewSession() {
+  return useQuery({ queryKey: qk.openReviewSession, queryFn: fetchOpenReviewSession });
+}
+
 export function useReviewSessionMutations() {
   const client = useQueryClient();
   const invalidate = (id?: string) => {
     if (id) client.invalidateQueries({ queryKey: qk.reviewSession(id) });
+    client.invalidateQueries({ queryKey: qk.openReviewSession });
     client.invalidateQueries({ queryKey: qk.notes });
   };
   const create = useMutation({
-    mutationFn: apiCreateReviewSession,
-    onSuccess: () => client.invalidateQueries({ queryKey: qk.reviewSession('new') }), // noop invalidation placeholder
+    mutationFn: ({ noteIds = [], ...options }: { noteIds?: string[] } & ReviewPickOptions) =>
+      apiCreateReviewSession(noteIds, options),
+    onSuccess: () => client.invalidateQueries({ queryKey: qk.openReviewSession }),
   });
   const complete = useMutation({
     mutationFn: (id: string) => apiCompleteReviewSession(id),
     onSuccess: invalidate,
   });
   const markInSession = useMutation({
-    mutationFn: ({ sessionId, noteId }: { sessionId: string; noteId: string }) =>
-      apiMarkNoteReviewedInSession(sessionId, noteId),
+    mutationFn: ({
+      sessionId,
+      noteId,
+      grade,
+      responseMs,
+      cloze,
+    }: {
+      sessionId: string;
+      noteId: string;
+      grade: ReviewGrade;
+      responseMs?: number;
+      cloze?: number;
+    }) => apiMarkNoteReviewedInSession(sessionId, noteId, grade, responseMs, cloze),
     onSuccess: () => client.invalidateQueries(),
   });
   return { create, complete, markInSession, pickNotesForSession };
 }
 
+// Review analytics (profile page); graded reviews refresh them
+export function useReviewDailyStats(days = 365) {
+  return useQuery({ queryKey: qk.reviewDaily(days), queryFn: () => fetchReviewDailyStats(days) });
+}
+
+export function useReviewForecast(days = 30) {
+  return useQuery({ queryKey: qk.reviewForecast(days), queryFn: () => fetchReviewForecast(days) });
+}
+
 // Goals & Activity
 export function useReadingGoals() {
   return useQuery({ queryKey: qk.goals, queryFn: apiFetchReadingGoals });
@@ -272,7 +728,64 @@ export function useActivity() {
   return useQuery({ queryKey: qk.activity, queryFn: apiFetchActivityDates });
 }
 export function useActivityHelpers() {
-  return { calculateStreakFromDates, recordActivity: apiRecordActivity };
+  return { calculateStreakFromDates, countBooksFinishedInYear, recordActivity: apiRecordActivity };
+}
+
+// JSON backup import (merge-aware)
+async function planAgainstLibrary(client: ReturnType<typeof useQueryClient>, data: BackupData) {
+  const [books, notes, folders, collections, savedFilters, sourceIds] = await Promise.all([
+    client.ensureQueryData({ queryKey: qk.books, queryFn: fetchBooks }),
+    client.ensureQueryData({ queryKey: qk.notes, queryFn: fetchNotes }),
+    client.ensureQueryData({ queryKey: qk.folders, queryFn: fetchFolders }),
+    client.ensureQueryData({ queryKey: qk.collections, queryFn: fetchCollections }),
+    client.ensureQueryData({ queryKey: qk.savedFilters, queryFn: fetchSavedFilters }),
+    fetchImportSourceIds(),
+  ]);
+  return planImport(data, { books, notes, folders, collections, savedFilters }, sourceIds);
+}
+
+export function useBackupImport() {
+  const client = useQueryClient();
+  const plan = useMutation({
+    mutationFn: (data: BackupData) => planAgainstLibrary(client, data),
+  });
+  const run = useMutation({
+    mutationFn: ({ plan, resolutions }: { plan: ImportPlan; resolutions: Record<string, ConflictResolution> }) =>
+      executeImport(plan, resolutions),
+    onSuccess: () => {
+      client.invalidateQueries();
+      scheduleEmbedding(client);
+    },
+  });
+  return { plan, run };
+}
+
+// Full-account zip backups (data + media)
+export function useAccountBackup() {
+  const client = useQueryClient();
+  const exportArchive = useMutation({ mutationFn: createBackupArchive });
+  const plan = useMutation({
+    mutationFn: async (file: File) => {
+      const archive = await readBackupArchive(file);
+      return { archive, plan: await planAgainstLibrary(client, backupDataFromArchive(archive)) };
+    },
+  });
+  const restore = useMutation({
+    mutationFn: ({
+      archive,
+      plan,
+      resolutions,
+    }: {
+      archive: BackupArchive;
+      plan: ImportPlan;
+      resolutions: Record<string, ConflictResolution>;
+    }) => restoreBackupArchive(archive, plan, resolutions),
+    onSuccess: () => {
+      client.invalidateQueries();
+      scheduleEmbedding(client);
+    },
+  });
+  return { exportArchive, plan, restore };
 }
 
 // Helpers that operate on client-fetched notes
@@ -367,3 +880,150 @@ export function useCommentsMutations() {
   });
   return { addComment };
 }
+
+// Realtime: changes made on other devices merged into the caches above (src/api/realtime.ts)
+type SyncedRow = { id: string; createdAt: Date; deletedAt?: Date };
+
+const newestFirst = <T extends SyncedRow>(a: T, b: T) => b.createdAt.getTime() - a.createdAt.getTime();
+const byDisplayOrder = (a: Book, b: Book) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0);
+
+const removeRow = <T extends { id: string }>(list: T[] | undefined, id?: string) => list?.filter((x) => x.id !== id);
+
+// Trashed rows leave the list; anything else takes its old place or is added. Lists that
+// were never loaded stay that way.
+const mergeRow = <T extends SyncedRow>(list: T[] | undefined, row: T, order: (a: T, b: T) => number) =>
+  row.deletedAt ? removeRow(list, row.id) : list && [...removeRow(list, row.id), row].sort(order);
+
+// Our own saves come back through the channel too, as do changes we already refetched
+const isKnownVersion = (row: Book | Note, cached?: Book | Note) => {
+  const version = row.updatedAt.getTime();
+  return (ownVersions.get(row.id) ?? 0) >= version || (!!cached && cached.updatedAt.getTime() >= version);
+};
+
+function realtimeHandlers(client: QueryClient, userId: string): ChangeHandlers {
+  // Rows appearing (restored) or going away (trashed) change the trash as well
+  const mergeOwned = <T extends SyncedRow>(key: readonly string[], change: RowChange<T>) => {
+    if (change.event === 'DELETE') {
+      client.setQueryData<T[]>(key, (list) => removeRow(list, change.key.id));
+      return;
+    }
+    const { row } = change;
+    const cached = client.getQueryData<T[]>(key)?.find((x) => x.id === row.id);
+    client.setQueryData<T[]>(key, (list) => mergeRow(list, row, newestFirst));
+    if (row.deletedAt || !cached) client.invalidateQueries({ queryKey: qk.trash });
+  };
+
+  return {
+    books: (change) => {
+      if (change.event === 'DELETE') {
+        client.setQueryData<Book[]>(qk.books, (list) => removeRow(list, change.key.id));
+        return;
+      }
+      const { row } = change;
+      const cached = client.getQueryData<Book[]>(qk.books)?.find((b) => b.id === row.id);
+      if (isKnownVersion(row, cached)) {
+        // Note count and reading position change without a new version
+        client.setQueryData<Book[]>(qk.books, (list) =>
+          list?.map((b) =>
+            b.id === row.id
+              ? { ...b, notesCount: row.notesCount, currentPage: row.currentPage, currentPosition: row.currentPosition }
+              : b
+          )
+        );
+        return;
+      }
+      client.setQueryData<Book[]>(qk.books, (list) => mergeRow(list, row, byDisplayOrder));
+      if (row.deletedAt || !cached) client.invalidateQueries({ queryKey: qk.trash });
+    },
+    notes: (change) => {
+      const all = client.getQueryData<Note[]>(qk.notes);
+      if (change.event === 'DELETE') {
+        const gone = all?.find((n) => n.id === change.key.id);
+        client.setQueryData<Note[]>(qk.notes, (list) => removeRow(list, change.key.id));
+        if (gone) client.setQueryData<Note[]>(qk.notesByBook(gone.bookId), (list) => removeRow(list, gone.id));
+        return;
+      }
+      const { row } = change;
+      const cached =
+        all?.find((n) => n.id === row.id) ??
+        client.getQueryData<Note[]>(qk.notesByBook(row.bookId))?.find((n) => n.id === row.id);
+      if (isKnownVersion(row, cached)) return;
+      client.setQueryData<Note[]>(qk.notes, (list) => mergeRow(list, row, newestFirst));
+      client.setQueryData<Note[]>(qk.notesByBook(row.bookId), (list) => mergeRow(list, row, newestFirst));
+      if (cached && cached.bookId !== row.bookId) {
+        client.setQueryData<Note[]>(qk.notesByBook(cached.bookId), (list) => removeRow(list, row.id));
+      }
+      // Worked out from note contents server-side
+      client.invalidateQueries({ queryKey: qk.noteLinks });
+      client.invalidateQueries({ queryKey: qk.noteRevisions(row.id) });
+      client.invalidateQueries({ queryKey: qk.progress(row.bookId) });
+      if (row.deletedAt || !cached) client.invalidateQueries({ queryKey: qk.trash });
+    },
+    folders: (change) => mergeOwned(qk.folders, change),
+    collections: (change) => mergeOwned(qk.collections, change),
+    posts: (change) => {
+      if (change.event === 'DELETE') {
+        [qk.feed, qk.myFeed].forEach((key) =>
+          client.setQueryData<SocialPost[]>(key, (list) => removeRow(list, change.key.id))
+        );
+        return;
+      }
+      const { row } = change;
+      const visibleIn = (key: typeof qk.feed | typeof qk.myFeed) =>
+        row.isPublic || (key === qk.myFeed && row.userId === userId);
+      [qk.feed, qk.myFeed].forEach((key) => {
+        const list = client.getQueryData<SocialPost[]>(key);
+        const cached = list?.find((p) => p.id === row.id);
+        if (!visibleIn(key)) {
+          client.setQueryData<SocialPost[]>(key, removeRow(list, row.id));
+        } else if (cached) {
+          // Counters and edits; the author (joined from profiles) isn't part of the change
+          client.setQueryData<SocialPost[]>(key, (posts) =>
+            posts?.map((p) => (p.id === row.id ? { ...row, user: p.user } : p))
+          );
+        } else if (list) {
+          client.invalidateQueries({ queryKey: key });
+        }
+      });
+    },
+    comments: (change) => {
+      if (change.event === 'DELETE') {
+        client.setQueriesData<SocialComment[]>({ queryKey: ['comments'] }, (list) => removeRow(list, change.key.id));
+        return;
+      }
+      const { row } = change;
+      const cached = client.getQueryData<SocialComment[]>(qk.comments(row.postId));
+      if (cached?.some((c) => c.id === row.id)) {
+        client.setQueryData<SocialComment[]>(qk.comments(row.postId), (list) =>
+          list?.map((c) => (c.id === row.id ? { ...row, user: c.user } : c))
+        );
+      } else {
+        client.invalidateQueries({ queryKey: qk.comments(row.postId) });
+      }
+    },
+    likes: (change) => {
+      const like = change.event === 'DELETE' ? change.key : change.row;
+      if (like.userId === userId) {
+        client.setQueryData<string[]>(qk.myLikes, (ids) => {
+          const others = ids?.filter((id) => id !== like.postId);
+          return change.event === 'DELETE' ? others : others && [...others, like.postId];
+        });
+      }
+      client.invalidateQueries({ queryKey: qk.likes(like.postId) });
+    },
+  };
+}
+
+// Nothing is replayed after a dropped connection, so everything synced is fetched again
+const resyncQueries = (client: QueryClient) =>
+  [qk.books, qk.notes, qk.folders, qk.collections, qk.trash, qk.feed, qk.myFeed, qk.myLikes, ['comments'], ['likes']].forEach(
+    (queryKey) => client.invalidateQueries({ queryKey })
+  );
+
+export function useRealtimeSync(userId?: string) {
+  const client = useQueryClient();
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToChanges(userId, realtimeHandlers(client, userId), () => resyncQueries(client));
+  }, [client, userId]);
+}
@@ -0,0 +1,366 @@
+import { supabase, requireUserId, IMPORT_HEADER } from './client';
+import { BackupData } from './exportImport';
+import { findMatchingBook } from './books';
+import { remapNoteLinks } from './noteLinks';
+import { Book, Note, Folder, Collection, SavedFilter } from '@/types';
+
+// Merge-aware restore of a Marginalia JSON backup. Planning matches every backup entity
+// against the library (same id, an earlier import of it, or same content); executing
+// writes one batched upsert per table with ids remapped.
+
+export type ImportEntityKind = 'folder' | 'book' | 'note' | 'collection' | 'savedFilter';
+export type ConflictResolution = 'skip' | 'overwrite' | 'duplicate';
+
+export const importEntityOrder: ImportEntityKind[] = ['folder', 'book', 'note', 'collection', 'savedFilter'];
+
+const tables: Record<ImportEntityKind, string> = {
+  folder: 'folders',
+  book: 'books',
+  note: 'notes',
+  collection: 'collections',
+  savedFilter: 'saved_filters',
+};
+
+// Rows per upsert request, so a large backup (long transcripts, OCR text) stays within
+// PostgREST's body size and statement timeout
+const UPSERT_BATCH_SIZE = 500;
+
+export interface ImportConflict {
+  key: string;
+  kind: ImportEntityKind;
+  sourceId: string;
+  existingId: string;
+  label: string;
+  matchedBy: 'id' | 'import' | 'content';
+}
+
+// source_id -> id of rows created by earlier imports. Rows in the trash never match (an import
+// mustn't write into them or attach notes to a trashed book), but keep their source_id until
+// they are purged, so a new row can't claim it.
+export interface ImportSourceIds {
+  live: Record<ImportEntityKind, Map<string, string>>;
+  trashed: Record<ImportEntityKind, Set<string>>;
+}
+
+export interface ExistingLibrary {
+  books: Book[];
+  notes: Note[];
+  folders: Folder[];
+  collections: Collection[];
+  savedFilters: SavedFilter[];
+}
+
+export interface ImportPlan {
+  data: BackupData;
+  conflicts: ImportConflict[];
+  sourceIds: ImportSourceIds;
+  counts: Record<ImportEntityKind, { total: number; conflicts: number }>;
+}
+
+export interface ImportSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface ImportResult extends ImportSummary {
+  // backup id -> id of the row it landed on
+  idMaps: Record<ImportEntityKind, Map<string, string>>;
+  // backup ids of books that were created rather than matched
+  createdBooks: Set<string>;
+}
+
+export const conflictKey = (kind: ImportEntityKind, sourceId: string) => `${kind}:${sourceId}`;
+
+const normalize = (value?: string) => (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+export async function fetchImportSourceIds(): Promise<ImportSourceIds> {
+  const userId = await requireUserId();
+  const sourceIds: ImportSourceIds = {
+    live: { folder: new Map(), book: new Map(), note: new Map(), collection: new Map(), savedFilter: new Map() },
+    trashed: { folder: new Set(), book: new Set(), note: new Set(), collection: new Set(), savedFilter: new Set() },
+  };
+  await Promise.all(
+    importEntityOrder.map(async (kind) => {
+      // Saved filters have no trash
+      const { data, error } = await supabase
+        .from(tables[kind])
+        .select(kind === 'savedFilter' ? 'id, source_id' : 'id, source_id, deleted_at')
+        .eq('user_id', userId)
+        .not('source_id', 'is', null);
+      if (error) throw error;
+      for (const row of data as unknown as { id: string; source_id: string; deleted_at?: string | null }[]) {
+        if (row.deleted_at) sourceIds.trashed[kind].add(row.source_id);
+        else sourceIds.live[kind].set(row.source_id, row.id);
+      }
+    })
+  );
+  return sourceIds;
+}
+
+export function planImport(data: BackupData, existing: ExistingLibrary, sourceIds: ImportSourceIds): ImportPlan {
+  const conflicts: ImportConflict[] = [];
+  const matched = new Map<string, string>();
+  const ids = {
+    folder: new Set(existing.folders.map((f) => f.id)),
+    book: new Set(existing.books.map((b) => b.id)),
+    note: new Set(existing.notes.map((n) => n.id)),
+    collection: new Set(existing.collections.map((c) => c.id)),
+    savedFilter: new Set(existing.savedFilters.map((f) => f.id)),
+  };
+
+  const match = (kind: ImportEntityKind, sourceId: string, label: string, byContent: () => string | undefined) => {
+    let existingId: string | undefined;
+    let matchedBy: ImportConflict['matchedBy'] = 'id';
+    if (ids[kind].has(sourceId)) {
+      existingId = sourceId;
+    } else if (sourceIds.live[kind].has(sourceId)) {
+      existingId = sourceIds.live[kind].get(sourceId);
+      matchedBy = 'import';
+    } else {
+      existingId = byContent();
+      matchedBy = 'content';
+    }
+    if (!existingId) return;
+    const key = conflictKey(kind, sourceId);
+    matched.set(key, existingId);
+    conflicts.push({ key, kind, sourceId, existingId, label, matchedBy });
+  };
+
+  for (const f of data.folders) {
+    match('folder', f.id, f.name, () => existing.folders.find((e) => normalize(e.name) === normalize(f.name))?.id);
+  }
+  for (const b of data.books) {
+    match('book', b.id, b.title, () => findMatchingBook(existing.books, b.title, b.author, b.isbn)?.id);
+  }
+  for (const n of data.notes) {
+    match('note', n.id, n.content.slice(0, 80), () => {
+      const bookId = matched.get(conflictKey('book', n.bookId));
+      if (!bookId) return undefined;
+      return existing.notes.find((e) => e.bookId === bookId && normalize(e.content) === normalize(n.content))?.id;
+    });
+  }
+  for (const c of data.collections) {
+    match('collection', c.id, c.name, () => existing.collections.find((e) => normalize(e.name) === normalize(c.name))?.id);
+  }
+  for (const f of data.savedFilters) {
+    match('savedFilter', f.id, f.name, () => existing.savedFilters.find((e) => normalize(e.name) === normalize(f.name))?.id);
+  }
+
+  const totals: Record<ImportEntityKind, number> = {
+    folder: data.folders.length,
+    book: data.books.length,
+    note: data.notes.length,
+    collection: data.collections.length,
+    savedFilter: data.savedFilters.length,
+  };
+  const counts = Object.fromEntries(
+    importEntityOrder.map((kind) => [
+      kind,
+      { total: totals[kind], conflicts: conflicts.filter((c) => c.kind === kind).length },
+    ])
+  ) as ImportPlan['counts'];
+
+  return { data, conflicts, sourceIds, counts };
+}
+
+const iso = (d?: Date) => (d && !isNaN(new Date(d).getTime()) ? new Date(d).toISOString() : null);
+const createdAt = (d?: Date) => iso(d) ?? new Date().toISOString();
+const clozeStates = (states?: Note['reviewClozes']) =>
+  states
+    ? Object.fromEntries(
+        Object.entries(states).map(([cloze, s]) => [
+          cloze,
+          {
+            stability: s.stability,
+            difficulty: s.difficulty,
+            lapses: s.lapses ?? 0,
+            review_count: s.reviewCount ?? 0,
+            last_reviewed_at: iso(s.lastReviewedAt),
+            next_review_at: iso(s.nextReviewAt),
+          },
+        ])
+      )
+    : null;
+
+export async function executeImport(
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>
+): Promise<ImportResult> {
+  const userId = await requireUserId();
+  const summary: ImportSummary = { created: 0, updated: 0, skipped: 0 };
+  const conflicts = new Map(plan.conflicts.map((c) => [c.key, c]));
+  const idMaps: Record<ImportEntityKind, Map<string, string>> = {
+    folder: new Map(),
+    book: new Map(),
+    note: new Map(),
+    collection: new Map(),
+    savedFilter: new Map(),
+  };
+  const createdBooks = new Set<string>();
+
+  // Work out where a backup entity lands: its existing row (skip/overwrite) or a fresh id
+  const target = (kind: ImportEntityKind, sourceId: string, forceCreate = false) => {
+    const conflict = forceCreate ? undefined : conflicts.get(conflictKey(kind, sourceId));
+    const resolution = conflict ? resolutions[conflict.key] ?? 'skip' : undefined;
+    // Keep the backup id as source_id unless an earlier import (live or trashed row) already claimed it
+    const freeTag = plan.sourceIds.live[kind].has(sourceId) || plan.sourceIds.trashed[kind].has(sourceId) ? null : sourceId;
+    let result: { id: string; mode: 'create' | 'overwrite' | 'skip'; sourceTag: string | null };
+    if (!conflict) {
+      result = { id: crypto.randomUUID(), mode: 'create', sourceTag: freeTag };
+    } else if (resolution === 'duplicate') {
+      result = { id: crypto.randomUUID(), mode: 'create', sourceTag: null };
+    } else {
+      const previousTag = [...plan.sourceIds.live[kind]].find(([, id]) => id === conflict.existingId)?.[0];
+      result = {
+        id: conflict.existingId,
+        mode: resolution === 'overwrite' ? 'overwrite' : 'skip',
+        sourceTag: previousTag ?? (conflict.matchedBy === 'id' ? null : freeTag),
+      };
+    }
+    idMaps[kind].set(sourceId, result.id);
+    if (result.mode === 'create') summary.created += 1;
+    else if (result.mode === 'overwrite') summary.updated += 1;
+    else summary.skipped += 1;
+    return result;
+  };
+
+  const upsert = async (kind: ImportEntityKind, rows: Record<string, unknown>[]) => {
+    if (!rows.length) return;
+    // Two backup entities resolved onto the same existing row: the later one wins
+    const unique = [...new Map(rows.map((r) => [r.id, r])).values()];
+    for (let i = 0; i < unique.length; i += UPSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from(tables[kind])
+        .upsert(unique.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'id' })
+        .setHeader(IMPORT_HEADER, 'true');
+      if (error) throw error;
+    }
+  };
+
+  const folderRows = plan.data.folders.flatMap((f) => {
+    const t = target('folder', f.id);
+    if (t.mode === 'skip') return [];
+    return [{ id: t.id, user_id: userId, name: f.name, color: f.color ?? null, source_id: t.sourceTag, created_at: createdAt(f.createdAt) }];
+  });
+  await upsert('folder', folderRows);
+
+  const bookRows = plan.data.books.flatMap((b) => {
+    const t = target('book', b.id);
+    if (t.mode === 'create') createdBooks.add(b.id);
+    if (t.mode === 'skip') return [];
+    return [{
+      id: t.id,
+      user_id: userId,
+      title: b.title,
+      author: b.author,
+      format: b.format,
+      status: b.status ?? 'want_to_read',
+      started_at: iso(b.startedAt),
+      finished_at: iso(b.finishedAt),
+      cover_url: b.coverUrl ?? null,
+      isbn: b.isbn ?? null,
+      tags: b.tags ?? null,
+      folder_id: b.folderId ? idMaps.folder.get(b.folderId) ?? null : null,
+      total_pages: b.totalPages ?? null,
+      total_duration: b.totalDuration ?? null,
+      current_page: b.currentPage ?? null,
+      current_position: b.currentPosition ?? null,
+      rating: b.rating ?? null,
+      source_id: t.sourceTag,
+      created_at: createdAt(b.createdAt),
+    }];
+  });
+  await upsert('book', bookRows);
+
+  const noteRows = plan.data.notes.flatMap((n) => {
+    const bookId = idMaps.book.get(n.bookId);
+    if (!bookId) {
+      summary.skipped += 1;
+      return [];
+    }
+    // Notes of a book that was just created can't already exist in it
+    const t = target('note', n.id, createdBooks.has(n.bookId));
+    if (t.mode === 'skip') return [];
+    return [{
+      id: t.id,
+      user_id: userId,
+      book_id: bookId,
+      type: n.type,
+      media_type: n.mediaType,
+      content: n.content,
+      image_url: n.imageUrl ?? null,
+      extracted_text: n.extractedText ?? null,
+      audio_url: n.audioUrl ?? null,
+      audio_duration: n.audioDuration ?? null,
+      transcript: n.transcript ?? null,
+      location: n.location ?? null,
+      timestamp: n.timestamp ?? null,
+      chapter: n.chapter ?? null,
+      context: n.context ?? null,
+      tags: n.tags ?? null,
+      ai_summary: n.aiSummary ?? null,
+      ai_expanded: n.aiExpanded ?? null,
+      ai_flashcard: n.aiFlashcard ?? null,
+      is_private: n.isPrivate ?? true,
+      folder_id: n.folderId ? idMaps.folder.get(n.folderId) ?? null : null,
+      review_count: n.reviewCount ?? 0,
+      last_reviewed_at: iso(n.lastReviewedAt),
+      next_review_at: iso(n.nextReviewAt),
+      review_stability: n.reviewStability ?? null,
+      review_difficulty: n.reviewDifficulty ?? null,
+      review_lapses: n.reviewLapses ?? 0,
+      review_clozes: clozeStates(n.reviewClozes),
+      source_id: t.sourceTag,
+      created_at: createdAt(n.createdAt),
+    }];
+  });
+  // [[links]] point at backup ids; every note has its target id by now
+  for (const row of noteRows) {
+    row.content = remapNoteLinks(row.content, idMaps);
+    if (row.context) row.context = remapNoteLinks(row.context, idMaps);
+  }
+  await upsert('note', noteRows);
+
+  const remap = (kind: ImportEntityKind, sourceIds?: string[]) =>
+    sourceIds?.map((id) => idMaps[kind].get(id)).filter((id): id is string => !!id);
+
+  const collectionRows = plan.data.collections.flatMap((c) => {
+    const t = target('collection', c.id);
+    if (t.mode === 'skip') return [];
+    return [{
+      id: t.id,
+      user_id: userId,
+      name: c.name,
+      description: c.description ?? null,
+      note_ids: remap('note', c.noteIds) ?? [],
+      source_id: t.sourceTag,
+      created_at: createdAt(c.createdAt),
+    }];
+  });
+  await upsert('collection', collectionRows);
+
+  const filterRows = plan.data.savedFilters.flatMap((f) => {
+    const t = target('savedFilter', f.id);
+    if (t.mode === 'skip') return [];
+    return [{
+      id: t.id,
+      user_id: userId,
+      name: f.name,
+      filters: {
+        bookIds: remap('book', f.filters.bookIds),
+        types: f.filters.types,
+        tags: f.filters.tags,
+        folderIds: remap('folder', f.filters.folderIds),
+        dateRange: f.filters.dateRange
+          ? { start: iso(f.filters.dateRange.start), end: iso(f.filters.dateRange.end) }
+          : undefined,
+      },
+      source_id: t.sourceTag,
+      created_at: createdAt(f.createdAt),
+    }];
+  });
+  await upsert('savedFilter', filterRows);
+
+  return { ...summary, idMaps, createdBooks };
+}
@@ -0,0 +1,177 @@
+import { NoteType } from '@/types';
+
+// Parser for Kindle's "My Clippings.txt". Each clipping looks like:
+//
+//   Book Title (Author Name)
+//   - Your Highlight on page 12 | Location 180-183 | Added on Monday, 1 January 2024 10:00:00
+//
+//   The highlighted text
+//   ==========
+
+export type KindleClippingKind = 'highlight' | 'note';
+
+export interface KindleClipping {
+  title: string;
+  author: string;
+  kind: KindleClippingKind;
+  content: string;
+  page?: number;
+  locationStart?: number;
+  locationEnd?: number;
+  addedAt?: Date;
+  // Highlight text a note was attached to (same end location)
+  highlight?: string;
+}
+
+export interface KindleBookClippings {
+  title: string;
+  author: string;
+  clippings: KindleClipping[];
+}
+
+export interface KindleParseResult {
+  books: KindleBookClippings[];
+  highlights: number;
+  notes: number;
+  duplicates: number;
+  skipped: number;
+}
+
+const SEPARATOR = /^==========\s*$/m;
+
+function parseHeader(line: string): { title: string; author: string } {
+  const cleaned = line.replace(/^\uFEFF/, '').trim();
+  // Author is the last parenthesised group; titles may contain their own parentheses
+  const match = cleaned.match(/^(.*)\(([^()]*)\)\s*$/);
+  if (!match) return { title: cleaned, author: 'Unknown' };
+  const title = match[1].trim() || cleaned;
+  let author = match[2].trim();
+  // "Last, First" -> "First Last" (but leave multi-author lists alone)
+  const parts = author.split(',').map((p) => p.trim());
+  if (parts.length === 2 && !author.includes(';') && !/\band\b|&/.test(author)) {
+    author = `${parts[1]} ${parts[0]}`;
+  }
+  return { title, author: author || 'Unknown' };
+}
+
+function parseMeta(line: string) {
+  const lower = line.toLowerCase();
+  const kind: KindleClippingKind | null = lower.includes('highlight')
+    ? 'highlight'
+    : lower.includes('note')
+      ? 'note'
+      : null; // bookmarks and clips we don't import
+
+  const page = line.match(/page\s+(\d+)/i);
+  const location = line.match(/location\s+(\d+)(?:-(\d+))?/i);
+  const added = line.match(/added on\s+(.+)$/i);
+  const addedAt = added ? new Date(added[1].replace(/^\w+,\s*/, '')) : undefined;
+
+  return {
+    kind,
+    page: page ? Number(page[1]) : undefined,
+    locationStart: location ? Number(location[1]) : undefined,
+    locationEnd: location ? Number(location[2] ?? location[1]) : undefined,
+    addedAt: addedAt && !isNaN(addedAt.getTime()) ? addedAt : undefined,
+  };
+}
+
+function rangesOverlap(a: KindleClipping, b: KindleClipping): boolean {
+  if (a.locationStart === undefined || b.locationStart === undefined) return false;
+  return a.locationStart <= (b.locationEnd ?? b.locationStart) && b.locationStart <= (a.locationEnd ?? a.locationStart);
+}
+
+// Kindle appends a new clipping every time a highlight is extended or a note is edited,
+// so a later clipping of the same kind at an overlapping location replaces the earlier one.
+function dedupe(clippings: KindleClipping[]): { kept: KindleClipping[]; duplicates: number } {
+  const kept: KindleClipping[] = [];
+  let duplicates = 0;
+  for (const clipping of clippings) {
+    const idx = kept.findIndex(
+      (k) =>
+        k.kind === clipping.kind &&
+        (k.content === clipping.content ||
+          (clipping.kind === 'highlight'
+            ? rangesOverlap(k, clipping)
+            : k.locationEnd !== undefined && k.locationEnd === clipping.locationEnd))
+    );
+    if (idx >= 0) {
+      kept[idx] = clipping;
+      duplicates += 1;
+    } else {
+      kept.push(clipping);
+    }
+  }
+  return { kept, duplicates };
+}
+
+export function parseKindleClippings(text: string): KindleParseResult {
+  const byBook = new Map<string, KindleBookClippings>();
+  let skipped = 0;
+
+  for (const block of text.split(SEPARATOR)) {
+    const lines = block.split(/\r?\n/).map((l) => l.trim());
+    while (lines.length && !lines[0]) lines.shift();
+    if (lines.length < 2) continue;
+
+    const { title, author } = parseHeader(lines[0]);
+    const meta = parseMeta(lines[1]);
+    const content = lines.slice(2).join('\n').trim();
+    if (!meta.kind || !content) {
+      skipped += 1;
+      continue;
+    }
+
+    const key = `${title}\u0000${author}`;
+    if (!byBook.has(key)) byBook.set(key, { title, author, clippings: [] });
+    byBook.get(key)!.clippings.push({
+      title,
+      author,
+      kind: meta.kind,
+      content,
+      page: meta.page,
+      locationStart: meta.locationStart,
+      locationEnd: meta.locationEnd,
+      addedAt: meta.addedAt,
+    });
+  }
+
+  let highlights = 0;
+  let notes = 0;
+  let duplicates = 0;
+  const books: KindleBookClippings[] = [];
+  for (const book of byBook.values()) {
+    const result = dedupe(book.clippings);
+    duplicates += result.duplicates;
+    const kept = result.kept.map((c) => {
+      if (c.kind !== 'note') return c;
+      const attached = result.kept.find(
+        (h) => h.kind === 'highlight' && h.locationEnd !== undefined && h.locationEnd === c.locationEnd
+      );
+      return attached ? { ...c, highlight: attached.content } : c;
+    });
+    highlights += kept.filter((c) => c.kind === 'highlight').length;
+    notes += kept.filter((c) => c.kind === 'note').length;
+    books.push({ ...book, clippings: kept });
+  }
+
+  return { books, highlights, notes, duplicates, skipped };
+}
+
+export function kindleNoteType(clipping: KindleClipping): NoteType {
+  return clipping.kind === 'highlight' ? 'quote' : 'idea';
+}
+
+// "p. 12, Loc. 180-183" - keeps the page parseable by parseLocation
+export function kindleLocation(clipping: KindleClipping): string | undefined {
+  const parts: string[] = [];
+  if (clipping.page !== undefined) parts.push(`p. ${clipping.page}`);
+  if (clipping.locationStart !== undefined) {
+    parts.push(
+      clipping.locationEnd !== undefined && clipping.locationEnd !== clipping.locationStart
+        ? `Loc. ${clipping.locationStart}-${clipping.locationEnd}`
+        : `Loc. ${clipping.locationStart}`
+    );
+  }
+  return parts.length ? parts.join(', ') : undefined;
+}
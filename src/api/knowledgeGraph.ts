@@ -0,0 +1,164 @@
+import { Book, Collection, Folder, Note, NoteLink, NoteType } from '@/types';
+import { stripNoteLinks } from './noteLinks';
+import { stripCloze } from './cloze';
+
+// Graph of the library for the /graph page. Notes hang off their book; books and notes join
+// their folder, collections and tags. Shared tags show up as notes/books meeting at the same
+// tag node, which keeps the edge count linear instead of pairing every note with every other.
+
+export type GraphNodeKind = 'book' | 'note' | 'tag' | 'folder' | 'collection';
+export type GraphEdgeKind = 'book' | 'folder' | 'collection' | 'tag' | 'link';
+
+export interface GraphNode {
+  // "<kind>:<id>" (tags use the tag itself as id)
+  id: string;
+  kind: GraphNodeKind;
+  refId: string;
+  label: string;
+  noteType?: NoteType;
+  // Number of edges, used for sizing
+  degree: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface KnowledgeGraphFilters {
+  folderId?: string;
+  tag?: string;
+  collectionId?: string;
+  // Notes created inside the range (inclusive)
+  from?: Date;
+  to?: Date;
+  kinds: Record<GraphNodeKind, boolean>;
+}
+
+export const allGraphKinds: Record<GraphNodeKind, boolean> = {
+  book: true,
+  note: true,
+  tag: true,
+  folder: true,
+  collection: true,
+};
+
+const nodeId = (kind: GraphNodeKind, id: string) => `${kind}:${id}`;
+
+const excerpt = (text: string) => {
+  const flat = stripCloze(stripNoteLinks(text)).replace(/\s+/g, ' ').trim();
+  return flat.length > 48 ? `${flat.slice(0, 47)}…` : flat;
+};
+
+export function buildKnowledgeGraph(
+  data: { books: Book[]; notes: Note[]; folders: Folder[]; collections: Collection[]; links?: NoteLink[] },
+  filters: KnowledgeGraphFilters
+): KnowledgeGraph {
+  const bookMap = new Map(data.books.map((b) => [b.id, b]));
+  const { kinds } = filters;
+
+  // A note's folder is its own, else its book's
+  const folderOf = (note: Note) => note.folderId ?? bookMap.get(note.bookId)?.folderId;
+  const collectionNotes = filters.collectionId
+    ? new Set(data.collections.find((c) => c.id === filters.collectionId)?.noteIds ?? [])
+    : undefined;
+  const notes = data.notes.filter((note) => {
+    if (filters.folderId && folderOf(note) !== filters.folderId) return false;
+    if (collectionNotes && !collectionNotes.has(note.id)) return false;
+    if (filters.tag && !note.tags?.includes(filters.tag) && !bookMap.get(note.bookId)?.tags?.includes(filters.tag)) return false;
+    if (filters.from && note.createdAt < filters.from) return false;
+    if (filters.to && note.createdAt > filters.to) return false;
+    return true;
+  });
+  const noteBooks = new Set(notes.map((n) => n.bookId));
+  // Books stay when they still have matching notes, or match the filters themselves
+  // (a date range or a collection only applies to notes)
+  const bookMatches = (book: Book) =>
+    (!filters.folderId || book.folderId === filters.folderId) &&
+    (!filters.tag || !!book.tags?.includes(filters.tag)) &&
+    !filters.collectionId &&
+    !filters.from &&
+    !filters.to;
+  const books = data.books.filter((book) => noteBooks.has(book.id) || bookMatches(book));
+
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const addNode = (kind: GraphNodeKind, refId: string, label: string) => {
+    const id = nodeId(kind, refId);
+    if (!nodes.has(id)) nodes.set(id, { id, kind, refId, label, degree: 0 });
+    return id;
+  };
+  const connect = (source: string, target: string, kind: GraphEdgeKind) => {
+    edges.push({ source, target, kind });
+    nodes.get(source)!.degree += 1;
+    nodes.get(target)!.degree += 1;
+  };
+  const folderNames = new Map(data.folders.map((f) => [f.id, f.name]));
+
+  for (const book of books) {
+    const id = kinds.book ? addNode('book', book.id, book.title) : undefined;
+    if (!id) continue;
+    if (kinds.folder && book.folderId && folderNames.has(book.folderId)) {
+      connect(id, addNode('folder', book.folderId, folderNames.get(book.folderId)!), 'folder');
+    }
+    if (kinds.tag) {
+      for (const tag of book.tags ?? []) connect(id, addNode('tag', tag, `#${tag}`), 'tag');
+    }
+  }
+
+  if (kinds.note) {
+    for (const note of notes) {
+      const id = addNode('note', note.id, excerpt(note.content) || note.type);
+      nodes.get(id)!.noteType = note.type;
+      if (kinds.book && nodes.has(nodeId('book', note.bookId))) connect(id, nodeId('book', note.bookId), 'book');
+      // Only when it differs from the book's folder, which the book already shows
+      if (kinds.folder && note.folderId && note.folderId !== bookMap.get(note.bookId)?.folderId && folderNames.has(note.folderId)) {
+        connect(id, addNode('folder', note.folderId, folderNames.get(note.folderId)!), 'folder');
+      }
+      if (kinds.tag) {
+        for (const tag of note.tags ?? []) connect(id, addNode('tag', tag, `#${tag}`), 'tag');
+      }
+    }
+  }
+
+  if (kinds.collection) {
+    for (const collection of data.collections) {
+      const members = collection.noteIds.map((id) => nodeId('note', id)).filter((id) => nodes.has(id));
+      if (!members.length) continue;
+      const id = addNode('collection', collection.id, collection.name);
+      for (const member of members) connect(member, id, 'collection');
+    }
+  }
+
+  for (const link of data.links ?? []) {
+    const source = nodeId('note', link.sourceNoteId);
+    const target = link.targetNoteId ? nodeId('note', link.targetNoteId) : nodeId('book', link.targetBookId!);
+    if (nodes.has(source) && nodes.has(target)) connect(source, target, 'link');
+  }
+
+  return { nodes: [...nodes.values()], edges };
+}
+
+// Node colours, shared by the canvas and the legend. Notes use the same type colours as the
+// rest of the app.
+export const graphNodeColors: Record<Exclude<GraphNodeKind, 'note'>, string> & { note: Record<NoteType, string> } = {
+  book: '#e11d48',
+  folder: '#0f766e',
+  collection: '#c026d3',
+  tag: '#94a3b8',
+  note: {
+    quote: '#f59e0b',
+    idea: '#0ea5e9',
+    question: '#8b5cf6',
+    action: '#10b981',
+  },
+};
+
+export const graphNodeColor = (node: GraphNode) =>
+  node.kind === 'note' ? graphNodeColors.note[node.noteType ?? 'idea'] : graphNodeColors[node.kind];
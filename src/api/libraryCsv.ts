@@ -0,0 +1,195 @@
+import { BookFormat, ReadingStatus } from '@/types';
+
+// Goodreads ("Export Library") and StoryGraph ("Export StoryGraph Library") CSV parsing
+
+export type LibrarySource = 'goodreads' | 'storygraph';
+
+export interface LibraryImportRow {
+  line: number;
+  title: string;
+  author: string;
+  isbn?: string;
+  format: BookFormat;
+  status: ReadingStatus;
+  // null when the export has no date for it, so the book isn't dated to the import
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  rating?: number;
+  totalPages?: number;
+  tags: string[];
+}
+
+export interface LibraryParseResult {
+  source: LibrarySource;
+  rows: LibraryImportRow[];
+  unmapped: { line: number; title?: string; reason: string }[];
+}
+
+// RFC 4180-ish: quoted fields may contain commas, doubled quotes and newlines
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+const statusByShelf: Record<string, ReadingStatus> = {
+  'read': 'finished',
+  'currently-reading': 'reading',
+  'to-read': 'want_to_read',
+  'did-not-finish': 'abandoned',
+  'dnf': 'abandoned',
+  'abandoned': 'abandoned',
+};
+
+// Goodreads wraps ISBNs as ="0140449132"
+function cleanIsbn(value?: string): string | undefined {
+  const digits = (value ?? '').replace(/[^0-9X]/gi, '').toUpperCase();
+  return /^(\d{13}|\d{9}[\dX])$/.test(digits) ? digits : undefined;
+}
+
+// Both exports use YYYY/MM/DD
+function parseDate(value?: string): Date | null {
+  const match = (value ?? '').trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function parseRating(value?: string): number | undefined {
+  const rating = parseFloat(value ?? '');
+  return rating > 0 && rating <= 5 ? rating : undefined;
+}
+
+function splitList(value?: string): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function goodreadsFormat(binding?: string): BookFormat {
+  const b = (binding ?? '').toLowerCase();
+  if (b.includes('audio')) return 'audiobook';
+  if (b.includes('kindle') || b.includes('ebook') || b.includes('digital')) return 'ebook';
+  return 'physical';
+}
+
+function storygraphFormat(format?: string): BookFormat {
+  const f = (format ?? '').toLowerCase();
+  if (f.includes('audio')) return 'audiobook';
+  if (f.includes('digital')) return 'ebook';
+  return 'physical';
+}
+
+export function detectLibrarySource(header: string[]): LibrarySource | null {
+  const cols = header.map((h) => h.trim().toLowerCase());
+  if (cols.includes('exclusive shelf') && cols.includes('my rating')) return 'goodreads';
+  if (cols.includes('read status') && cols.includes('star rating')) return 'storygraph';
+  return null;
+}
+
+export function parseLibraryCSV(text: string): LibraryParseResult | null {
+  const [header, ...records] = parseCSV(text);
+  if (!header) return null;
+  const source = detectLibrarySource(header);
+  if (!source) return null;
+
+  const index = new Map(header.map((h, i) => [h.trim().toLowerCase(), i]));
+  const rows: LibraryImportRow[] = [];
+  const unmapped: LibraryParseResult['unmapped'] = [];
+
+  records.forEach((record, i) => {
+    const line = i + 2; // 1-based, after the header
+    const get = (col: string) => {
+      const idx = index.get(col);
+      return idx === undefined ? undefined : record[idx]?.trim() || undefined;
+    };
+
+    const title = get('title');
+    const author = source === 'goodreads' ? get('author') : get('authors');
+    if (!title) {
+      unmapped.push({ line, reason: 'Missing title' });
+      return;
+    }
+    if (!author) {
+      unmapped.push({ line, title, reason: 'Missing author' });
+      return;
+    }
+
+    const shelf = (source === 'goodreads' ? get('exclusive shelf') : get('read status'))?.toLowerCase();
+    const status = shelf ? statusByShelf[shelf] : undefined;
+    if (shelf && !status) {
+      unmapped.push({ line, title, reason: `Unknown shelf "${shelf}"` });
+      return;
+    }
+
+    if (source === 'goodreads') {
+      const exclusive = new Set(Object.keys(statusByShelf));
+      const pages = parseInt(get('number of pages') ?? '', 10);
+      rows.push({
+        line,
+        title,
+        author,
+        isbn: cleanIsbn(get('isbn13')) ?? cleanIsbn(get('isbn')),
+        format: goodreadsFormat(get('binding')),
+        status: status ?? 'want_to_read',
+        startedAt: null,
+        finishedAt: status === 'finished' ? parseDate(get('date read')) : null,
+        rating: parseRating(get('my rating')),
+        totalPages: pages > 0 ? pages : undefined,
+        tags: splitList(get('bookshelves')).filter((s) => !exclusive.has(s.toLowerCase())),
+      });
+    } else {
+      // "Dates Read" holds "start-end" ranges separated by commas; the last one is the latest read
+      const lastRange = splitList(get('dates read')).pop();
+      const [start, end] = lastRange ? lastRange.split('-') : [];
+      rows.push({
+        line,
+        title,
+        author,
+        isbn: cleanIsbn(get('isbn/uid')),
+        format: storygraphFormat(get('format')),
+        status: status ?? 'want_to_read',
+        startedAt: parseDate(start),
+        finishedAt: status === 'finished' ? parseDate(end) ?? parseDate(get('last date read')) : null,
+        rating: parseRating(get('star rating')),
+        tags: splitList(get('tags')),
+      });
+    }
+  });
+
+  return { source, rows, unmapped };
+}
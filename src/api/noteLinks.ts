@@ -0,0 +1,157 @@
+import { supabase, requireUserId } from './client';
+import { DbNoteLink } from './types';
+import { Book, Note, NoteLink } from '@/types';
+
+// Links between notes, written inline in content/context:
+//
+//   [[note:<uuid>|label]]   another note (label is an excerpt of it)
+//   [[book:<uuid>|title]]   a book
+//
+// The pickers insert the id form directly; a bare [[Book title]] or [[start of a note]] typed by
+// hand is resolved to it on save. A trigger mirrors the links into note_links (backlinks) and
+// rewrites labels when the target is renamed, or unlinks them when it is deleted.
+
+export type NoteLinkKind = 'note' | 'book';
+
+export type NoteTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link'; kind: NoteLinkKind; id: string; label: string };
+
+const LINK_PATTERN = /\[\[(note|book):([0-9a-fA-F-]{36})\|([^\]]*)\]\]/g;
+const BARE_LINK_PATTERN = /\[\[(?!(?:note|book):)([^\]|\n]+)(?:\|([^\]\n]*))?\]\]/g;
+const LABEL_LENGTH = 60;
+
+const clean = (text: string) => text.replace(/[[\]|]/g, '').replace(/\s+/g, ' ').trim();
+
+// Mirrors public.note_link_label: the note's own text (links removed), cut to 60 characters
+export function noteLinkLabel(content: string): string {
+  const text = clean((content ?? '').replace(/\[\[[^\]]*\]\]/g, ''));
+  const label = text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1).trimEnd()}…` : text;
+  return label || 'note';
+}
+
+export const bookLinkLabel = (title: string) => clean(title) || 'book';
+
+export const formatNoteLink = (kind: NoteLinkKind, id: string, label: string) => `[[${kind}:${id}|${clean(label)}]]`;
+
+export function parseNoteText(text: string): NoteTextSegment[] {
+  const segments: NoteTextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    if (match.index! > last) segments.push({ type: 'text', text: text.slice(last, match.index) });
+    segments.push({ type: 'link', kind: match[1] as NoteLinkKind, id: match[2].toLowerCase(), label: match[3] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+export const replaceNoteLinks = (text: string, replace: (kind: NoteLinkKind, id: string, label: string) => string) =>
+  text.replace(LINK_PATTERN, (_, kind: NoteLinkKind, id: string, label: string) => replace(kind, id.toLowerCase(), label));
+
+// Links replaced by their labels, for exports and other plain-text uses
+export const stripNoteLinks = (text: string) => replaceNoteLinks(text, (_kind, _id, label) => label);
+
+// Bare [[...]] links turned into id links: a book by exact title, else the one note whose text
+// starts with it. Anything ambiguous or unknown stays as typed.
+export function resolveNoteLinks(text: string, lookups: { notes: Note[]; books: Book[]; selfId?: string }): string {
+  return text.replace(BARE_LINK_PATTERN, (whole, target: string, alias?: string) => {
+    const name = target.trim().toLowerCase();
+    const books = lookups.books.filter((b) => b.title.trim().toLowerCase() === name);
+    if (books.length === 1) return formatNoteLink('book', books[0].id, alias?.trim() || books[0].title);
+    const notes = lookups.notes.filter(
+      (n) => n.id !== lookups.selfId && stripNoteLinks(n.content).trim().toLowerCase().startsWith(name)
+    );
+    if (notes.length === 1) return formatNoteLink('note', notes[0].id, noteLinkLabel(notes[0].content));
+    return whole;
+  });
+}
+
+export interface NoteLinkSuggestion {
+  kind: NoteLinkKind;
+  id: string;
+  label: string;
+  hint?: string;
+  // Replaces text[from, to)
+  insert: string;
+  from: number;
+  to: number;
+}
+
+// Completions for an unclosed "[[" before the caret, books first then notes
+export function suggestNoteLinks(
+  text: string,
+  caret: number,
+  lookups: { notes: Note[]; books: Book[]; selfId?: string },
+  limit = 8
+): NoteLinkSuggestion[] {
+  const open = text.slice(0, caret).match(/\[\[([^[\]\n]*)$/);
+  if (!open) return [];
+  const query = open[1].trim().toLowerCase();
+  const from = caret - open[0].length;
+  const to = text.slice(caret, caret + 2) === ']]' ? caret + 2 : caret;
+  const bookTitles = new Map(lookups.books.map((b) => [b.id, b.title]));
+  const rank = (value: string) => {
+    const v = value.toLowerCase();
+    return !query || v.startsWith(query) ? 0 : v.includes(query) ? 1 : -1;
+  };
+
+  const books = lookups.books
+    .map((b) => ({ book: b, score: rank(b.title) }))
+    .filter((b) => b.score >= 0)
+    .sort((a, b) => a.score - b.score)
+    .map(({ book }) => ({
+      kind: 'book' as const,
+      id: book.id,
+      label: book.title,
+      hint: book.author,
+      insert: formatNoteLink('book', book.id, bookLinkLabel(book.title)),
+      from,
+      to,
+    }));
+  const notes = query
+    ? lookups.notes
+        .filter((n) => n.id !== lookups.selfId)
+        .map((n) => ({ note: n, score: rank(stripNoteLinks(n.content)) }))
+        .filter((n) => n.score >= 0)
+        .sort((a, b) => a.score - b.score)
+        .map(({ note }) => ({
+          kind: 'note' as const,
+          id: note.id,
+          label: noteLinkLabel(note.content),
+          hint: bookTitles.get(note.bookId),
+          insert: formatNoteLink('note', note.id, noteLinkLabel(note.content)),
+          from,
+          to,
+        }))
+    : [];
+  // Leave room for notes when plenty of books match
+  const bookCount = Math.min(books.length, notes.length ? Math.ceil(limit / 2) : limit);
+  return [...books.slice(0, bookCount), ...notes].slice(0, limit);
+}
+
+// Link ids in a note written elsewhere (a backup) point at that library's notes/books
+export function remapNoteLinks(text: string, ids: { note: Map<string, string>; book: Map<string, string> }): string {
+  return replaceNoteLinks(text, (kind, id, label) => formatNoteLink(kind, ids[kind].get(id) ?? id, label));
+}
+
+function mapNoteLink(row: DbNoteLink): NoteLink {
+  return {
+    id: row.id,
+    sourceNoteId: row.source_note_id,
+    targetNoteId: row.target_note_id ?? undefined,
+    targetBookId: row.target_book_id ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export async function fetchNoteLinks(): Promise<NoteLink[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('note_links')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as DbNoteLink[]).map(mapNoteLink);
+}
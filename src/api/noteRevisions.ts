@@ -0,0 +1,70 @@
+import { supabase, requireUserId } from './client';
+import { DbNote, DbNoteRevision } from './types';
+import { mapNote } from './notes';
+import { Note, NoteRevision } from '@/types';
+
+// Earlier versions of a note, recorded by a trigger on every edit (newest first)
+
+function mapNoteRevision(row: DbNoteRevision): NoteRevision {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    type: row.type,
+    content: row.content,
+    context: row.context ?? undefined,
+    chapter: row.chapter ?? undefined,
+    location: row.location ?? undefined,
+    tags: row.tags ?? undefined,
+    extractedText: row.extracted_text ?? undefined,
+    transcript: row.transcript ?? undefined,
+    aiSummary: row.ai_summary ?? undefined,
+    aiExpanded: row.ai_expanded ?? undefined,
+    aiFlashcard: row.ai_flashcard ?? undefined,
+    versionAt: new Date(row.version_at),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export async function fetchNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('note_revisions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as DbNoteRevision[]).map(mapNoteRevision);
+}
+
+// The current text is kept as a revision too, so restoring can be undone
+export async function restoreNoteRevision(revisionId: string): Promise<Note> {
+  const { data, error } = await supabase.rpc('restore_note_revision', { p_revision_id: revisionId });
+  if (error) throw error;
+  return mapNote(data as DbNote);
+}
+
+export type NoteRevisionField = 'type' | 'content' | 'context' | 'chapter' | 'location' | 'tags' | 'ai';
+
+// The parts of a note a revision keeps; both Note and NoteRevision fit
+type NoteVersion = Pick<
+  NoteRevision,
+  'type' | 'content' | 'context' | 'chapter' | 'location' | 'tags' | 'aiSummary' | 'aiExpanded' | 'aiFlashcard'
+>;
+
+const versionFields = (v: NoteVersion): Record<NoteRevisionField, string> => ({
+  type: v.type,
+  content: v.content,
+  context: v.context ?? '',
+  chapter: v.chapter ?? '',
+  location: v.location ?? '',
+  tags: (v.tags ?? []).join('\n'),
+  ai: JSON.stringify([v.aiSummary ?? '', v.aiExpanded ?? '', v.aiFlashcard ?? null]),
+});
+
+// Which parts differ between two versions, for the history timeline
+export function changedNoteFields(from: NoteVersion, to: NoteVersion): NoteRevisionField[] {
+  const a = versionFields(from);
+  const b = versionFields(to);
+  return (Object.keys(a) as NoteRevisionField[]).filter((key) => a[key] !== b[key]);
+}
@@ -0,0 +1,62 @@
+import { Collection, Note, NoteScope, SavedFilter } from '@/types';
+import { noteMatchesSavedFilter } from './savedFilters';
+
+// Scopes pick a slice of the library for review decks and Anki exports. The server resolves
+// the same scopes for review sessions (public.review_scope_notes), where the kind is snake_case
+// and the book/collection/saved filter id or the tag travels as one text value.
+
+type DbScopeKind = 'all' | 'book' | 'tag' | 'collection' | 'saved_filter';
+
+export function selectNotesForScope(
+  notes: Note[],
+  scope: NoteScope,
+  lookups: { collections?: Collection[]; savedFilters?: SavedFilter[] } = {}
+): Note[] {
+  switch (scope.kind) {
+    case 'all':
+      return notes;
+    case 'book':
+      return notes.filter((n) => n.bookId === scope.id);
+    case 'tag':
+      return notes.filter((n) => n.tags?.includes(scope.tag));
+    case 'collection': {
+      const ids = new Set(lookups.collections?.find((c) => c.id === scope.id)?.noteIds ?? []);
+      return notes.filter((n) => ids.has(n.id));
+    }
+    case 'savedFilter': {
+      const filter = lookups.savedFilters?.find((f) => f.id === scope.id);
+      return filter ? notes.filter((n) => noteMatchesSavedFilter(n, filter)) : [];
+    }
+  }
+}
+
+export function scopeToDb(scope: NoteScope): { kind: DbScopeKind; value: string | null } {
+  switch (scope.kind) {
+    case 'all':
+      return { kind: 'all', value: null };
+    case 'tag':
+      return { kind: 'tag', value: scope.tag };
+    case 'savedFilter':
+      return { kind: 'saved_filter', value: scope.id };
+    default:
+      return { kind: scope.kind, value: scope.id };
+  }
+}
+
+export function scopeFromDb(kind: string | null, value: string | null): NoteScope {
+  if (!value) return { kind: 'all' };
+  switch (kind) {
+    case 'book':
+    case 'collection':
+      return { kind, id: value };
+    case 'tag':
+      return { kind: 'tag', tag: value };
+    case 'saved_filter':
+      return { kind: 'savedFilter', id: value };
+    default:
+      return { kind: 'all' };
+  }
+}
+
+export const sameScope = (a: NoteScope, b: NoteScope) =>
+  scopeToDb(a).kind === scopeToDb(b).kind && scopeToDb(a).value === scopeToDb(b).value;
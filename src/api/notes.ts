@@ -1,8 +1,38 @@
 import { supabase, requireUserId } from './client';
 import { DbNote } from './types';
-import { Note } from '@/types';
+import { PatchColumns, UpdateConflictError, applyPatch, matchingVersion, patchRow } from './patch';
+import { uploadNoteAudio, uploadNoteImage } from './storage';
+import { ClozeReviewState, Note, NoteUpdate, ReviewGrade } from '@/types';
 
-function mapNote(row: DbNote): Note {
+export type NewNote = Omit<Note, 'id' | 'createdAt' | 'updatedAt' | 'reviewCount'> & { id?: string; createdAt?: Date };
+
+// A note as captured, possibly offline: media still local, id chosen on the device so the note
+// can be shown and edited before it reaches the server
+export type NoteCapture = NewNote & { imageFile?: File; audioFile?: File };
+
+// A capture or edit waiting in the sync queue, or a capture that gave up (see failed captures
+// in src/api/offline.ts)
+export type PendingNoteChange =
+  | { kind: 'create'; capture: NoteCapture; failed?: boolean }
+  | { kind: 'update'; note: Note; updates: NoteUpdate };
+
+function mapClozeStates(states: NonNullable<DbNote['review_clozes']>): Record<number, ClozeReviewState> {
+  return Object.fromEntries(
+    Object.entries(states).map(([cloze, s]) => [
+      Number(cloze),
+      {
+        stability: s.stability,
+        difficulty: s.difficulty,
+        lapses: s.lapses ?? 0,
+        reviewCount: s.review_count ?? 0,
+        lastReviewedAt: new Date(s.last_reviewed_at),
+        nextReviewAt: new Date(s.next_review_at),
+      },
+    ])
+  );
+}
+
+export function mapNote(row: DbNote): Note {
   return {
     id: row.id,
     bookId: row.book_id,
@@ -26,9 +56,14 @@ function mapNote(row: DbNote): Note {
     reviewCount: row.review_count ?? 0,
     lastReviewedAt: row.last_reviewed_at ? new Date(row.last_reviewed_at) : undefined,
     nextReviewAt: row.next_review_at ? new Date(row.next_review_at) : undefined,
+    reviewStability: row.review_stability ?? undefined,
+    reviewDifficulty: row.review_difficulty ?? undefined,
+    reviewLapses: row.review_lapses ?? 0,
+    reviewClozes: row.review_clozes ? mapClozeStates(row.review_clozes) : undefined,
     folderId: row.folder_id ?? undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
+    deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
   };
 }
 
@@ -38,6 +73,7 @@ export async function fetchNotes(): Promise<Note[]> {
     .from('notes')
     .select('*')
     .eq('user_id', userId)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
   if (error) throw error;
   return (data as DbNote[]).map(mapNote);
@@ -50,16 +86,19 @@ export async function fetchNotesForBook(bookId: string): Promise<Note[]> {
     .select('*')
     .eq('user_id', userId)
     .eq('book_id', bookId)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
   if (error) throw error;
   return (data as DbNote[]).map(mapNote);
 }
 
-export async function createNote(input: Omit<Note, 'id' | 'createdAt' | 'updatedAt' | 'reviewCount'>): Promise<Note> {
+export async function createNote(input: NewNote): Promise<Note> {
   const userId = await requireUserId();
-  const { data, error } = await supabase
+  const { data, error, status } = await supabase
     .from('notes')
     .insert({
+      // Client-chosen for captures; otherwise the column default
+      id: input.id,
       user_id: userId,
       book_id: input.bookId,
       type: input.type,
@@ -83,49 +122,130 @@ export async function createNote(input: Omit<Note, 'id' | 'createdAt' | 'updated
       review_count: input.reviewCount ?? 0,
       last_reviewed_at: input.lastReviewedAt ? input.lastReviewedAt.toISOString() : null,
       next_review_at: input.nextReviewAt ? input.nextReviewAt.toISOString() : null,
+      // Imports keep the original capture date; otherwise the column default (now) applies
+      created_at: input.createdAt ? input.createdAt.toISOString() : undefined,
     })
     .select('*')
     .single();
-  if (error) throw error;
+  if (error) throw Object.assign(error, { status });
   return mapNote(data as DbNote);
 }
 
-export async function updateNote(id: string, updates: Partial<Note>): Promise<Note> {
-  const { data, error } = await supabase
-    .from('notes')
-    .update({
-      type: updates.type,
-      media_type: updates.mediaType,
-      content: updates.content,
-      image_url: updates.imageUrl ?? null,
-      extracted_text: updates.extractedText ?? null,
-      audio_url: updates.audioUrl ?? null,
-      audio_duration: updates.audioDuration ?? null,
-      transcript: (updates as any).transcript ?? null,
-      location: updates.location ?? null,
-      timestamp: updates.timestamp ?? null,
-      chapter: updates.chapter ?? null,
-      context: updates.context ?? null,
-      tags: updates.tags ?? null,
-      ai_summary: updates.aiSummary ?? null,
-      ai_expanded: updates.aiExpanded ?? null,
-      ai_flashcard: updates.aiFlashcard ?? null,
-      is_private: updates.isPrivate,
-      folder_id: updates.folderId ?? null,
-      review_count: updates.reviewCount,
-      last_reviewed_at: updates.lastReviewedAt ? updates.lastReviewedAt.toISOString() : null,
-      next_review_at: updates.nextReviewAt ? updates.nextReviewAt.toISOString() : null,
-    })
-    .eq('id', id)
-    .select('*')
-    .single();
-  if (error) throw error;
+const noteColumns: PatchColumns<NoteUpdate> = {
+  type: 'type',
+  mediaType: 'media_type',
+  content: 'content',
+  imageUrl: 'image_url',
+  extractedText: 'extracted_text',
+  audioUrl: 'audio_url',
+  audioDuration: 'audio_duration',
+  transcript: 'transcript',
+  location: 'location',
+  timestamp: 'timestamp',
+  chapter: 'chapter',
+  context: 'context',
+  tags: 'tags',
+  folderId: 'folder_id',
+  aiSummary: 'ai_summary',
+  aiExpanded: 'ai_expanded',
+  aiFlashcard: 'ai_flashcard',
+  reviewCount: 'review_count',
+  lastReviewedAt: 'last_reviewed_at',
+  nextReviewAt: 'next_review_at',
+  isPrivate: 'is_private',
+};
+
+// Writes only the fields present in `updates` (null clears one). With `expectedUpdatedAt` the
+// write only happens if the note is still at that version; otherwise UpdateConflictError.
+export async function updateNote(id: string, updates: NoteUpdate, expectedUpdatedAt?: Date): Promise<Note> {
+  let query = supabase.from('notes').update(patchRow(updates, noteColumns)).eq('id', id);
+  if (expectedUpdatedAt) query = matchingVersion(query, expectedUpdatedAt);
+  const { data, error, status } = await query.select('*').maybeSingle();
+  if (error) throw Object.assign(error, { status });
+  if (!data) throw new UpdateConflictError('note');
   return mapNote(data as DbNote);
 }
 
-export async function deleteNote(id: string): Promise<void> {
-  const { error } = await supabase.from('notes').delete().eq('id', id);
+// Uploads the capture's local media, then creates the note. Each upload is written back onto
+// the capture (URL in, file out), so a retry or a replay after reload reuses it instead of
+// uploading the file again.
+export async function createNoteWithMedia(capture: NoteCapture): Promise<Note> {
+  if (capture.imageFile) {
+    const uploaded = await uploadNoteImage(capture.imageFile);
+    capture.imageUrl = uploaded.publicUrl ?? uploaded.path;
+    delete capture.imageFile;
+  }
+  if (capture.audioFile) {
+    // Private bucket: keep the path and sign it when played
+    const uploaded = await uploadNoteAudio(capture.audioFile);
+    capture.audioUrl = uploaded.path;
+    delete capture.audioFile;
+  }
+  const { imageFile, audioFile, ...note } = capture;
+  return createNote(note);
+}
+
+// Local previews for media that hasn't been uploaded yet, one per file
+const previewUrls = new WeakMap<Blob, string>();
+const previewUrl = (file: Blob) => {
+  if (!previewUrls.has(file)) previewUrls.set(file, URL.createObjectURL(file));
+  return previewUrls.get(file)!;
+};
+
+// The server's notes with queued captures and edits applied on top, flagged pendingSync.
+// Captures for other books are left out when `bookId` is given.
+export function withPendingChanges(notes: Note[] | undefined, pending: PendingNoteChange[], bookId?: string): Note[] | undefined {
+  if (!notes || !pending.length) return notes;
+  const byId = new Map(notes.map((n) => [n.id, n]));
+  const created: Note[] = [];
+  for (const change of pending) {
+    if (change.kind === 'create') {
+      const { imageFile, audioFile, ...capture } = change.capture;
+      if (!capture.id || byId.has(capture.id) || (bookId && capture.bookId !== bookId)) continue;
+      const note: Note = {
+        ...capture,
+        id: capture.id,
+        imageUrl: imageFile ? previewUrl(imageFile) : capture.imageUrl,
+        audioUrl: audioFile ? previewUrl(audioFile) : capture.audioUrl,
+        reviewCount: 0,
+        createdAt: capture.createdAt ?? new Date(),
+        // Never seen by the server; see expectedVersion in hooks.ts
+        updatedAt: new Date(0),
+        pendingSync: true,
+        syncFailed: change.failed,
+      };
+      byId.set(note.id, note);
+      created.push(note);
+    } else {
+      const current = byId.get(change.note.id);
+      if (current) byId.set(current.id, { ...applyPatch(current, change.updates), pendingSync: true });
+    }
+  }
+  return [...created.reverse(), ...notes].map((n) => byId.get(n.id) ?? n);
+}
+
+export interface NoteSearchHit {
+  noteId: string;
+  rank: number;
+  // Matching fragments with hits wrapped in <mark></mark>
+  headline: string;
+}
+
+// Full-text search over content, context, tags, chapter, OCR text and transcripts (search_notes
+// RPC), best match first; `offset` skips that many hits for the next page
+export async function searchNotes(query: string, bookId?: string, limit = 50, offset = 0): Promise<NoteSearchHit[]> {
+  const { data, error } = await supabase.rpc('search_notes', {
+    p_query: query,
+    p_book_id: bookId ?? null,
+    p_limit: limit,
+    p_offset: offset,
+  });
   if (error) throw error;
+  return ((data ?? []) as { note_id: string; rank: number; headline: string }[]).map((row) => ({
+    noteId: row.note_id,
+    rank: row.rank,
+    headline: row.headline,
+  }));
 }
 
 export async function searchNotesClient(notes: Note[], query: string): Promise<Note[]> {
@@ -157,8 +277,20 @@ export async function getNotesForReview(notes: Note[], limit = 10): Promise<Note
     .slice(0, limit);
 }
 
-export async function markNoteReviewed(id: string): Promise<Note> {
-  const { data, error } = await supabase.rpc('note_mark_reviewed', { p_note_id: id });
+// Scheduled server-side (FSRS) so every client agrees on when the note is due again
+// `cloze` grades one cloze of a {{c1::...}} note instead of the whole note
+export async function markNoteReviewed(
+  id: string,
+  grade: ReviewGrade,
+  responseMs?: number,
+  cloze?: number
+): Promise<Note> {
+  const { data, error } = await supabase.rpc('note_mark_reviewed', {
+    p_note_id: id,
+    p_grade: grade,
+    p_response_ms: responseMs ?? null,
+    p_cloze: cloze ?? null,
+  });
   if (error) throw error;
   return mapNote(data as DbNote);
 }
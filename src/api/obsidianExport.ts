@@ -0,0 +1,148 @@
+import JSZip from 'jszip';
+import { Book, Folder, Note, NoteType } from '@/types';
+import { replaceNoteLinks } from './noteLinks';
+
+// Obsidian vault export: one Markdown file per book with YAML frontmatter, every note as a
+// callout carrying a block id (^<note id>), and images saved under attachments/. File names,
+// block ids and attachment names derive from the data alone, so re-exporting into the same
+// vault overwrites files in place instead of breaking [[links]].
+
+const ROOT = 'Marginalia';
+const ATTACHMENTS = 'attachments';
+
+const callouts: Record<NoteType, { callout: string; label: string }> = {
+  quote: { callout: 'quote', label: 'Quote' },
+  idea: { callout: 'tip', label: 'Idea' },
+  question: { callout: 'question', label: 'Question' },
+  action: { callout: 'todo', label: 'Action' },
+};
+
+const imageExtensions: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// Characters Obsidian won't accept in file names or wikilinks
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim() || 'Untitled';
+}
+
+// Obsidian tags can't contain spaces
+function tagName(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+// Double-quoted JSON strings are valid YAML scalars
+const yaml = (value: string) => JSON.stringify(value);
+
+function frontmatter(book: Book, folder?: Folder): string {
+  const lines = ['---', `title: ${yaml(book.title)}`, `author: ${yaml(book.author)}`];
+  if (book.isbn) lines.push(`isbn: ${yaml(book.isbn)}`);
+  lines.push(`format: ${book.format}`);
+  if (book.status) lines.push(`status: ${book.status}`);
+  if (book.rating !== undefined) lines.push(`rating: ${book.rating}`);
+  const tags = (book.tags ?? []).map(tagName).filter(Boolean);
+  lines.push(tags.length ? `tags:\n${tags.map((t) => `  - ${yaml(t)}`).join('\n')}` : 'tags: []');
+  if (folder) lines.push(`folder: ${yaml(folder.name)}`);
+  lines.push(`marginalia_id: ${book.id}`, '---');
+  return lines.join('\n');
+}
+
+// Book files are named by title; titles shared by several books get the author appended
+function bookFileNames(books: Book[]): Map<string, string> {
+  const byTitle = new Map<string, Book[]>();
+  for (const book of [...books].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    const key = safeFileName(book.title).toLowerCase();
+    byTitle.set(key, [...(byTitle.get(key) ?? []), book]);
+  }
+  const names = new Map<string, string>();
+  for (const group of byTitle.values()) {
+    const used = new Set<string>();
+    group.forEach((book, i) => {
+      const base = safeFileName(book.title);
+      let name = group.length > 1 ? `${base} (${safeFileName(book.author)})` : base;
+      if (used.has(name)) name = `${name} ${i + 1}`;
+      used.add(name);
+      names.set(book.id, name);
+    });
+  }
+  return names;
+}
+
+async function fetchImage(url: string): Promise<{ data: Blob; ext: string } | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const data = await response.blob();
+    const ext = imageExtensions[data.type] ?? url.split('?')[0].split('.').pop()?.toLowerCase() ?? 'jpg';
+    return { data, ext };
+  } catch {
+    return null;
+  }
+}
+
+function noteBlock(note: Note, links: (text: string) => string, image?: string): string {
+  const { callout, label } = callouts[note.type];
+  const heading = [label, note.chapter, note.location ?? note.timestamp].filter(Boolean).join(' · ');
+  const body: string[] = [...links(note.content).split('\n')];
+  if (note.transcript && note.transcript !== note.content) body.push('', `*Transcript:* ${note.transcript}`);
+  if (note.context) body.push('', ...links(note.context).split('\n').map((line) => `> ${line}`));
+  if (image) body.push('', image);
+  const tags = (note.tags ?? []).map(tagName).filter(Boolean);
+  if (tags.length) body.push('', tags.map((t) => `#${t}`).join(' '));
+
+  return [
+    `> [!${callout}] ${heading}`,
+    ...body.map((line) => (line ? `> ${line}` : '>')),
+    '',
+    `^${note.id}`,
+  ].join('\n');
+}
+
+export async function exportNotesToObsidian(notes: Note[], books: Book[], folders: Folder[] = []): Promise<Blob> {
+  const zip = new JSZip();
+  const folderMap = new Map(folders.map((f) => [f.id, f]));
+  const names = bookFileNames(books);
+  const exportedNotes = new Map(notes.map((n) => [n.id, n]));
+  const exportedBooks = new Set(notes.map((n) => n.bookId));
+  // Marginalia [[links]] become wikilinks to the book file or the note's block; targets left
+  // out of the export keep just their label
+  const links = (text: string) =>
+    replaceNoteLinks(text, (kind, id, label) => {
+      const bookId = kind === 'book' ? id : exportedNotes.get(id)?.bookId;
+      const file = bookId && exportedBooks.has(bookId) ? names.get(bookId) : undefined;
+      if (!file) return label;
+      return kind === 'book' ? `[[${file}|${label}]]` : `[[${file}#^${id}|${label}]]`;
+    });
+
+  for (const book of books) {
+    const bookNotes = notes
+      .filter((n) => n.bookId === book.id)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    if (!bookNotes.length) continue;
+
+    const blocks: string[] = [];
+    for (const note of bookNotes) {
+      let image: string | undefined;
+      if (note.imageUrl) {
+        const fetched = await fetchImage(note.imageUrl);
+        if (fetched) {
+          const file = `${ATTACHMENTS}/${note.id}.${fetched.ext}`;
+          zip.file(`${ROOT}/${file}`, fetched.data);
+          image = `![[${file}]]`;
+        } else if (!note.imageUrl.startsWith('data:')) {
+          image = `![](${note.imageUrl})`;
+        }
+      }
+      blocks.push(noteBlock(note, links, image));
+    }
+
+    const folder = book.folderId ? folderMap.get(book.folderId) : undefined;
+    const content = [frontmatter(book, folder), '', `# ${book.title}`, `*by ${book.author}*`, '', blocks.join('\n\n'), ''];
+    zip.file(`${ROOT}/${names.get(book.id)}.md`, content.join('\n'));
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
@@ -0,0 +1,70 @@
+import type { PersistedClient, Persister, PersistQueryClientOptions } from '@tanstack/react-query-persist-client';
+import { idbDelete, idbGet, idbSet } from '@/lib/idbStore';
+import type { NoteCapture } from './notes';
+
+// Books and notes (queries marked meta.persist) and the queue of note captures/edits that
+// couldn't be sent yet are kept in IndexedDB, so the library opens offline and nothing captured
+// on the way is lost when the tab closes. Queued mutations are replayed in order on start-up and
+// whenever the connection comes back (see registerNoteSync in hooks.ts). A capture that still
+// fails after its retries is moved to a separate list of failed captures, shown on its note
+// until the user retries or discards it.
+
+const CACHE_KEY = 'query-cache';
+const FAILED_CAPTURES_KEY = 'failed-captures';
+const WRITE_DELAY_MS = 1000;
+
+let pending: PersistedClient | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// The cache changes on every fetch; write at most once a second
+const queryPersister: Persister = {
+  persistClient: (client) => {
+    pending = client;
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      const latest = pending;
+      pending = null;
+      if (latest) idbSet(CACHE_KEY, latest).catch((err) => console.error('Failed to persist cache', err));
+    }, WRITE_DELAY_MS);
+  },
+  restoreClient: () => idbGet<PersistedClient>(CACHE_KEY),
+  removeClient: async () => {
+    pending = null;
+    await idbDelete(CACHE_KEY);
+  },
+};
+
+export const persistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: queryPersister,
+  maxAge: 1000 * 60 * 60 * 24 * 7,
+  buster: '1',
+  dehydrateOptions: {
+    shouldDehydrateQuery: (query) => query.state.status === 'success' && query.meta?.persist === true,
+  },
+};
+
+export interface FailedCapture {
+  capture: NoteCapture;
+  error: string;
+  failedAt: Date;
+}
+
+export async function fetchFailedCaptures(): Promise<FailedCapture[]> {
+  return (await idbGet<FailedCapture[]>(FAILED_CAPTURES_KEY)) ?? [];
+}
+
+export async function saveFailedCapture(capture: NoteCapture, error: Error): Promise<void> {
+  const failed = (await fetchFailedCaptures()).filter((f) => f.capture.id !== capture.id);
+  await idbSet(FAILED_CAPTURES_KEY, [...failed, { capture, error: error.message, failedAt: new Date() }]);
+}
+
+export async function removeFailedCapture(id: string): Promise<void> {
+  const failed = await fetchFailedCaptures();
+  await idbSet(FAILED_CAPTURES_KEY, failed.filter((f) => f.capture.id !== id));
+}
+
+// Signing out must not leave the library (or unsent captures) on the device
+export async function clearPersistedCache(): Promise<void> {
+  await Promise.all([queryPersister.removeClient(), idbDelete(FAILED_CAPTURES_KEY)]);
+}
@@ -0,0 +1,47 @@
+import { Patch } from '@/types';
+
+// Maps each patchable field to its column
+export type PatchColumns<T> = { [K in keyof T]-?: string };
+
+// Thrown when an update is made against a version of a row that has since changed (or gone),
+// e.g. edited on another device. Nothing was written.
+export class UpdateConflictError extends Error {
+  constructor(what: string) {
+    super(`This ${what} was changed somewhere else. The latest version has been loaded, so try again.`);
+    this.name = 'UpdateConflictError';
+  }
+}
+
+// Row for .update(): only keys present in the patch, null clears the column
+export function patchRow<T>(patch: Patch<T>, columns: PatchColumns<T>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const key of Object.keys(patch) as (keyof T)[]) {
+    const value = patch[key];
+    if (value === undefined || !(key in columns)) continue;
+    row[columns[key]] = value instanceof Date ? value.toISOString() : value;
+  }
+  return row;
+}
+
+// The patch applied to a cached object (null clears the field), for optimistic updates
+export function applyPatch<T extends object>(item: T, patch: Patch<Partial<T>>): T {
+  const next = { ...item };
+  for (const key of Object.keys(patch) as (keyof T)[]) {
+    const value = patch[key];
+    if (value === undefined) continue;
+    next[key] = (value === null ? undefined : value) as T[keyof T];
+  }
+  return next;
+}
+
+// Restricts an update to the row version the caller saw. updated_at has microseconds while a
+// Date only keeps milliseconds, so match the whole millisecond.
+export function matchingVersion<Q extends { gte(column: string, value: string): Q; lt(column: string, value: string): Q }>(
+  query: Q,
+  updatedAt: Date
+): Q {
+  const from = updatedAt.getTime();
+  return query
+    .gte('updated_at', new Date(from).toISOString())
+    .lt('updated_at', new Date(from + 1).toISOString());
+}
@@ -0,0 +1,195 @@
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+import { Book, ExportFormat, Note, NoteType } from '@/types';
+import { stripNoteLinks } from './noteLinks';
+import { stripCloze } from './cloze';
+
+// Client-side printable PDF (A4, millimetres). Images are redrawn through a canvas so every
+// source format (including webp and camera data: URLs) ends up as a JPEG jsPDF can embed.
+
+export type PdfExportOptions = Pick<ExportFormat, 'includeImages' | 'includeContext' | 'groupByBook'>;
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// --note-* colours from index.css (light theme)
+const typeStyles: Record<NoteType, { label: string; color: [number, number, number] }> = {
+  quote: { label: 'QUOTE', color: [230, 107, 26] },
+  idea: { label: 'IDEA', color: [35, 133, 231] },
+  question: { label: 'QUESTION', color: [121, 65, 200] },
+  action: { label: 'ACTION', color: [46, 158, 106] },
+};
+
+type LoadedImage = { dataUrl: string; width: number; height: number };
+
+function loadImage(url: string): Promise<LoadedImage | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: img.naturalWidth, height: img.naturalHeight });
+      } catch {
+        resolve(null); // tainted canvas: the host didn't allow CORS
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+// Fit inside a box, keeping the aspect ratio
+function fit(image: LoadedImage, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height, 1);
+  return { width: image.width * scale, height: image.height * scale };
+}
+
+export async function exportNotesToPDF(
+  notes: Note[],
+  books: Book[],
+  options: PdfExportOptions,
+  title = 'My Reading Notes'
+): Promise<Blob> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const bookMap = new Map(books.map((b) => [b.id, b]));
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const writeLines = (text: string, size: number, style: 'normal' | 'bold' | 'italic', color: number, indent = 0) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lineHeight = size * 0.45;
+    for (const line of doc.splitTextToSize(text, CONTENT_WIDTH - indent) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y + lineHeight * 0.8);
+      y += lineHeight;
+    }
+  };
+
+  const images = new Map<string, Promise<LoadedImage | null>>();
+  const image = (url: string) => {
+    if (!images.has(url)) images.set(url, loadImage(url));
+    return images.get(url)!;
+  };
+
+  const writeBookHeader = async (book: Book) => {
+    const cover = options.includeImages && book.coverUrl ? await image(book.coverUrl) : null;
+    const coverSize = cover ? fit(cover, 24, 36) : null;
+    ensureSpace(Math.max(coverSize?.height ?? 0, 16) + 6);
+    const top = y;
+    if (cover && coverSize) {
+      doc.addImage(cover.dataUrl, 'JPEG', MARGIN, y, coverSize.width, coverSize.height);
+    }
+    const indent = coverSize ? coverSize.width + 5 : 0;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(15);
+    doc.setTextColor(20);
+    const titleLines = doc.splitTextToSize(book.title, CONTENT_WIDTH - indent) as string[];
+    doc.text(titleLines, MARGIN + indent, y + 6);
+    y += 6 + titleLines.length * 6;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`by ${book.author} · ${book.format}`, MARGIN + indent, y);
+    y = Math.max(y + 4, top + (coverSize?.height ?? 0)) + 4;
+    doc.setDrawColor(220);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y += 6;
+  };
+
+  const writeNote = async (note: Note, showBook: boolean) => {
+    const { label, color } = typeStyles[note.type];
+    ensureSpace(14);
+
+    // Type badge, then location/chapter beside it
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    const badgeWidth = doc.getTextWidth(label) + 4;
+    doc.setFillColor(...color);
+    doc.roundedRect(MARGIN, y, badgeWidth, 4.5, 1.2, 1.2, 'F');
+    doc.setTextColor(255);
+    doc.text(label, MARGIN + 2, y + 3.2);
+    const where = [note.chapter, note.location ?? note.timestamp].filter(Boolean).join(' · ');
+    const meta = [showBook ? bookMap.get(note.bookId)?.title : undefined, where].filter(Boolean).join(' — ');
+    if (meta) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(120);
+      doc.text(meta, MARGIN + badgeWidth + 3, y + 3.3, { maxWidth: CONTENT_WIDTH - badgeWidth - 3 });
+    }
+    y += 7;
+
+    const body = stripCloze(stripNoteLinks(note.content || note.transcript || note.extractedText || ''));
+    if (body) writeLines(note.type === 'quote' ? `“${body}”` : body, 11, 'normal', 30);
+
+    if (options.includeContext && note.context) {
+      y += 1.5;
+      const start = y;
+      writeLines(stripNoteLinks(note.context), 9.5, 'italic', 90, 4);
+      doc.setDrawColor(...color);
+      doc.setLineWidth(0.6);
+      if (y > start) doc.line(MARGIN + 1, start, MARGIN + 1, y);
+      doc.setLineWidth(0.2);
+    }
+
+    if (options.includeImages && note.imageUrl) {
+      const img = await image(note.imageUrl);
+      if (img) {
+        const size = fit(img, CONTENT_WIDTH * 0.6, 110);
+        y += 2;
+        ensureSpace(size.height);
+        doc.addImage(img.dataUrl, 'JPEG', MARGIN, y, size.width, size.height);
+        y += size.height;
+      }
+    }
+
+    if (note.tags?.length) {
+      y += 1;
+      writeLines(note.tags.map((t) => `#${t}`).join('  '), 8, 'normal', 130);
+    }
+    y += 6;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.setTextColor(20);
+  doc.text(title, MARGIN, y + 8);
+  y += 14;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(120);
+  doc.text(`${notes.length} note${notes.length !== 1 ? 's' : ''} · exported ${format(new Date(), 'MMMM d, yyyy')}`, MARGIN, y);
+  y += 12;
+
+  const sorted = [...notes].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  if (options.groupByBook) {
+    for (const book of books) {
+      const bookNotes = sorted.filter((n) => n.bookId === book.id);
+      if (!bookNotes.length) continue;
+      await writeBookHeader(book);
+      for (const note of bookNotes) await writeNote(note, false);
+      y += 4;
+    }
+  } else {
+    for (const note of sorted) await writeNote(note, true);
+  }
+
+  return doc.output('blob');
+}
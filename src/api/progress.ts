@@ -0,0 +1,72 @@
+import { supabase, requireUserId } from './client';
+import { DbReadingProgress } from './types';
+import { Book, ReadingProgressEntry } from '@/types';
+
+function mapProgress(row: DbReadingProgress): ReadingProgressEntry {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    page: row.page ?? undefined,
+    positionSeconds: row.position_seconds ?? undefined,
+    noteId: row.note_id ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export async function fetchBookProgress(bookId: string): Promise<ReadingProgressEntry[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('reading_progress')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('book_id', bookId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as DbReadingProgress[]).map(mapProgress);
+}
+
+// Inserting a log entry also moves books.current_page/current_position (DB trigger)
+export async function logProgress(
+  bookId: string,
+  position: { page?: number; positionSeconds?: number }
+): Promise<ReadingProgressEntry> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('reading_progress')
+    .insert({
+      user_id: userId,
+      book_id: bookId,
+      page: position.page ?? null,
+      position_seconds: position.positionSeconds ?? null,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return mapProgress(data as DbReadingProgress);
+}
+
+// Clock-style parsing: "1:23:45" -> 5025, "23:45" -> 1425. Mirrors timestamp_seconds() in SQL.
+export function parseTimestamp(value: string): number | undefined {
+  const match = value.trim().match(/^(\d{1,3}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return undefined;
+  const [, a, b, c] = match;
+  if (c !== undefined) return Number(a) * 3600 + Number(b) * 60 + Number(c);
+  return Number(a) * 60 + Number(b);
+}
+
+export function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
+// Percent through the book (0-100), or undefined when the length or position is unknown.
+// Audiobooks track position in seconds; everything else tracks pages.
+export function getProgressPercent(book: Book): number | undefined {
+  const isAudio = book.format === 'audiobook';
+  const current = isAudio ? book.currentPosition : book.currentPage;
+  const total = isAudio ? book.totalDuration : book.totalPages;
+  if (!total || current === undefined) return undefined;
+  return Math.min(100, Math.round((current / total) * 100));
+}
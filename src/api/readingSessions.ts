@@ -0,0 +1,72 @@
+import { supabase, requireUserId } from './client';
+import { DbReadingSession } from './types';
+import { ReadingSession } from '@/types';
+
+function mapReadingSession(row: DbReadingSession): ReadingSession {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    startedAt: new Date(row.started_at),
+    endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+    durationSeconds: row.duration_seconds ?? undefined,
+    startPage: row.start_page ?? undefined,
+    endPage: row.end_page ?? undefined,
+    startPosition: row.start_position ?? undefined,
+    endPosition: row.end_position ?? undefined,
+    noteIds: row.note_ids ?? [],
+  };
+}
+
+// The user's running session (any book), if there is one
+export async function fetchActiveReadingSession(): Promise<ReadingSession | null> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('reading_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .is('ended_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapReadingSession(data as DbReadingSession) : null;
+}
+
+export async function fetchReadingSessionsForBook(bookId: string): Promise<ReadingSession[]> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('reading_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('book_id', bookId)
+    .not('ended_at', 'is', null)
+    .order('started_at', { ascending: false });
+  if (error) throw error;
+  return (data as DbReadingSession[]).map(mapReadingSession);
+}
+
+export async function startReadingSession(bookId: string): Promise<ReadingSession> {
+  const { data, error } = await supabase.rpc('reading_session_start', { p_book_id: bookId });
+  if (error) throw error;
+  return mapReadingSession(data as DbReadingSession);
+}
+
+export async function endReadingSession(
+  id: string,
+  end?: { page?: number; position?: number }
+): Promise<ReadingSession> {
+  const { data, error } = await supabase.rpc('reading_session_end', {
+    p_session_id: id,
+    p_end_page: end?.page ?? null,
+    p_end_position: end?.position ?? null,
+  });
+  if (error) throw error;
+  return mapReadingSession(data as DbReadingSession);
+}
+
+export async function discardReadingSession(id: string): Promise<void> {
+  const { error } = await supabase.from('reading_sessions').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export function totalReadingSeconds(sessions: ReadingSession[]): number {
+  return sessions.reduce((sum, s) => sum + (s.durationSeconds ?? 0), 0);
+}
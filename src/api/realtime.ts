@@ -0,0 +1,101 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './client';
+import { mapBook } from './books';
+import { mapNote } from './notes';
+import { mapFolder } from './folders';
+import { mapCollection } from './collections';
+import { mapComment, mapLike, mapPost, SocialComment, SocialLike, SocialPost } from './social';
+import { Book, Collection, Folder, Note } from '@/types';
+
+// Row changes streamed from Postgres (migration 20260127000100_realtime.sql), so edits made on
+// another device show up without a refresh. The library tables are limited to the user's own
+// rows; the social ones arrive as far as RLS lets the user read them.
+
+// A delete only carries the primary key (RLS hides the rest of the old row)
+export type RowChange<T> = { event: 'INSERT' | 'UPDATE'; row: T } | { event: 'DELETE'; key: Partial<T> };
+
+export interface ChangeHandlers {
+  books: (change: RowChange<Book>) => void;
+  notes: (change: RowChange<Note>) => void;
+  folders: (change: RowChange<Folder>) => void;
+  collections: (change: RowChange<Collection>) => void;
+  posts: (change: RowChange<SocialPost>) => void;
+  comments: (change: RowChange<SocialComment>) => void;
+  likes: (change: RowChange<SocialLike>) => void;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+const byId = (old: { id?: string }) => ({ id: old.id });
+
+function toChange<Row extends { [key: string]: unknown }, T>(
+  payload: RealtimePostgresChangesPayload<Row>,
+  map: (row: Row) => T,
+  key: (old: Partial<Row>) => Partial<T>
+): RowChange<T> {
+  return payload.eventType === 'DELETE'
+    ? { event: 'DELETE', key: key(payload.old) }
+    : { event: payload.eventType, row: map(payload.new) };
+}
+
+function createChannel(userId: string, handlers: ChangeHandlers): RealtimeChannel {
+  const own = (table: string) => ({ event: '*' as const, schema: 'public', table, filter: `user_id=eq.${userId}` });
+  const visible = (table: string) => ({ event: '*' as const, schema: 'public', table });
+  return supabase
+    .channel(`sync:${userId}`)
+    .on('postgres_changes', own('books'), (p) => handlers.books(toChange(p, mapBook, byId)))
+    .on('postgres_changes', own('notes'), (p) => handlers.notes(toChange(p, mapNote, byId)))
+    .on('postgres_changes', own('folders'), (p) => handlers.folders(toChange(p, mapFolder, byId)))
+    .on('postgres_changes', own('collections'), (p) => handlers.collections(toChange(p, mapCollection, byId)))
+    .on('postgres_changes', visible('social_posts'), (p) => handlers.posts(toChange(p, mapPost, byId)))
+    .on('postgres_changes', visible('social_comments'), (p) => handlers.comments(toChange(p, mapComment, byId)))
+    .on('postgres_changes', visible('social_likes'), (p) =>
+      handlers.likes(toChange(p, mapLike, (old) => ({ postId: old.post_id, userId: old.user_id })))
+    );
+}
+
+// Subscribes for the signed-in user and returns the unsubscribe function. The client rejoins by
+// itself after a dropped connection; changes made in the meantime are never replayed, so
+// `onResync` is called once the channel is live again and should refetch whatever it keeps.
+export function subscribeToChanges(userId: string, handlers: ChangeHandlers, onResync: () => void): () => void {
+  let channel: RealtimeChannel | null = null;
+  let stopped = false;
+  let dropped = false;
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const open = () => {
+    channel = createChannel(userId, handlers);
+    const current = channel;
+    current.subscribe((status, err) => {
+      if (stopped || current !== channel) return;
+      if (status === 'SUBSCRIBED') {
+        attempt = 0;
+        if (dropped) onResync();
+        dropped = false;
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        if (err) console.warn('Realtime channel error', err);
+        dropped = true;
+      } else if (status === 'CLOSED') {
+        // Closed by the server (not by us): the client won't rejoin on its own, so start over
+        dropped = true;
+        const delay = Math.min(RECONNECT_DELAY_MS * 2 ** attempt++, MAX_RECONNECT_DELAY_MS);
+        timer = setTimeout(() => {
+          timer = null;
+          channel = null;
+          supabase.removeChannel(current);
+          if (!stopped) open();
+        }, delay);
+      }
+    });
+  };
+  open();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    if (channel) supabase.removeChannel(channel);
+    channel = null;
+  };
+}
@@ -1,21 +1,43 @@
 import { supabase, requireUserId } from './client';
 import { DbReviewSession } from './types';
-import { ReviewSession } from '@/types';
+import { NoteScope, ReviewGrade, ReviewSession } from '@/types';
+import { scopeFromDb, scopeToDb } from './noteScope';
+
+// How the server picks a session's notes: from a scope, how many, and roughly which share of
+// them should be notes never reviewed (unset: strictly by due date)
+export interface ReviewPickOptions {
+  scope?: NoteScope;
+  size?: number;
+  newShare?: number;
+}
+
+// Unfinished sessions older than this aren't offered for resuming
+const RESUME_WINDOW_DAYS = 7;
 
 function mapSession(row: DbReviewSession): ReviewSession {
   return {
     id: row.id,
     noteIds: row.note_ids ?? [],
     completedNoteIds: row.completed_note_ids ?? [],
+    scope: scopeFromDb(row.scope_kind, row.scope_value),
+    sessionSize: row.session_size ?? undefined,
+    newShare: row.new_share ?? undefined,
     createdAt: new Date(row.created_at),
     completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
   };
 }
 
-export async function createReviewSession(noteIds: string[]): Promise<ReviewSession> {
+const pickParams = ({ scope = { kind: 'all' }, newShare }: ReviewPickOptions) => {
+  const { kind, value } = scopeToDb(scope);
+  return { p_scope_kind: kind, p_scope_value: value, p_new_share: newShare ?? null };
+};
+
+// With no note ids the server picks them from the options' scope
+export async function createReviewSession(noteIds: string[], options: ReviewPickOptions = {}): Promise<ReviewSession> {
   const { data, error } = await supabase.rpc('review_start_session', {
     note_ids: noteIds,
-    note_limit: noteIds?.length ?? 5,
+    note_limit: noteIds?.length || options.size || 5,
+    ...pickParams(options),
   });
   if (error) throw error;
   return mapSession(data as DbReviewSession);
@@ -33,21 +55,50 @@ export async function fetchReviewSession(id: string): Promise<ReviewSession> {
   return mapSession(data as DbReviewSession);
 }
 
+// The latest session left before its end, if it still has notes to review
+export async function fetchOpenReviewSession(): Promise<ReviewSession | null> {
+  const userId = await requireUserId();
+  const since = new Date(Date.now() - RESUME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('review_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .is('completed_at', null)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const session = mapSession(data as DbReviewSession);
+  return session.noteIds.some((id) => !session.completedNoteIds.includes(id)) ? session : null;
+}
+
 export async function completeReviewSession(id: string): Promise<void> {
   const { error } = await supabase.rpc('review_complete_session', { p_session_id: id });
   if (error) throw error;
 }
 
-export async function markNoteReviewedInSession(sessionId: string, noteId: string): Promise<void> {
+// Logged in review_log along with the time taken to answer
+export async function markNoteReviewedInSession(
+  sessionId: string,
+  noteId: string,
+  grade: ReviewGrade,
+  responseMs?: number,
+  cloze?: number
+): Promise<void> {
   const { error } = await supabase.rpc('review_mark_note', {
     p_session_id: sessionId,
     p_note_id: noteId,
+    p_grade: grade,
+    p_response_ms: responseMs ?? null,
+    p_cloze: cloze ?? null,
   });
   if (error) throw error;
 }
 
-export async function pickNotesForSession(count = 5): Promise<string[]> {
-  const { data, error } = await supabase.rpc('review_pick_notes', { note_limit: count });
+export async function pickNotesForSession(count = 5, options: ReviewPickOptions = {}): Promise<string[]> {
+  const { data, error } = await supabase.rpc('review_pick_notes', { note_limit: count, ...pickParams(options) });
   if (error) throw error;
   return (data as string[]) ?? [];
 }
@@ -0,0 +1,79 @@
+import { supabase } from './client';
+
+// Review analytics from the review log (review_daily_stats / review_forecast RPCs). Days are
+// local calendar days ("YYYY-MM-DD") in the browser's time zone.
+
+export interface ReviewDay {
+  day: string;
+  reviews: number;
+  // First-ever reviews of a note; they say nothing about retention
+  firstReviews: number;
+  recalled: number;
+  matureReviews: number;
+  matureRecalled: number;
+}
+
+export interface ReviewForecastDay {
+  day: string;
+  due: number;
+}
+
+export interface RetentionSummary {
+  reviews: number;
+  // Share of due reviews graded Hard or better; null without any
+  rate: number | null;
+  // The same for notes on an interval of 21 days or more
+  matureRate: number | null;
+}
+
+const timeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export async function fetchReviewDailyStats(days = 365): Promise<ReviewDay[]> {
+  const { data, error } = await supabase.rpc('review_daily_stats', { p_tz: timeZone(), p_days: days });
+  if (error) throw error;
+  return (
+    (data ?? []) as {
+      day: string;
+      reviews: number;
+      first_reviews: number;
+      recalled: number;
+      mature_reviews: number;
+      mature_recalled: number;
+    }[]
+  ).map((row) => ({
+    day: row.day,
+    reviews: row.reviews,
+    firstReviews: row.first_reviews,
+    recalled: row.recalled,
+    matureReviews: row.mature_reviews,
+    matureRecalled: row.mature_recalled,
+  }));
+}
+
+export async function fetchReviewForecast(days = 30): Promise<ReviewForecastDay[]> {
+  const { data, error } = await supabase.rpc('review_forecast', { p_tz: timeZone(), p_days: days });
+  if (error) throw error;
+  return ((data ?? []) as { day: string; due: number }[]).map((row) => ({ day: row.day, due: row.due }));
+}
+
+// Retention over the days from `sinceDay` on
+export function summarizeRetention(days: ReviewDay[], sinceDay: string): RetentionSummary {
+  let reviews = 0;
+  let due = 0;
+  let recalled = 0;
+  let mature = 0;
+  let matureRecalled = 0;
+  for (const d of days) {
+    if (d.day < sinceDay) continue;
+    reviews += d.reviews;
+    due += d.reviews - d.firstReviews;
+    recalled += d.recalled;
+    mature += d.matureReviews;
+    matureRecalled += d.matureRecalled;
+  }
+  return {
+    reviews,
+    rate: due ? recalled / due : null,
+    matureRate: mature ? matureRecalled / mature : null,
+  };
+}
@@ -1,8 +1,8 @@
 import { supabase, requireUserId } from './client';
 import { DbSavedFilter } from './types';
-import { SavedFilter, NoteType } from '@/types';
+import { SavedFilter, Note, NoteType } from '@/types';
 
-function mapSavedFilter(row: DbSavedFilter): SavedFilter {
+export function mapSavedFilter(row: DbSavedFilter): SavedFilter {
   return {
     id: row.id,
     name: row.name,
@@ -22,6 +22,17 @@ function mapSavedFilter(row: DbSavedFilter): SavedFilter {
   };
 }
 
+// Same semantics as the Notes tab filters: every listed tag must be present
+export function noteMatchesSavedFilter(note: Note, filter: Pick<SavedFilter, 'filters'>): boolean {
+  const { bookIds, types, tags, folderIds, dateRange } = filter.filters;
+  if (bookIds?.length && !bookIds.includes(note.bookId)) return false;
+  if (types?.length && !types.includes(note.type)) return false;
+  if (tags?.length && !tags.every((tag) => note.tags?.includes(tag))) return false;
+  if (folderIds?.length && (!note.folderId || !folderIds.includes(note.folderId))) return false;
+  if (dateRange && (note.createdAt < dateRange.start || note.createdAt > dateRange.end)) return false;
+  return true;
+}
+
 export async function fetchSavedFilters(): Promise<SavedFilter[]> {
   const userId = await requireUserId();
   const { data, error } = await supabase
@@ -0,0 +1,314 @@
+import { Book, Folder, Note, NoteType, SavedFilter } from '@/types';
+import { noteMatchesSavedFilter } from './savedFilters';
+
+// Search query language for the notes search box:
+//
+//   type:quote tag:stoicism book:"Meditations" after:2026-01-01 "exact phrase" -draft
+//
+// Field operators compile to the SavedFilter.filters model; bare words go to the full-text
+// search; phrases and negations are checked client-side on the results.
+
+export const searchFields = ['type', 'tag', 'book', 'folder', 'after', 'before'] as const;
+export type SearchField = (typeof searchFields)[number];
+
+const fieldHints: Record<SearchField, string> = {
+  type: 'quote, idea, question or action',
+  tag: 'notes with this tag',
+  book: 'notes from a book',
+  folder: 'notes in a folder',
+  after: 'created on or after YYYY-MM-DD',
+  before: 'created before YYYY-MM-DD',
+};
+
+const noteTypes: NoteType[] = ['quote', 'idea', 'question', 'action'];
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  // Bare words, sent to the full-text search
+  terms: string[];
+  // "quoted phrases", matched exactly
+  phrases: string[];
+  filters: SavedFilter['filters'];
+  exclude: { terms: string[]; types: NoteType[]; tags: string[]; bookIds: string[]; folderIds: string[] };
+  errors: SearchQueryError[];
+}
+
+export interface SearchQueryContext {
+  books: Book[];
+  folders?: Folder[];
+}
+
+interface Token {
+  field?: string;
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+// Splits on whitespace outside quotes; an unterminated quote runs to the end of the input
+function tokenize(input: string): { tokens: Token[]; errors: SearchQueryError[] } {
+  const tokens: Token[] = [];
+  const errors: SearchQueryError[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    let field: string | undefined;
+    const fieldMatch = input.slice(i).match(/^([a-zA-Z]+):/);
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let value = '';
+    let quoted = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', start: i, end: input.length });
+        value = input.slice(i + 1);
+        i = input.length;
+      } else {
+        value = input.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) value += input[i++];
+    }
+    tokens.push({ field, value, quoted, negated, start, end: i });
+  }
+  return { tokens, errors };
+}
+
+// YYYY-MM-DD in local time
+function parseDay(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+// Exact name matches win over prefix matches, which win over substring matches
+function matchNamed<T>(items: T[], name: (item: T) => string, value: string): T[] {
+  const v = value.toLowerCase();
+  const exact = items.filter((item) => name(item).toLowerCase() === v);
+  if (exact.length) return exact;
+  const prefix = items.filter((item) => name(item).toLowerCase().startsWith(v));
+  if (prefix.length) return prefix;
+  return items.filter((item) => name(item).toLowerCase().includes(v));
+}
+
+export function parseSearchQuery(input: string, context: SearchQueryContext): ParsedSearchQuery {
+  const { tokens, errors } = tokenize(input);
+  const result: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    filters: {},
+    exclude: { terms: [], types: [], tags: [], bookIds: [], folderIds: [] },
+    errors,
+  };
+  const fail = (token: Token, message: string) => errors.push({ message, start: token.start, end: token.end });
+  const push = <T>(list: T[] | undefined, value: T) => [...(list ?? []), value];
+  const addText = (token: Token, value: string) => {
+    if (!value) return;
+    if (token.negated) result.exclude.terms.push(value.toLowerCase());
+    else if (token.quoted) result.phrases.push(value);
+    else result.terms.push(value);
+  };
+  let after: Date | undefined;
+  let before: Date | undefined;
+
+  for (const token of tokens) {
+    const value = token.value.trim();
+    if (!token.field) {
+      addText(token, value);
+      continue;
+    }
+
+    // Not an operator ("note:", "ratio:3"): searched for as written
+    if (!(searchFields as readonly string[]).includes(token.field)) {
+      const field = input.slice(token.start + (token.negated ? 1 : 0)).slice(0, token.field.length);
+      addText(token, `${field}:${value}`);
+      continue;
+    }
+    const field = token.field as SearchField;
+    if (!value) {
+      fail(token, `"${field}:" needs a value`);
+      continue;
+    }
+
+    switch (field) {
+      case 'type': {
+        const type = noteTypes.find((t) => t === value.toLowerCase() || `${t}s` === value.toLowerCase());
+        if (!type) {
+          fail(token, `Unknown note type "${value}" (use ${noteTypes.join(', ')})`);
+        } else if (token.negated) {
+          result.exclude.types.push(type);
+        } else {
+          result.filters.types = push(result.filters.types, type);
+        }
+        break;
+      }
+      case 'tag': {
+        const tag = value.replace(/^#/, '');
+        if (token.negated) result.exclude.tags.push(tag);
+        else result.filters.tags = push(result.filters.tags, tag);
+        break;
+      }
+      case 'book':
+      case 'folder': {
+        const matches =
+          field === 'book'
+            ? matchNamed(context.books, (b) => b.title, value).map((b) => b.id)
+            : matchNamed(context.folders ?? [], (f) => f.name, value).map((f) => f.id);
+        if (!matches.length) {
+          fail(token, `No ${field} matches "${value}"`);
+        } else if (matches.length > 1) {
+          fail(token, `"${value}" matches ${matches.length} ${field}s — add more of the name`);
+        } else if (token.negated) {
+          (field === 'book' ? result.exclude.bookIds : result.exclude.folderIds).push(matches[0]);
+        } else if (field === 'book') {
+          result.filters.bookIds = push(result.filters.bookIds, matches[0]);
+        } else {
+          result.filters.folderIds = push(result.filters.folderIds, matches[0]);
+        }
+        break;
+      }
+      case 'after':
+      case 'before': {
+        const day = parseDay(value);
+        if (!day) fail(token, `"${value}" isn't a date — use YYYY-MM-DD`);
+        else if (token.negated) fail(token, `"-${field}:" isn't supported — use ${field === 'after' ? 'before' : 'after'}: instead`);
+        else if (field === 'after') after = day;
+        else before = day;
+        break;
+      }
+    }
+  }
+
+  if (after || before) {
+    const start = after ?? new Date(0);
+    // before: is exclusive of the day itself
+    const end = before ? new Date(before.getTime() - 1) : new Date(8.64e15);
+    if (start > end) {
+      errors.push({ message: 'after: is later than before:', start: 0, end: input.length });
+    } else {
+      result.filters.dateRange = { start, end };
+    }
+  }
+
+  errors.sort((a, b) => a.start - b.start);
+  return result;
+}
+
+export function hasSearchCriteria(query: ParsedSearchQuery): boolean {
+  const { exclude, filters } = query;
+  return (
+    query.terms.length > 0 ||
+    query.phrases.length > 0 ||
+    Object.values(filters).some((v) => (Array.isArray(v) ? v.length > 0 : !!v)) ||
+    Object.values(exclude).some((list) => list.length > 0)
+  );
+}
+
+// Words handed to the full-text search (phrases contribute theirs; exact order is checked after)
+export function fullTextTerms(query: ParsedSearchQuery): string {
+  return [...query.terms, ...query.phrases].join(' ');
+}
+
+const searchableText = (note: Note) =>
+  [note.content, note.context, note.transcript, note.extractedText, note.chapter, ...(note.tags ?? [])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+// Filters, phrases and exclusions. Bare terms are matched too when checkTerms is set
+// (used when full-text search isn't available).
+export function noteMatchesQuery(note: Note, query: ParsedSearchQuery, checkTerms = false): boolean {
+  if (!noteMatchesSavedFilter(note, { filters: query.filters })) return false;
+  const { exclude } = query;
+  if (exclude.types.includes(note.type)) return false;
+  if (exclude.bookIds.includes(note.bookId)) return false;
+  if (note.folderId && exclude.folderIds.includes(note.folderId)) return false;
+  if (exclude.tags.some((tag) => note.tags?.includes(tag))) return false;
+
+  if (!query.phrases.length && !exclude.terms.length && !checkTerms) return true;
+  const text = searchableText(note);
+  if (query.phrases.some((phrase) => !text.includes(phrase.toLowerCase()))) return false;
+  if (exclude.terms.some((term) => text.includes(term))) return false;
+  if (checkTerms && query.terms.some((term) => !text.includes(term.toLowerCase()))) return false;
+  return true;
+}
+
+export interface SearchSuggestion {
+  label: string;
+  hint?: string;
+  // Replaces input[from, to) and puts the caret after it
+  insert: string;
+  from: number;
+  to: number;
+}
+
+const quoteIfNeeded = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+export function suggestSearchCompletions(
+  input: string,
+  caret: number,
+  // fields limits which operators are offered (e.g. no book: inside a single book)
+  context: SearchQueryContext & { tags: string[]; fields?: readonly SearchField[] },
+  limit = 6
+): SearchSuggestion[] {
+  // The token under the caret (quotes may hold spaces)
+  const before = input.slice(0, caret);
+  const match = before.match(/(-?)([a-zA-Z]+:)?("[^"]*|[^\s"]*)$/);
+  if (!match) return [];
+  const [whole, negation, fieldPart, rawValue] = match;
+  const from = caret - whole.length + negation.length;
+  const rest = input.slice(caret).match(/^[^\s]*/)?.[0] ?? '';
+  const to = caret + rest.length;
+
+  if (!fieldPart) {
+    const partial = rawValue.toLowerCase();
+    if (!partial || partial.startsWith('"')) return [];
+    return (context.fields ?? searchFields)
+      .filter((field) => field.startsWith(partial) && field !== partial)
+      .map((field) => ({ label: `${field}:`, hint: fieldHints[field], insert: `${field}:`, from, to }));
+  }
+
+  const field = fieldPart.slice(0, -1).toLowerCase() as SearchField;
+  const partial = rawValue.replace(/^"/, '').toLowerCase();
+  const values: string[] =
+    field === 'type'
+      ? noteTypes
+      : field === 'tag'
+        ? context.tags
+        : field === 'book'
+          ? context.books.map((b) => b.title)
+          : field === 'folder'
+            ? (context.folders ?? []).map((f) => f.name)
+            : [];
+  const ranked = values
+    .filter((v) => v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)));
+  return ranked.slice(0, limit).map((v) => ({
+    label: `${field}:${v}`,
+    insert: `${field}:${quoteIfNeeded(v)} `,
+    from,
+    to,
+  }));
+}
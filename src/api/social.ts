@@ -71,7 +71,7 @@ function mapProfile(row: any): BasicProfile {
   };
 }
 
-function mapPost(row: any): SocialPost {
+export function mapPost(row: any): SocialPost {
   return {
     id: row.id,
     userId: row.user_id,
@@ -97,7 +97,7 @@ function mapPost(row: any): SocialPost {
   };
 }
 
-function mapComment(row: any): SocialComment {
+export function mapComment(row: any): SocialComment {
   return {
     id: row.id,
     postId: row.post_id,
@@ -184,13 +184,13 @@ export async function unlikePost(postId: string): Promise<void> {
   if (error) throw error;
 }
 
-export async function fetchLikes(postId: string): Promise<SocialLike[]> {
-  const { data, error } = await supabase
-    .from('social_likes')
-    .select(`*, user:profiles(${PROFILE_FIELDS})`)
-    .eq('post_id', postId);
-  if (error) throw error;
-  return (data ?? []).map((row) => ({
+export function mapLike(row: {
+  post_id: string;
+  user_id: string;
+  created_at: string;
+  user?: { id: string; username: string; display_name: string | null; avatar_url: string | null } | null;
+}): SocialLike {
+  return {
     postId: row.post_id,
     userId: row.user_id,
     createdAt: new Date(row.created_at),
@@ -202,7 +202,16 @@ export async function fetchLikes(postId: string): Promise<SocialLike[]> {
           avatarUrl: row.user.avatar_url,
         }
       : undefined,
-  }));
+  };
+}
+
+export async function fetchLikes(postId: string): Promise<SocialLike[]> {
+  const { data, error } = await supabase
+    .from('social_likes')
+    .select(`*, user:profiles(${PROFILE_FIELDS})`)
+    .eq('post_id', postId);
+  if (error) throw error;
+  return (data ?? []).map(mapLike);
 }
 
 export async function addComment(postId: string, content: string): Promise<SocialComment> {
@@ -324,14 +333,14 @@ export async function fetchProfileSummary(userId: string): Promise<ProfileSummar
           .eq('following_id', userId)
       : Promise.resolve({ count: 0, error: null, data: null } as { count: number | null; error: null; data: null }),
     viewerId === userId
-      ? supabase.from('books').select('*', { head: true, count: 'exact' }).eq('user_id', userId)
+      ? supabase.from('books').select('*', { head: true, count: 'exact' }).eq('user_id', userId).is('deleted_at', null)
       : Promise.resolve({ count: null, error: null, data: null } as {
           count: number | null;
           error: null;
           data: null;
         }),
     viewerId === userId
-      ? supabase.from('notes').select('*', { head: true, count: 'exact' }).eq('user_id', userId)
+      ? supabase.from('notes').select('*', { head: true, count: 'exact' }).eq('user_id', userId).is('deleted_at', null)
       : Promise.resolve({ count: null, error: null, data: null } as {
           count: number | null;
           error: null;
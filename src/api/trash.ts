@@ -0,0 +1,102 @@
+import { supabase, requireUserId } from './client';
+import { DbBook, DbCollection, DbFolder, DbNote } from './types';
+import { mapBook } from './books';
+import { mapNote } from './notes';
+import { mapFolder } from './folders';
+import { mapCollection } from './collections';
+import { Book, Collection, Folder, Note } from '@/types';
+
+// Deleting moves books, notes, folders and collections to the trash (deleted_at). A book takes
+// its notes along. Items are purged for good, media included, by the purge-trash Edge Function:
+// on request, or once they are older than the user's retention period.
+
+export type TrashKind = 'book' | 'note' | 'folder' | 'collection';
+
+export interface TrashItemRef {
+  kind: TrashKind;
+  id: string;
+}
+
+export interface TrashContents {
+  books: Book[];
+  notes: Note[];
+  folders: Folder[];
+  collections: Collection[];
+}
+
+export interface TrashPurgeResult {
+  books: number;
+  notes: number;
+  folders: number;
+  collections: number;
+  files: number;
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export async function trashItem(kind: TrashKind, id: string): Promise<void> {
+  const { error } = await supabase.rpc('trash_item', { p_kind: kind, p_id: id });
+  if (error) throw error;
+}
+
+// Restoring a note also restores its book if that is in the trash too
+export async function restoreItem(kind: TrashKind, id: string): Promise<void> {
+  const { error } = await supabase.rpc('restore_item', { p_kind: kind, p_id: id });
+  if (error) throw error;
+}
+
+export async function fetchTrash(): Promise<TrashContents> {
+  const userId = await requireUserId();
+  const trashed = (table: string) =>
+    supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+  const [books, notes, folders, collections] = await Promise.all([
+    trashed('books'),
+    trashed('notes'),
+    trashed('folders'),
+    trashed('collections'),
+  ]);
+  const error = books.error ?? notes.error ?? folders.error ?? collections.error;
+  if (error) throw error;
+  return {
+    books: (books.data as DbBook[]).map(mapBook),
+    notes: (notes.data as DbNote[]).map(mapNote),
+    folders: (folders.data as DbFolder[]).map(mapFolder),
+    collections: (collections.data as DbCollection[]).map(mapCollection),
+  };
+}
+
+// Deletes for good: the given items, everything in the trash, or (by default) only what is
+// past the retention period. Storage objects no longer referenced are removed as well.
+export async function purgeTrash(options: { items?: TrashItemRef[]; all?: boolean } = {}): Promise<TrashPurgeResult> {
+  const { data, error } = await supabase.functions.invoke('purge-trash', { body: options });
+  if (error) throw error;
+  return data as TrashPurgeResult;
+}
+
+export async function fetchTrashRetention(): Promise<number> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('trash_retention_days')
+    .eq('id', userId)
+    .single();
+  if (error) throw error;
+  return (data as { trash_retention_days: number | null }).trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function updateTrashRetention(days: number): Promise<number> {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ trash_retention_days: days })
+    .eq('id', userId)
+    .select('trash_retention_days')
+    .single();
+  if (error) throw error;
+  return (data as { trash_retention_days: number }).trash_retention_days;
+}
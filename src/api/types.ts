@@ -1,4 +1,4 @@
-import { NoteType, MediaType, BookFormat } from '@/types';
+import { NoteType, MediaType, BookFormat, ReadingStatus } from '@/types';
 
 export type DbBook = {
   id: string;
@@ -6,6 +6,14 @@ export type DbBook = {
   title: string;
   author: string;
   format: BookFormat;
+  status: ReadingStatus;
+  started_at: string | null;
+  finished_at: string | null;
+  total_pages: number | null;
+  total_duration: number | null;
+  current_page: number | null;
+  current_position: number | null;
+  rating: number | null;
   cover_url: string | null;
   isbn: string | null;
   tags: string[] | null;
@@ -14,6 +22,7 @@ export type DbBook = {
   notes_count: number;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 };
 
 export type DbNote = {
@@ -40,9 +49,24 @@ export type DbNote = {
   review_count: number;
   last_reviewed_at: string | null;
   next_review_at: string | null;
+  review_stability: number | null;
+  review_difficulty: number | null;
+  review_lapses: number;
+  review_clozes: Record<
+    string,
+    {
+      stability: number;
+      difficulty: number;
+      lapses: number;
+      review_count: number;
+      last_reviewed_at: string;
+      next_review_at: string;
+    }
+  > | null;
   folder_id: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 };
 
 export type DbFolder = {
@@ -52,6 +76,7 @@ export type DbFolder = {
   color: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 };
 
 export type DbCollection = {
@@ -62,6 +87,7 @@ export type DbCollection = {
   note_ids: string[] | null;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 };
 
 export type DbSavedFilter = {
@@ -83,6 +109,10 @@ export type DbReviewSession = {
   user_id: string;
   note_ids: string[] | null;
   completed_note_ids: string[] | null;
+  scope_kind: string;
+  scope_value: string | null;
+  session_size: number | null;
+  new_share: number | null;
   created_at: string;
   completed_at: string | null;
 };
@@ -102,3 +132,56 @@ export type DbActivityDate = {
   activity_date: string;
   created_at: string;
 };
+
+export type DbReadingProgress = {
+  id: string;
+  user_id: string;
+  book_id: string;
+  page: number | null;
+  position_seconds: number | null;
+  note_id: string | null;
+  created_at: string;
+};
+
+export type DbReadingSession = {
+  id: string;
+  user_id: string;
+  book_id: string;
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number | null;
+  start_page: number | null;
+  end_page: number | null;
+  start_position: number | null;
+  end_position: number | null;
+  note_ids: string[] | null;
+  created_at: string;
+};
+
+export type DbNoteLink = {
+  id: string;
+  user_id: string;
+  source_note_id: string;
+  target_note_id: string | null;
+  target_book_id: string | null;
+  created_at: string;
+};
+
+export type DbNoteRevision = {
+  id: string;
+  note_id: string;
+  user_id: string;
+  type: NoteType;
+  content: string;
+  context: string | null;
+  chapter: string | null;
+  location: string | null;
+  tags: string[] | null;
+  extracted_text: string | null;
+  transcript: string | null;
+  ai_summary: string | null;
+  ai_expanded: string | null;
+  ai_flashcard: { question: string; answer: string } | null;
+  version_at: string;
+  created_at: string;
+};
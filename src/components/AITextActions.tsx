@@ -10,6 +10,7 @@ import {
   Loader2,
   ArrowLeft,
   Wand2,
+  Braces,
 } from 'lucide-react';
 import { runAIAction, type AIAction } from '@/api/ai';
 
@@ -32,6 +33,7 @@ const aiActions: { action: AIAction; icon: typeof Sparkles; label: string; descr
   { action: 'expand', icon: FileText, label: 'Expand', description: 'Add more detail' },
   { action: 'summarize', icon: Sparkles, label: 'Summarize', description: 'Make it concise' },
   { action: 'flashcard', icon: RotateCcw, label: 'Flashcard', description: 'Q&A format' },
+  { action: 'cloze', icon: Braces, label: 'Cloze', description: 'Hide key phrases' },
 ];
 
 export function AITextActions({ originalText, onTextChange, context, onBack, showBackButton }: AITextActionsProps) {
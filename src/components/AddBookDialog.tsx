@@ -9,15 +9,16 @@ import {
 } from '@/components/ui/responsive-dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { BookFormat } from '@/types';
+import { BookFormat, ReadingStatus } from '@/types';
 import { BookOpen, Smartphone, Headphones, Book, Loader2, Search, Camera, X, ArrowLeft, Check, Pencil } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useHaptic } from '@/hooks/use-haptic';
+import { readingStatusConfig, readingStatusOrder } from '@/lib/readingStatus';
 
 interface AddBookDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onAdd: (book: { title: string; author: string; format: BookFormat; coverUrl?: string; isbn?: string }) => void;
+  onAdd: (book: { title: string; author: string; format: BookFormat; coverUrl?: string; isbn?: string; status?: ReadingStatus }) => void;
 }
 
 interface BookSuggestion {
@@ -41,6 +42,7 @@ export function AddBookDialog({ open, onOpenChange, onAdd }: AddBookDialogProps)
   const [title, setTitle] = useState('');
   const [selectedBook, setSelectedBook] = useState<BookSuggestion | null>(null);
   const [format, setFormat] = useState<BookFormat>('physical');
+  const [status, setStatus] = useState<ReadingStatus>('reading');
   const [suggestions, setSuggestions] = useState<BookSuggestion[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
@@ -166,6 +168,7 @@ export function AddBookDialog({ open, onOpenChange, onAdd }: AddBookDialogProps)
     setTitle('');
     setSelectedBook(null);
     setFormat('physical');
+    setStatus('reading');
     setSuggestions([]);
     setCapturedImage(null);
     stopCamera();
@@ -188,6 +191,7 @@ export function AddBookDialog({ open, onOpenChange, onAdd }: AddBookDialogProps)
       format,
       coverUrl: selectedBook.coverUrl,
       isbn: selectedBook.isbn,
+      status,
     });
     
     resetDialog();
@@ -477,6 +481,30 @@ export function AddBookDialog({ open, onOpenChange, onAdd }: AddBookDialogProps)
                   ))}
                 </div>
               </div>
+
+              {/* Reading status selector */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Status</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {readingStatusOrder.map((value) => {
+                    const { icon: StatusIcon, label, className } = readingStatusConfig[value];
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setStatus(value)}
+                        className={cn(
+                          "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all touch-manipulation active:scale-95",
+                          status === value ? className : 'bg-secondary/50 text-muted-foreground hover:bg-secondary'
+                        )}
+                      >
+                        <StatusIcon className="w-3.5 h-3.5" />
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
             </div>
           )}
         </ResponsiveDialogBody>
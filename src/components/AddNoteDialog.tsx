@@ -8,9 +8,7 @@ import {
   ResponsiveDialogFooter,
 } from '@/components/ui/responsive-dialog';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -22,9 +20,10 @@ import { AITextActions } from './AITextActions';
 import { TagInput } from './TagInput';
 import { LocationInput, LocationData, formatLocation } from './LocationInput';
 import { inferNoteType, getPlaceholderForType, getTypeStyles } from '@/lib/noteTypeInference';
-import { useNotes } from '@/api/hooks';
+import { useBooks, useNotes } from '@/api/hooks';
+import { resolveNoteLinks } from '@/api/noteLinks';
+import { NoteLinkField } from './NoteLinkField';
 import { useHaptic } from '@/hooks/use-haptic';
-import { uploadNoteImage, uploadNoteAudio } from '@/api/storage';
 import { runOCR } from '@/api/ocr';
 import { toast } from 'sonner';
 
@@ -46,6 +45,9 @@ interface AddNoteDialogProps {
     transcript?: string;
     tags?: string[];
     isPrivate?: boolean;
+    // Captured media not uploaded yet; sent along with the note, queued while offline
+    imageFile?: File;
+    audioFile?: File;
   }) => Promise<string>; // Returns note ID
   onUpdateLocation?: (noteId: string, location: string, timestamp?: string) => void;
   bookId: string;
@@ -54,6 +56,8 @@ interface AddNoteDialogProps {
   bookFormat?: BookFormat;
   initialRecording?: { url: string; duration: number; transcript?: string } | null;
   initialImage?: { url: string; extractedText?: string } | null;
+  // Text shared into the app from elsewhere
+  initialText?: string | null;
 }
 
 const noteTypes: { type: NoteType; icon: typeof Quote; label: string }[] = [
@@ -165,7 +169,8 @@ export function AddNoteDialog({
   bookAuthor,
   bookFormat = 'physical',
   initialRecording, 
-  initialImage 
+  initialImage,
+  initialText,
 }: AddNoteDialogProps) {
   const { success } = useHaptic();
   
@@ -194,6 +199,7 @@ export function AddNoteDialog({
   const [isSaving, setIsSaving] = useState(false);
 
   const { data: notesData } = useNotes();
+  const { data: booksData } = useBooks();
 
   // Get existing tags for autocomplete
   const existingTags = useMemo(() => {
@@ -246,6 +252,13 @@ export function AddNoteDialog({
     }
   }, [open, initialImage]);
 
+  // Handle shared text
+  useEffect(() => {
+    if (open && initialText) {
+      setContent(initialText);
+    }
+  }, [open, initialText]);
+
   // OCR is now handled inside ImageCapture (auto on upload)
 
   // Auto-infer note type as user types (unless manually set)
@@ -350,46 +363,43 @@ export function AddNoteDialog({
 
       let imageUrl = imageData?.url;
       let audioUrl = audioData?.url;
+      let imageFile: File | undefined;
+      let audioFile: File | undefined;
+      const isLocal = (url: string) => url.startsWith('data:') || url.startsWith('blob:');
 
-      // Upload image to storage if it's a data/blob URL
-      if (imageData?.url && (imageData.url.startsWith('data:') || imageData.url.startsWith('blob:'))) {
-        try {
-          const file = await fileFromUrl(imageData.url, 'note-image', 'image/png');
-          const uploaded = await uploadNoteImage(file);
-          imageUrl = uploaded.publicUrl ?? uploaded.path;
-        } catch (err: any) {
-          console.error('Image upload failed', err);
-          toast.error('Failed to upload image');
-          setIsSaving(false);
-          return;
+      // Local captures (data/blob URLs) are uploaded with the note; read them now, a blob URL
+      // doesn't outlive the page if the note has to wait for a connection
+      try {
+        if (imageData?.url && isLocal(imageData.url)) {
+          imageFile = await fileFromUrl(imageData.url, 'note-image', 'image/png');
+          imageUrl = undefined;
         }
-      }
-
-      // Upload audio to storage if it's a blob URL
-      if (audioData?.url && (audioData.url.startsWith('blob:') || audioData.url.startsWith('data:'))) {
-        try {
-          const file = await fileFromUrl(audioData.url, 'note-audio', 'audio/webm');
-          const uploaded = await uploadNoteAudio(file);
-          audioUrl = uploaded.path;
-        } catch (err: any) {
-          console.error('Audio upload failed', err);
-          toast.error('Failed to upload audio');
-          setIsSaving(false);
-          return;
+        if (audioData?.url && isLocal(audioData.url)) {
+          audioFile = await fileFromUrl(audioData.url, 'note-audio', 'audio/webm');
+          audioUrl = undefined;
         }
+      } catch (err) {
+        console.error('Failed to read captured media', err);
+        toast.error('Failed to read the captured media');
+        return;
       }
       
+      // Hand-typed [[Book title]] / [[start of a note]] become id links
+      const links = { notes: notesData ?? [], books: booksData ?? [] };
+
       const noteId = await onAdd({
         type,
         mediaType: captureMode,
-        content: content.trim() || (imageData?.extractedText || audioData?.transcript || 'Voice memo'),
+        content: resolveNoteLinks(content.trim(), links) || (imageData?.extractedText || audioData?.transcript || 'Voice memo'),
         location: locationString || undefined, // Include location if already entered
         chapter: location.chapter || undefined,
         timestamp: location.timestamp || undefined,
-        context: context.trim() || undefined,
-        imageUrl: imageUrl,
+        context: resolveNoteLinks(context.trim(), links) || undefined,
+        imageUrl,
+        imageFile,
         extractedText: imageData?.extractedText,
-        audioUrl: audioUrl,
+        audioUrl,
+        audioFile,
         audioDuration: audioData?.duration,
         transcript: audioData?.transcript,
         tags: tags.length > 0 ? tags : undefined,
@@ -483,14 +493,19 @@ export function AddNoteDialog({
                     <>
                       <div className="space-y-2">
                         <Label htmlFor="content" className="text-sm font-medium">Content</Label>
-                        <Textarea
+                        <NoteLinkField
                           id="content"
+                          multiline
                           placeholder={getPlaceholderForType(type)}
                           value={content}
-                          onChange={(e) => setContent(e.target.value)}
+                          onChange={setContent}
                           className="min-h-[100px] sm:min-h-[120px] bg-background resize-none text-base"
                           autoFocus
+                          clozes
                         />
+                        <p className="text-xs text-muted-foreground">
+                          Type [[ to link a book or another note; select a phrase and press Ctrl+Shift+C to quiz yourself on it
+                        </p>
                       </div>
 
                       {/* AI Enhance button - only show when there's content */}
@@ -644,11 +659,11 @@ export function AddNoteDialog({
                     {/* Why it matters */}
                     <div className="space-y-2">
                       <Label htmlFor="context" className="text-sm">Why it matters <span className="text-muted-foreground">(optional)</span></Label>
-                      <Input
+                      <NoteLinkField
                         id="context"
                         placeholder="Brief note on why you're saving this..."
                         value={context}
-                        onChange={(e) => setContext(e.target.value)}
+                        onChange={setContext}
                         className="bg-background"
                       />
                     </div>
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { Link2 } from 'lucide-react';
+import { Note } from '@/types';
+import { useBooks, useNoteLinks, useNotes } from '@/api/hooks';
+import { stripNoteLinks } from '@/api/noteLinks';
+import { stripCloze } from '@/api/cloze';
+import { cn } from '@/lib/utils';
+
+interface BacklinksProps {
+  noteId: string;
+  onSelect?: (note: Note) => void;
+  className?: string;
+}
+
+// Notes whose text links to this one
+export function Backlinks({ noteId, onSelect, className }: BacklinksProps) {
+  const { data: links } = useNoteLinks();
+  const { data: notesData } = useNotes();
+  const { data: booksData } = useBooks();
+
+  const sources = useMemo(() => {
+    const noteMap = new Map((notesData ?? []).map((n) => [n.id, n]));
+    const ids = new Set((links ?? []).filter((l) => l.targetNoteId === noteId).map((l) => l.sourceNoteId));
+    return [...ids].map((id) => noteMap.get(id)).filter((n): n is Note => !!n);
+  }, [links, notesData, noteId]);
+  const bookTitles = useMemo(() => new Map((booksData ?? []).map((b) => [b.id, b.title])), [booksData]);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+        <Link2 className="w-3.5 h-3.5" />
+        Linked from {sources.length > 0 && `(${sources.length})`}
+      </p>
+      {sources.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No notes link here yet. Type [[ in a note to link one.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {sources.map((note) => (
+            <li key={note.id}>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect?.(note);
+                }}
+                disabled={!onSelect}
+                className="w-full text-left rounded-lg px-2.5 py-2 bg-secondary/40 hover:bg-secondary/70 disabled:hover:bg-secondary/40 transition-colors"
+              >
+                <span className="block text-sm text-foreground line-clamp-2">{stripCloze(stripNoteLinks(note.content))}</span>
+                <span className="block text-xs text-muted-foreground mt-0.5 truncate">
+                  {bookTitles.get(note.bookId) ?? 'Unknown book'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
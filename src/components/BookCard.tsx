@@ -8,6 +8,9 @@ import {
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { BookStatusBadge } from './BookStatusBadge';
+import { getProgressPercent } from '@/api/progress';
 
 interface BookCardProps {
   book: Book;
@@ -16,6 +19,8 @@ interface BookCardProps {
 }
 
 export function BookCard({ book, onClick, onDelete }: BookCardProps) {
+  const progress = getProgressPercent(book);
+
   return (
     <Card 
       className="group relative overflow-hidden shadow-card card-hover cursor-pointer border-border/50 bg-card"
@@ -47,10 +52,19 @@ export function BookCard({ book, onClick, onDelete }: BookCardProps) {
         <p className="text-sm text-muted-foreground mt-1 line-clamp-1">
           {book.author}
         </p>
-        <div className="flex items-center gap-1 mt-3 text-xs text-muted-foreground">
-          <BookOpen className="w-3.5 h-3.5" />
-          <span>{book.notesCount} {book.notesCount === 1 ? 'note' : 'notes'}</span>
+        <div className="flex items-center justify-between gap-2 mt-3 text-xs text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <BookOpen className="w-3.5 h-3.5" />
+            <span>{book.notesCount} {book.notesCount === 1 ? 'note' : 'notes'}</span>
+          </div>
+          <BookStatusBadge status={book.status} compact />
         </div>
+        {progress !== undefined && book.status !== 'finished' && (
+          <div className="flex items-center gap-2 mt-2">
+            <Progress value={progress} className="h-1.5" />
+            <span className="text-[10px] text-muted-foreground tabular-nums">{progress}%</span>
+          </div>
+        )}
       </div>
 
       {/* Actions dropdown */}
@@ -0,0 +1,30 @@
+import { ReadingStatus } from '@/types';
+import { cn } from '@/lib/utils';
+import { readingStatusConfig } from '@/lib/readingStatus';
+
+interface BookStatusBadgeProps {
+  status: ReadingStatus;
+  compact?: boolean;
+  iconOnly?: boolean;
+  className?: string;
+}
+
+export function BookStatusBadge({ status, compact = false, iconOnly = false, className }: BookStatusBadgeProps) {
+  const config = readingStatusConfig[status] ?? readingStatusConfig.want_to_read;
+  const Icon = config.icon;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full font-medium whitespace-nowrap',
+        iconOnly ? 'p-1' : compact ? 'px-1.5 py-0.5 text-[10px]' : 'px-2 py-0.5 text-xs',
+        config.className,
+        className
+      )}
+      title={config.label}
+    >
+      <Icon className={compact || iconOnly ? 'w-2.5 h-2.5' : 'w-3 h-3'} />
+      {!iconOnly && config.label}
+    </span>
+  );
+}
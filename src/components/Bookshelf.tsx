@@ -1,4 +1,4 @@
-import { Book } from '@/types';
+import { Book, ReadingStatus } from '@/types';
 import { BookOpen, MoreVertical, Trash2, GripVertical, Pencil } from 'lucide-react';
 import { 
   DropdownMenu, 
@@ -13,12 +13,15 @@ import type { CSSProperties } from 'react';
 import { useBookMutations } from '@/api/hooks';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { BookStatusBadge } from './BookStatusBadge';
+import { readingStatusConfig, readingStatusOrder } from '@/lib/readingStatus';
 
 interface BookshelfProps {
   books: Book[];
   onBookClick: (bookId: string) => void;
   onDeleteBook: (bookId: string) => void;
   onEditBook?: (book: Book) => void;
+  onStatusChange?: (bookId: string, status: ReadingStatus) => void;
   onReorder?: () => void;
 }
 
@@ -27,6 +30,7 @@ interface BookSpineProps {
   onClick: () => void;
   onDelete: () => void;
   onEdit?: () => void;
+  onStatusChange?: (status: ReadingStatus) => void;
   isDragging?: boolean;
   isDragOver?: boolean;
   isTouchDragging?: boolean;
@@ -48,6 +52,7 @@ function BookSpine({
   onClick, 
   onDelete,
   onEdit,
+  onStatusChange,
   isDragging,
   isDragOver,
   isTouchDragging,
@@ -289,6 +294,30 @@ function BookSpine({
                 <DropdownMenuSeparator />
               </>
             )}
+            {onStatusChange && (
+              <>
+                {readingStatusOrder
+                  .filter((status) => status !== book.status)
+                  .map((status) => {
+                    const StatusIcon = readingStatusConfig[status].icon;
+                    return (
+                      <DropdownMenuItem
+                        key={status}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowMobileMenu(false);
+                          onStatusChange(status);
+                        }}
+                        className="gap-2 py-2.5 touch-manipulation"
+                      >
+                        <StatusIcon className="w-4 h-4" />
+                        {readingStatusConfig[status].label}
+                      </DropdownMenuItem>
+                    );
+                  })}
+                <DropdownMenuSeparator />
+              </>
+            )}
             <DropdownMenuItem 
               onClick={(e) => {
                 e.stopPropagation();
@@ -304,6 +333,11 @@ function BookSpine({
         </DropdownMenu>
       </div>
 
+      {/* Reading status chip */}
+      <div className="absolute -top-1 -left-1 z-10 pointer-events-none shadow-sm rounded-full">
+        <BookStatusBadge status={book.status} iconOnly />
+      </div>
+
       {/* Note count badge */}
       {book.notesCount > 0 && (
         <div className={cn(
@@ -317,7 +351,7 @@ function BookSpine({
   );
 }
 
-export function Bookshelf({ books, onBookClick, onDeleteBook, onEditBook, onReorder }: BookshelfProps) {
+export function Bookshelf({ books, onBookClick, onDeleteBook, onEditBook, onStatusChange, onReorder }: BookshelfProps) {
   const isMobile = useIsMobile();
   const [draggedBookId, setDraggedBookId] = useState<string | null>(null);
   const [dragOverBookId, setDragOverBookId] = useState<string | null>(null);
@@ -516,6 +550,7 @@ export function Bookshelf({ books, onBookClick, onDeleteBook, onEditBook, onReor
                     onClick={() => !touchDragId && onBookClick(book.id)}
                     onDelete={() => onDeleteBook(book.id)}
                     onEdit={onEditBook ? () => onEditBook(book) : undefined}
+                    onStatusChange={onStatusChange ? (status) => onStatusChange(book.id, status) : undefined}
                     isDragging={draggedBookId === book.id}
                     isDragOver={dragOverBookId === book.id && draggedBookId !== book.id && touchDragId !== book.id}
                     isTouchDragging={touchDragId === book.id}
@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Plus, X, Mic, Camera, PenLine } from 'lucide-react';
+import { Plus, X, Mic, Camera, PenLine, Timer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useHaptic } from '@/hooks/use-haptic';
@@ -9,6 +9,7 @@ interface CollapsibleFABProps {
   onAddNote: () => void;
   onStartRecording: () => void;
   onOpenCamera: () => void;
+  onStartSession?: () => void;
   cameraInputRef: React.RefObject<HTMLInputElement>;
 }
 
@@ -16,6 +17,7 @@ export function CollapsibleFAB({
   onAddNote, 
   onStartRecording, 
   onOpenCamera,
+  onStartSession,
   cameraInputRef 
 }: CollapsibleFABProps) {
   const isMobile = useIsMobile();
@@ -110,6 +112,9 @@ export function CollapsibleFAB({
         case 'note':
           onAddNote();
           break;
+        case 'session':
+          onStartSession?.();
+          break;
       }
       setIsExpanded(false);
     }
@@ -228,6 +233,32 @@ export function CollapsibleFAB({
         <PenLine className="w-5 h-5" />
       </Button>
 
+      {/* Outer diagonal - Reading session timer */}
+      {onStartSession && (
+        <Button
+          data-action="session"
+          size="icon"
+          onClick={() => handleAction(onStartSession)}
+          onTouchEnd={(e) => {
+            e.stopPropagation();
+            handleAction(onStartSession);
+          }}
+          onMouseEnter={() => setIsExpanded(true)}
+          className={cn(
+            "absolute h-12 w-12 md:h-11 md:w-11 rounded-full shadow-lg transition-all duration-300 touch-manipulation",
+            "bg-[hsl(200_35%_86%)] text-[hsl(200_35%_32%)] hover:bg-[hsl(200_40%_76%)] hover:scale-105",
+            "dark:bg-[hsl(200_25%_25%)] dark:text-[hsl(200_25%_85%)] dark:hover:bg-[hsl(200_30%_35%)]",
+            isExpanded 
+              ? "opacity-100 -translate-y-24 -translate-x-24 pointer-events-auto" 
+              : "opacity-0 translate-y-0 translate-x-0 pointer-events-none",
+            dragTarget === 'session' && "scale-110 ring-4 ring-[hsl(200_35%_70%)]/30"
+          )}
+          style={{ bottom: '0', right: '0' }}
+        >
+          <Timer className="w-5 h-5" />
+        </Button>
+      )}
+
       {/* Main FAB button */}
       <Button
         size="icon"
@@ -20,6 +20,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Plus, MoreVertical, Trash2, Edit, Library, FolderOpen } from 'lucide-react';
 import { toast } from 'sonner';
+import { useTrashUndo } from '@/hooks/use-trash-undo';
 
 interface CollectionManagerProps {
   selectedCollectionId?: string;
@@ -32,6 +33,7 @@ export function CollectionManager({
 }: CollectionManagerProps) {
   const { data: collections = [], isLoading } = useCollections();
   const { create, update, remove } = useCollectionMutations();
+  const showTrashUndo = useTrashUndo();
   const [isAddOpen, setIsAddOpen] = useState(false);
   const [editingCollection, setEditingCollection] = useState<Collection | null>(null);
   const [name, setName] = useState('');
@@ -137,7 +139,12 @@ export function CollectionManager({
                     Edit
                   </DropdownMenuItem>
                   <DropdownMenuItem 
-                    onClick={() => remove.mutate(collection.id, { onError: () => toast.error('Failed to delete collection') })}
+                    onClick={() =>
+                      remove.mutate(collection.id, {
+                        onSuccess: () => showTrashUndo('collection', collection.id, 'Collection moved to trash'),
+                        onError: () => toast.error('Failed to delete collection'),
+                      })
+                    }
                     className="text-destructive focus:text-destructive gap-2"
                   >
                     <Trash2 className="w-4 h-4" />
@@ -10,15 +10,17 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Book, BookFormat } from '@/types';
+import { Book, BookFormat, BookUpdate } from '@/types';
 import { Pencil, Smartphone, Headphones, Book as BookIcon, Save } from 'lucide-react';
 import { useHaptic } from '@/hooks/use-haptic';
+import { formatTimestamp, parseTimestamp } from '@/api/progress';
 
 interface EditBookDialogProps {
   book: Book | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (bookId: string, updates: { title: string; author: string; format: BookFormat; coverUrl?: string; isbn?: string }) => void;
+  // Only the fields the dialog edits; null clears one
+  onSave: (book: Book, updates: BookUpdate) => void;
 }
 
 const formatOptions: { value: BookFormat; label: string; icon: typeof BookIcon; description: string }[] = [
@@ -34,6 +36,8 @@ export function EditBookDialog({ book, open, onOpenChange, onSave }: EditBookDia
   const [format, setFormat] = useState<BookFormat>('physical');
   const [coverUrl, setCoverUrl] = useState('');
   const [isbn, setIsbn] = useState('');
+  const [totalPages, setTotalPages] = useState('');
+  const [totalDuration, setTotalDuration] = useState('');
 
   // Populate form when book changes
   useEffect(() => {
@@ -43,20 +47,26 @@ export function EditBookDialog({ book, open, onOpenChange, onSave }: EditBookDia
       setFormat(book.format);
       setCoverUrl(book.coverUrl || '');
       setIsbn(book.isbn || '');
+      setTotalPages(book.totalPages ? String(book.totalPages) : '');
+      setTotalDuration(book.totalDuration ? formatTimestamp(book.totalDuration) : '');
     }
   }, [book]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!book || !title.trim() || !author.trim()) return;
+
+    const pages = parseInt(totalPages, 10);
     
     success();
-    onSave(book.id, {
+    onSave(book, {
       title: title.trim(),
       author: author.trim(),
       format,
-      coverUrl: coverUrl.trim() || undefined,
-      isbn: isbn.trim() || undefined,
+      coverUrl: coverUrl.trim() || null,
+      isbn: isbn.trim() || null,
+      totalPages: pages > 0 ? pages : null,
+      totalDuration: parseTimestamp(totalDuration) || null,
     });
     
     onOpenChange(false);
@@ -122,6 +132,35 @@ export function EditBookDialog({ book, open, onOpenChange, onSave }: EditBookDia
               </div>
             </div>
             
+            {/* Book length drives the progress bar */}
+            {format === 'audiobook' ? (
+              <div className="space-y-2">
+                <Label htmlFor="edit-duration">Length (optional)</Label>
+                <Input
+                  id="edit-duration"
+                  placeholder="h:mm:ss"
+                  value={totalDuration}
+                  onChange={(e) => setTotalDuration(e.target.value)}
+                  className="bg-background"
+                  maxLength={10}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="edit-pages">Total pages (optional)</Label>
+                <Input
+                  id="edit-pages"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  placeholder="e.g. 320"
+                  value={totalPages}
+                  onChange={(e) => setTotalPages(e.target.value)}
+                  className="bg-background"
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="edit-cover">Cover URL (optional)</Label>
               <Input
@@ -8,24 +8,30 @@ import {
   ResponsiveDialogFooter,
 } from '@/components/ui/responsive-dialog';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { Note, NoteType, BookFormat } from '@/types';
+import { Note, NoteType, NoteUpdate, BookFormat } from '@/types';
 import { Quote, Lightbulb, HelpCircle, CheckCircle, Pencil, Lock, Globe, Save, ChevronDown, ChevronUp, Plus } from 'lucide-react';
 import { TagInput } from './TagInput';
+import { RelatedNotes } from './RelatedNotes';
+import { Backlinks } from './Backlinks';
+import { NoteHistory } from './NoteHistory';
+import { NoteLinkField } from './NoteLinkField';
+import { resolveNoteLinks } from '@/api/noteLinks';
 import { LocationInput, LocationData, formatLocation, parseLocation } from './LocationInput';
 import { getTypeStyles } from '@/lib/noteTypeInference';
-import { useNotes } from '@/api/hooks';
+import { useBooks, useNotes } from '@/api/hooks';
 import { useHaptic } from '@/hooks/use-haptic';
 
 interface EditNoteDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   note: Note | null;
-  onSave: (note: Note) => void;
+  // Only the fields the dialog edits; null clears one
+  onSave: (note: Note, updates: NoteUpdate) => void;
   bookFormat?: BookFormat;
+  // Switches the dialog to another note: a backlink or a related note
+  onOpenNote?: (note: Note) => void;
 }
 
 const noteTypes: { type: NoteType; icon: typeof Quote; label: string }[] = [
@@ -40,10 +46,12 @@ export function EditNoteDialog({
   onOpenChange, 
   note,
   onSave,
-  bookFormat = 'physical'
+  bookFormat = 'physical',
+  onOpenNote,
 }: EditNoteDialogProps) {
   const { success } = useHaptic();
   const { data: notesData } = useNotes();
+  const { data: booksData } = useBooks();
   const [content, setContent] = useState('');
   const [type, setType] = useState<NoteType>('idea');
   const [location, setLocation] = useState<LocationData>({});
@@ -60,18 +68,20 @@ export function EditNoteDialog({
     return Array.from(tagSet);
   }, [notesData]);
 
+  const loadNote = (source: Note) => {
+    setContent(source.content);
+    setType(source.type);
+    setLocation(source.location ? parseLocation(source.location) : {});
+    setContext(source.context || '');
+    setTags(source.tags || []);
+    setIsPrivate(source.isPrivate || false);
+    // Auto-expand details if note has tags or context
+    setShowDetails(!!(source.tags?.length || source.context));
+  };
+
   // Initialize form when note changes
   useEffect(() => {
-    if (note) {
-      setContent(note.content);
-      setType(note.type);
-      setLocation(note.location ? parseLocation(note.location) : {});
-      setContext(note.context || '');
-      setTags(note.tags || []);
-      setIsPrivate(note.isPrivate || false);
-      // Auto-expand details if note has tags or context
-      setShowDetails(!!(note.tags?.length || note.context));
-    }
+    if (note) loadNote(note);
   }, [note]);
 
   const handleSave = () => {
@@ -79,14 +89,15 @@ export function EditNoteDialog({
     
     success();
     const locationString = formatLocation(location);
+    // Hand-typed [[Book title]] / [[start of a note]] become id links
+    const links = { notes: notesData ?? [], books: booksData ?? [], selfId: note.id };
     
-    onSave({
-      ...note,
-      content: content.trim(),
+    onSave(note, {
+      content: resolveNoteLinks(content.trim(), links),
       type,
-      location: locationString || undefined,
-      context: context.trim() || undefined,
-      tags: tags.length > 0 ? tags : undefined,
+      location: locationString || null,
+      context: resolveNoteLinks(context.trim(), links) || null,
+      tags: tags.length > 0 ? tags : null,
       isPrivate,
     });
     
@@ -109,13 +120,19 @@ export function EditNoteDialog({
           {/* Content */}
           <div className="space-y-2">
             <Label htmlFor="edit-content" className="text-sm font-medium">Content</Label>
-            <Textarea
+            <NoteLinkField
               id="edit-content"
+              multiline
+              selfId={note.id}
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={setContent}
               className="min-h-[100px] sm:min-h-[120px] bg-background resize-none text-base"
               autoFocus
+              clozes
             />
+            <p className="text-xs text-muted-foreground">
+              Type [[ to link a book or another note; select a phrase and press Ctrl+Shift+C to quiz yourself on it
+            </p>
           </div>
 
           {/* Note Type */}
@@ -180,11 +197,12 @@ export function EditNoteDialog({
                 <Label htmlFor="edit-context" className="text-sm font-medium">
                   Why it matters <span className="text-muted-foreground font-normal">(optional)</span>
                 </Label>
-                <Input
+                <NoteLinkField
                   id="edit-context"
+                  selfId={note.id}
                   placeholder="Brief note on why you saved this..."
                   value={context}
-                  onChange={(e) => setContext(e.target.value)}
+                  onChange={setContext}
                   className="bg-background"
                 />
               </div>
@@ -216,6 +234,27 @@ export function EditNoteDialog({
               </div>
             </CollapsibleContent>
           </Collapsible>
+
+          <NoteHistory
+            note={note}
+            enabled={open}
+            // The restored note replaces the one being edited
+            onRestored={onOpenNote ?? loadNote}
+            className="pt-3 border-t border-border/50"
+          />
+
+          <Backlinks
+            noteId={note.id}
+            onSelect={onOpenNote}
+            className="pt-3 border-t border-border/50"
+          />
+
+          <RelatedNotes
+            noteId={note.id}
+            enabled={open}
+            onSelect={onOpenNote}
+            className="pt-3 border-t border-border/50"
+          />
         </ResponsiveDialogBody>
 
         {/* Actions */}
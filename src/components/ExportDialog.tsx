@@ -1,7 +1,8 @@
-import { useState } from 'react';
-import { Book, Note } from '@/types';
+import { useMemo, useState } from 'react';
+import { Book, Note, NoteScope } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import {
   ResponsiveDialog,
@@ -12,8 +13,15 @@ import {
   ResponsiveDialogBody,
   ResponsiveDialogFooter,
 } from '@/components/ui/responsive-dialog';
-import { Download, FileText, FileSpreadsheet, FileJson } from 'lucide-react';
+import { Download, FileText, FileSpreadsheet, FileJson, FileArchive, FolderArchive, GraduationCap, Printer } from 'lucide-react';
 import { exportToMarkdown, exportToCSV, exportToJSON } from '@/api/exportImport';
+import { exportNotesToObsidian } from '@/api/obsidianExport';
+import { exportNotesToPDF, PdfExportOptions } from '@/api/pdfExport';
+import { buildAnkiCards, exportCardsToAnkiTSV } from '@/api/ankiExport';
+import { selectNotesForScope } from '@/api/noteScope';
+import { useBooks, useFolders, useCollections, useSavedFilters, useAccountBackup, useNotes } from '@/api/hooks';
+import { NoteScopePicker } from './NoteScopePicker';
+import { toast } from 'sonner';
 
 interface ExportDialogProps {
   open: boolean;
@@ -23,7 +31,13 @@ interface ExportDialogProps {
   bookTitle?: string;
 }
 
-type ExportFormat = 'markdown' | 'csv' | 'json';
+type ExportFormat = 'markdown' | 'obsidian' | 'pdf' | 'csv' | 'json' | 'anki' | 'backup';
+
+const pdfOptions: { key: keyof PdfExportOptions; label: string }[] = [
+  { key: 'groupByBook', label: 'Group by book' },
+  { key: 'includeContext', label: 'Include context' },
+  { key: 'includeImages', label: 'Include covers and images' },
+];
 
 const formats: { value: ExportFormat; label: string; icon: typeof FileText; description: string }[] = [
   { 
@@ -32,6 +46,18 @@ const formats: { value: ExportFormat; label: string; icon: typeof FileText; desc
     icon: FileText, 
     description: 'Perfect for Obsidian, Notion, or any text editor' 
   },
+  {
+    value: 'obsidian',
+    label: 'Obsidian vault',
+    icon: FolderArchive,
+    description: 'One file per book with frontmatter, block links and images (.zip)',
+  },
+  {
+    value: 'pdf',
+    label: 'PDF',
+    icon: Printer,
+    description: 'Printable document with covers, note types and page images',
+  },
   { 
     value: 'csv', 
     label: 'CSV', 
@@ -44,12 +70,92 @@ const formats: { value: ExportFormat; label: string; icon: typeof FileText; desc
     icon: FileJson, 
     description: 'Full data backup, can be re-imported later' 
   },
+  {
+    value: 'anki',
+    label: 'Anki flashcards',
+    icon: GraduationCap,
+    description: 'AI flashcards and quote cloze cards as an Anki import file',
+  },
+  {
+    value: 'backup',
+    label: 'Full account backup',
+    icon: FileArchive,
+    description: 'Everything in your account, including photos, audio and covers (.zip)',
+  },
 ];
 
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export function ExportDialog({ open, onOpenChange, notes, books, bookTitle }: ExportDialogProps) {
   const [format, setFormat] = useState<ExportFormat>('markdown');
+  const { data: folders = [] } = useFolders();
+  const { data: collections = [] } = useCollections();
+  const { data: savedFilters = [] } = useSavedFilters();
+  const { exportArchive } = useAccountBackup();
+  const [preparing, setPreparing] = useState(false);
+  const [pdf, setPdf] = useState<PdfExportOptions>({ includeImages: true, includeContext: true, groupByBook: true });
+  const { data: allNotes = [] } = useNotes();
+  // `books` may be just the page's book (BookDetail); Anki scopes and decks need the library
+  const { data: allBooks = [] } = useBooks();
+  const allTags = useMemo(() => {
+    const tagSet = new Set<string>();
+    allNotes.forEach((n) => n.tags?.forEach((t) => tagSet.add(t)));
+    return Array.from(tagSet).sort();
+  }, [allNotes]);
+  const [ankiScope, setAnkiScope] = useState<NoteScope>({ kind: 'all' });
+
+  // "Notes in this view" uses the notes handed in; the other scopes pick from the whole library
+  const ankiCards = useMemo(() => {
+    if (format !== 'anki') return [];
+    const source = ankiScope.kind === 'all' ? notes : allNotes;
+    return buildAnkiCards(selectNotesForScope(source, ankiScope, { collections, savedFilters }), allBooks);
+  }, [format, ankiScope, notes, allNotes, collections, savedFilters, allBooks]);
 
   const handleExport = () => {
+    if (format === 'backup') {
+      exportArchive.mutate(undefined, {
+        onSuccess: (blob) => {
+          download(blob, `marginalia_backup_${new Date().toISOString().slice(0, 10)}.zip`);
+          onOpenChange(false);
+        },
+        onError: () => toast.error('Failed to create backup'),
+      });
+      return;
+    }
+
+    if (format === 'pdf') {
+      setPreparing(true);
+      exportNotesToPDF(notes, books, pdf, bookTitle ?? undefined)
+        .then((blob) => {
+          download(blob, `${bookTitle?.replace(/[^a-zA-Z0-9]/g, '_') || 'notes'}_export.pdf`);
+          onOpenChange(false);
+        })
+        .catch(() => toast.error('Failed to build PDF'))
+        .finally(() => setPreparing(false));
+      return;
+    }
+
+    if (format === 'obsidian') {
+      setPreparing(true);
+      exportNotesToObsidian(notes, books, folders)
+        .then((blob) => {
+          download(blob, `${bookTitle?.replace(/[^a-zA-Z0-9]/g, '_') || 'marginalia'}_obsidian.zip`);
+          onOpenChange(false);
+        })
+        .catch(() => toast.error('Failed to build Obsidian export'))
+        .finally(() => setPreparing(false));
+      return;
+    }
+
     let content: string;
     let filename: string;
     let mimeType: string;
@@ -68,22 +174,18 @@ export function ExportDialog({ open, onOpenChange, notes, books, bookTitle }: Ex
         mimeType = 'text/csv';
         break;
       case 'json':
-        content = exportToJSON(notes, books);
+        content = exportToJSON(notes, books, { folders, collections, savedFilters });
         filename = `${safeName}_export.json`;
         mimeType = 'application/json';
         break;
+      case 'anki':
+        content = exportCardsToAnkiTSV(ankiCards);
+        filename = `${safeName}_anki.txt`;
+        mimeType = 'text/tab-separated-values';
+        break;
     }
 
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
+    download(new Blob([content], { type: mimeType }), filename);
     onOpenChange(false);
   };
 
@@ -124,15 +226,48 @@ export function ExportDialog({ open, onOpenChange, notes, books, bookTitle }: Ex
               ))}
             </div>
           </RadioGroup>
+
+          {format === 'pdf' && (
+            <div className="mt-4 space-y-1">
+              {pdfOptions.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between py-1">
+                  <Label htmlFor={`pdf-${key}`} className="text-sm cursor-pointer">{label}</Label>
+                  <Switch
+                    id={`pdf-${key}`}
+                    checked={pdf[key]}
+                    onCheckedChange={(checked) => setPdf((prev) => ({ ...prev, [key]: checked }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {format === 'anki' && (
+            <div className="mt-4 space-y-2">
+              <Label className="text-sm font-medium block">Cards from</Label>
+              <NoteScopePicker
+                value={ankiScope}
+                onChange={setAnkiScope}
+                books={allBooks}
+                tags={allTags}
+                collections={collections}
+                savedFilters={savedFilters}
+                allLabel="Notes in this view"
+              />
+              <p className="text-xs text-muted-foreground">
+                {ankiCards.length} card{ankiCards.length !== 1 ? 's' : ''} · import with File → Import in Anki
+              </p>
+            </div>
+          )}
         </ResponsiveDialogBody>
 
         <ResponsiveDialogFooter>
           <Button variant="ghost" onClick={() => onOpenChange(false)} className="flex-1 sm:flex-initial">
             Cancel
           </Button>
-          <Button onClick={handleExport} className="gap-2 flex-1 sm:flex-initial">
+          <Button onClick={handleExport} disabled={preparing || exportArchive.isPending || (format === 'anki' && ankiCards.length === 0)} className="gap-2 flex-1 sm:flex-initial">
             <Download className="w-4 h-4" />
-            Export
+            {preparing || exportArchive.isPending ? 'Preparing...' : 'Export'}
           </Button>
         </ResponsiveDialogFooter>
       </ResponsiveDialogContent>
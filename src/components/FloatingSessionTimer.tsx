@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  ResponsiveDialog,
+  ResponsiveDialogContent,
+  ResponsiveDialogHeader,
+  ResponsiveDialogTitle,
+  ResponsiveDialogDescription,
+  ResponsiveDialogBody,
+  ResponsiveDialogFooter,
+} from '@/components/ui/responsive-dialog';
+import { Book, ReadingSession } from '@/types';
+import { useReadingSessionMutations } from '@/api/hooks';
+import { formatTimestamp, parseTimestamp } from '@/api/progress';
+import { Timer, Square, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useHaptic } from '@/hooks/use-haptic';
+import { toast } from 'sonner';
+
+interface FloatingSessionTimerProps {
+  book: Book;
+  session: ReadingSession;
+  className?: string;
+}
+
+export function FloatingSessionTimer({ book, session, className }: FloatingSessionTimerProps) {
+  const isMobile = useIsMobile();
+  const { medium, success } = useHaptic();
+  const { end, discard } = useReadingSessionMutations();
+  const isAudio = book.format === 'audiobook';
+  const [elapsed, setElapsed] = useState(0);
+  const [stopOpen, setStopOpen] = useState(false);
+  const [endValue, setEndValue] = useState('');
+
+  useEffect(() => {
+    const tick = () => setElapsed(Math.max(0, Math.floor((Date.now() - session.startedAt.getTime()) / 1000)));
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [session.startedAt]);
+
+  const openStop = () => {
+    medium();
+    setEndValue(
+      isAudio
+        ? book.currentPosition !== undefined ? formatTimestamp(book.currentPosition) : ''
+        : book.currentPage !== undefined ? String(book.currentPage) : ''
+    );
+    setStopOpen(true);
+  };
+
+  const handleSave = () => {
+    const page = !isAudio && endValue.trim() ? parseInt(endValue, 10) : undefined;
+    const position = isAudio && endValue.trim() ? parseTimestamp(endValue) : undefined;
+    if (endValue.trim() && (isAudio ? position === undefined : page === undefined || isNaN(page) || page < 0)) {
+      toast.error(isAudio ? 'Enter a position like 1:23:45' : 'Enter a page number');
+      return;
+    }
+
+    end.mutate(
+      { id: session.id, page, position },
+      {
+        onSuccess: (saved) => {
+          success();
+          setStopOpen(false);
+          const minutes = Math.max(1, Math.round((saved.durationSeconds ?? 0) / 60));
+          toast.success(`Session saved · ${minutes} min`);
+        },
+        onError: () => toast.error('Failed to save session'),
+      }
+    );
+  };
+
+  const handleDiscard = () => {
+    discard.mutate(session.id, {
+      onSuccess: () => {
+        setStopOpen(false);
+        toast.success('Session discarded');
+      },
+      onError: () => toast.error('Failed to discard session'),
+    });
+  };
+
+  return (
+    <>
+      <div
+        className={cn(
+          'fixed left-4 md:left-6 z-50',
+          isMobile ? 'bottom-[calc(56px+env(safe-area-inset-bottom)+16px)]' : 'bottom-6',
+          className
+        )}
+      >
+        <div className="flex items-center gap-2 rounded-full bg-card border border-border/60 shadow-xl pl-3 pr-1 py-1 animate-fade-in">
+          <Timer className="w-4 h-4 text-primary animate-pulse" />
+          <span className="text-sm font-medium tabular-nums text-foreground min-w-[3.5rem]">
+            {formatTimestamp(elapsed)}
+          </span>
+          <Button
+            size="icon"
+            variant="secondary"
+            onClick={openStop}
+            className="h-9 w-9 rounded-full touch-manipulation"
+            aria-label="Stop reading session"
+          >
+            <Square className="w-4 h-4 fill-current" />
+          </Button>
+        </div>
+      </div>
+
+      <ResponsiveDialog open={stopOpen} onOpenChange={setStopOpen}>
+        <ResponsiveDialogContent className="sm:max-w-sm">
+          <ResponsiveDialogHeader>
+            <ResponsiveDialogTitle className="flex items-center gap-2 font-display text-xl">
+              <Timer className="w-5 h-5 text-primary" />
+              End session
+            </ResponsiveDialogTitle>
+            <ResponsiveDialogDescription>
+              You read for {formatTimestamp(elapsed)}. Where did you stop?
+            </ResponsiveDialogDescription>
+          </ResponsiveDialogHeader>
+          <ResponsiveDialogBody className="space-y-2">
+            <Label htmlFor="session-end">{isAudio ? 'Position (h:mm:ss)' : 'Page'} (optional)</Label>
+            <Input
+              id="session-end"
+              value={endValue}
+              onChange={(e) => setEndValue(e.target.value)}
+              inputMode={isAudio ? 'text' : 'numeric'}
+              placeholder={isAudio ? '0:00:00' : 'e.g. 42'}
+              className="bg-background"
+            />
+          </ResponsiveDialogBody>
+          <ResponsiveDialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleDiscard}
+              disabled={discard.isPending}
+              className="flex-1 sm:flex-initial gap-2 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4" />
+              Discard
+            </Button>
+            <Button onClick={handleSave} disabled={end.isPending} className="flex-1 sm:flex-initial">
+              Save session
+            </Button>
+          </ResponsiveDialogFooter>
+        </ResponsiveDialogContent>
+      </ResponsiveDialog>
+    </>
+  );
+}
@@ -19,6 +19,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { FolderPlus, MoreVertical, Trash2, Edit, Folder as FolderIcon } from 'lucide-react';
 import { toast } from 'sonner';
+import { useTrashUndo } from '@/hooks/use-trash-undo';
 
 interface FolderManagerProps {
   selectedFolderId?: string;
@@ -38,6 +39,7 @@ const folderColors = [
 export function FolderManager({ selectedFolderId, onSelectFolder }: FolderManagerProps) {
   const { data: folders = [], isLoading } = useFolders();
   const { create, update, remove } = useFolderMutations();
+  const showTrashUndo = useTrashUndo();
   const [isAddOpen, setIsAddOpen] = useState(false);
   const [editingFolder, setEditingFolder] = useState<Folder | null>(null);
   const [name, setName] = useState('');
@@ -139,7 +141,12 @@ export function FolderManager({ selectedFolderId, onSelectFolder }: FolderManage
                   Edit
                 </DropdownMenuItem>
                 <DropdownMenuItem 
-                  onClick={() => remove.mutate(folder.id, { onError: () => toast.error('Failed to delete folder') })}
+                  onClick={() =>
+                    remove.mutate(folder.id, {
+                      onSuccess: () => showTrashUndo('folder', folder.id, 'Folder moved to trash'),
+                      onError: () => toast.error('Failed to delete folder'),
+                    })
+                  }
                   className="text-destructive focus:text-destructive gap-2"
                 >
                   <Trash2 className="w-4 h-4" />
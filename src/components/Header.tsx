@@ -1,4 +1,4 @@
-import { BookMarked, Search, User, Sparkles } from 'lucide-react';
+import { BookMarked, Search, User, Sparkles, Network, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -180,6 +180,14 @@ export function Header({ showSearch, onSearchClick, onShowWelcome, hasBooks, tit
                 <User className="w-4 h-4" />
                 My Profile
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/graph')} className="cursor-pointer gap-2 py-2">
+                <Network className="w-4 h-4" />
+                Knowledge graph
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/trash')} className="cursor-pointer gap-2 py-2">
+                <Trash2 className="w-4 h-4" />
+                Trash
+              </DropdownMenuItem>
               {hasBooks && onShowWelcome && (
                 <>
                   <DropdownMenuSeparator />
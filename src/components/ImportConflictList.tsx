@@ -0,0 +1,92 @@
+import { ConflictResolution, ImportConflict, ImportEntityKind, importEntityOrder } from '@/api/importMerge';
+import { cn } from '@/lib/utils';
+
+interface ImportConflictListProps {
+  conflicts: ImportConflict[];
+  resolutions: Record<string, ConflictResolution>;
+  onChange: (keys: string[], resolution: ConflictResolution) => void;
+}
+
+const kindLabels: Record<ImportEntityKind, string> = {
+  folder: 'Folders',
+  book: 'Books',
+  note: 'Notes',
+  collection: 'Collections',
+  savedFilter: 'Saved filters',
+};
+
+const matchLabels: Record<ImportConflict['matchedBy'], string> = {
+  id: 'same item',
+  import: 'imported before',
+  content: 'same content',
+};
+
+const resolutionOptions: { value: ConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'duplicate', label: 'Duplicate' },
+];
+
+function ResolutionToggle({
+  value,
+  onChange,
+}: {
+  value?: ConflictResolution;
+  onChange: (resolution: ConflictResolution) => void;
+}) {
+  return (
+    <div className="bg-muted/60 p-0.5 rounded-lg flex shrink-0">
+      {resolutionOptions.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'px-2 py-1 text-[11px] font-medium rounded-md transition-all touch-manipulation',
+            value === option.value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ImportConflictList({ conflicts, resolutions, onChange }: ImportConflictListProps) {
+  return (
+    <div className="space-y-3">
+      {importEntityOrder.map((kind) => {
+        const group = conflicts.filter((c) => c.kind === kind);
+        if (!group.length) return null;
+        const keys = group.map((c) => c.key);
+        const shared = keys.every((k) => resolutions[k] === resolutions[keys[0]]) ? resolutions[keys[0]] : undefined;
+
+        return (
+          <div key={kind} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs font-medium">
+                {kindLabels[kind]} already in your library ({group.length})
+              </p>
+              <ResolutionToggle value={shared} onChange={(resolution) => onChange(keys, resolution)} />
+            </div>
+            <ul className="max-h-40 overflow-y-auto rounded-xl border border-border/50 divide-y divide-border/50">
+              {group.map((conflict) => (
+                <li key={conflict.key} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                  <div className="min-w-0">
+                    <p className="truncate">{conflict.label}</p>
+                    <p className="text-[10px] text-muted-foreground">{matchLabels[conflict.matchedBy]}</p>
+                  </div>
+                  <ResolutionToggle
+                    value={resolutions[conflict.key]}
+                    onChange={(resolution) => onChange([conflict.key], resolution)}
+                  />
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -9,11 +9,22 @@ import {
   ResponsiveDialogBody,
   ResponsiveDialogFooter,
 } from '@/components/ui/responsive-dialog';
-import { Upload, FileJson, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileJson, FileText, FileSpreadsheet, FileArchive, AlertCircle, CheckCircle } from 'lucide-react';
 import { importFromJSON } from '@/api/exportImport';
-import { Book, Note } from '@/types';
-import { useBookMutations, useNoteMutations } from '@/api/hooks';
+import {
+  KindleParseResult,
+  parseKindleClippings,
+  kindleNoteType,
+  kindleLocation,
+} from '@/api/kindleClippings';
+import { LibraryParseResult, parseLibraryCSV } from '@/api/libraryCsv';
+import { findMatchingBook } from '@/api/books';
+import { useBooks, useNotes, useBookMutations, useNoteMutations, useBackupImport, useAccountBackup } from '@/api/hooks';
+import { BackupArchive } from '@/api/backup';
+import { ConflictResolution, ImportPlan } from '@/api/importMerge';
+import { ImportConflictList } from './ImportConflictList';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
 
 interface ImportDialogProps {
   open: boolean;
@@ -23,11 +34,35 @@ interface ImportDialogProps {
 export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<{ books: number; notes: number } | null>(null);
+  const [kindle, setKindle] = useState<KindleParseResult | null>(null);
+  const [library, setLibrary] = useState<LibraryParseResult | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
   const [error, setError] = useState<string | null>(null);
   const [importing, setImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: existingBooks = [] } = useBooks();
+  const { data: existingNotes = [] } = useNotes();
   const { create: createBook } = useBookMutations();
   const { create: createNote } = useNoteMutations();
+  const { plan: planImport, run: runImport } = useBackupImport();
+  const { plan: planRestore, restore } = useAccountBackup();
+
+  const isKindleFile = (f: File) => f.name.toLowerCase().endsWith('.txt');
+  const isLibraryFile = (f: File) => f.name.toLowerCase().endsWith('.csv');
+  const isArchiveFile = (f: File) => f.name.toLowerCase().endsWith('.zip');
+
+  const applyPlan = (result: ImportPlan) => {
+    setPlan(result);
+    setResolutions(Object.fromEntries(result.conflicts.map((c) => [c.key, 'skip' as const])));
+    setPreview({ books: result.data.books.length, notes: result.data.notes.length });
+  };
+
+  const libraryMatches = library
+    ? library.rows.map((row) => ({ row, match: findMatchingBook(existingBooks, row.title, row.author, row.isbn) }))
+    : [];
+  const newLibraryRows = libraryMatches.filter((m) => !m.match).map((m) => m.row);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -36,14 +71,54 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
     setFile(selectedFile);
     setError(null);
     setPreview(null);
+    setKindle(null);
+    setLibrary(null);
+    setPlan(null);
+    setArchive(null);
+    setResolutions({});
+
+    if (isArchiveFile(selectedFile)) {
+      planRestore.mutate(selectedFile, {
+        onSuccess: (result) => {
+          setArchive(result.archive);
+          applyPlan(result.plan);
+        },
+        onError: (err) =>
+          setError(err instanceof Error ? err.message : 'Failed to read backup. Please use a Marginalia .zip backup.'),
+      });
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
         const content = event.target?.result as string;
+        if (isKindleFile(selectedFile)) {
+          const parsed = parseKindleClippings(content);
+          if (parsed.books.length) {
+            setKindle(parsed);
+            setPreview({ books: parsed.books.length, notes: parsed.highlights + parsed.notes });
+          } else {
+            setError('No highlights or notes found. Please select the "My Clippings.txt" file from your Kindle.');
+          }
+          return;
+        }
+        if (isLibraryFile(selectedFile)) {
+          const parsed = parseLibraryCSV(content);
+          if (parsed) {
+            setLibrary(parsed);
+            setPreview({ books: parsed.rows.length, notes: 0 });
+          } else {
+            setError('Unrecognised CSV. Please use a Goodreads or StoryGraph library export.');
+          }
+          return;
+        }
         const data = importFromJSON(content);
         if (data) {
-          setPreview({ books: data.books.length, notes: data.notes.length });
+          planImport.mutate(data, {
+            onSuccess: applyPlan,
+            onError: () => setError('Failed to compare the backup with your library.'),
+          });
         } else {
           setError('Invalid file format. Please use a JSON file exported from Marginalia.');
         }
@@ -54,78 +129,150 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
     reader.readAsText(selectedFile);
   };
 
+  // Kindle clippings: match books by title/author, skip clippings already saved as notes
+  const importKindle = async (parsed: KindleParseResult) => {
+    let created = 0;
+    let skipped = 0;
+    for (const kindleBook of parsed.books) {
+      const match = findMatchingBook(existingBooks, kindleBook.title, kindleBook.author);
+      const bookId = match
+        ? match.id
+        : (await createBook.mutateAsync({
+            title: kindleBook.title,
+            author: kindleBook.author,
+            format: 'ebook',
+            status: 'reading',
+            imported: true,
+          })).id;
+      const saved = new Set(
+        existingNotes.filter((n) => n.bookId === bookId).map((n) => n.content.trim())
+      );
+      for (const clipping of kindleBook.clippings) {
+        if (saved.has(clipping.content)) {
+          skipped += 1;
+          continue;
+        }
+        await createNote.mutateAsync({
+          bookId,
+          type: kindleNoteType(clipping),
+          mediaType: 'text',
+          content: clipping.content,
+          location: kindleLocation(clipping),
+          context: clipping.highlight,
+          isPrivate: true,
+          createdAt: clipping.addedAt,
+        });
+        created += 1;
+      }
+    }
+    return { created, skipped };
+  };
+
+  // Library CSV: only books not already on the shelf are created
+  const importLibrary = async () => {
+    for (const row of newLibraryRows) {
+      await createBook.mutateAsync({
+        title: row.title,
+        author: row.author,
+        format: row.format,
+        isbn: row.isbn,
+        status: row.status,
+        startedAt: row.startedAt,
+        finishedAt: row.finishedAt,
+        rating: row.rating,
+        totalPages: row.totalPages,
+        tags: row.tags,
+        imported: true,
+      });
+    }
+    return newLibraryRows.length;
+  };
+
   const handleImport = async () => {
     if (!file) return;
 
     setImporting(true);
-    
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const content = event.target?.result as string;
-        const data = importFromJSON(content);
-        
-        if (data) {
-          // Simple sequential import: create new books/notes for this user
-          const run = async () => {
-            const idMap = new Map<string, string>();
-            for (const b of data.books) {
-              const created = await createBook.mutateAsync({
-                title: b.title,
-                author: b.author,
-                format: b.format,
-                coverUrl: b.coverUrl,
-                isbn: b.isbn,
-              });
-              idMap.set(b.id, created.id);
-            }
-            for (const n of data.notes) {
-              const bookId = idMap.get(n.bookId);
-              if (!bookId) continue;
-              await createNote.mutateAsync({
-                bookId,
-                type: n.type,
-                mediaType: n.mediaType,
-                content: n.content,
-                imageUrl: n.imageUrl,
-                extractedText: n.extractedText,
-                audioUrl: n.audioUrl,
-                audioDuration: n.audioDuration,
-                transcript: (n as any).transcript,
-                location: n.location,
-                timestamp: n.timestamp,
-                chapter: n.chapter,
-                context: n.context,
-                tags: n.tags,
-                aiSummary: n.aiSummary,
-                aiExpanded: n.aiExpanded,
-                aiFlashcard: n.aiFlashcard,
-                isPrivate: n.isPrivate ?? true,
-                reviewCount: n.reviewCount ?? 0,
-                lastReviewedAt: n.lastReviewedAt,
-                nextReviewAt: n.nextReviewAt,
-                folderId: undefined,
-              });
-            }
-            toast.success(`Imported ${data.books.length} books and ${data.notes.length} notes`);
+
+    if (library) {
+      importLibrary()
+        .then((created) => {
+          const skipped = library.rows.length - created;
+          toast.success(
+            `Imported ${created} book${created !== 1 ? 's' : ''}` +
+              (skipped ? ` (${skipped} already in your library)` : '')
+          );
+          onOpenChange(false);
+          reset();
+        })
+        .catch(() => setError('Failed to import library.'))
+        .finally(() => setImporting(false));
+      return;
+    }
+
+    if (kindle) {
+      importKindle(kindle)
+        .then(({ created, skipped }) => {
+          toast.success(
+            `Imported ${created} clipping${created !== 1 ? 's' : ''}` +
+              (skipped ? ` (${skipped} already in your library)` : '')
+          );
+          onOpenChange(false);
+          reset();
+        })
+        .catch(() => setError('Failed to import clippings.'))
+        .finally(() => setImporting(false));
+      return;
+    }
+
+    if (archive && plan) {
+      restore.mutate(
+        { archive, plan, resolutions },
+        {
+          onSuccess: ({ created, updated, skipped, media }) => {
+            toast.success(
+              `Restored ${created} new item${created !== 1 ? 's' : ''}` +
+                (updated ? `, updated ${updated}` : '') +
+                (skipped ? `, skipped ${skipped}` : '') +
+                (media ? ` and ${media} file${media !== 1 ? 's' : ''}` : '')
+            );
             onOpenChange(false);
-            setFile(null);
-            setPreview(null);
-          };
-          run().catch(() => {
-            setError('Failed to import data.');
-          }).finally(() => setImporting(false));
+            reset();
+          },
+          onError: () => setError('Failed to restore backup.'),
+          onSettled: () => setImporting(false),
         }
-      } catch {
-        setError('Failed to import data.');
-      }
-    };
-    reader.readAsText(file);
+      );
+      return;
+    }
+
+    if (plan) {
+      runImport.mutate(
+        { plan, resolutions },
+        {
+          onSuccess: ({ created, updated, skipped }) => {
+            toast.success(
+              `Imported ${created} new item${created !== 1 ? 's' : ''}` +
+                (updated ? `, updated ${updated}` : '') +
+                (skipped ? `, skipped ${skipped}` : '')
+            );
+            onOpenChange(false);
+            reset();
+          },
+          onError: () => setError('Failed to import data.'),
+          onSettled: () => setImporting(false),
+        }
+      );
+    }
   };
 
   const reset = () => {
     setFile(null);
     setPreview(null);
+    setKindle(null);
+    setLibrary(null);
+    setPlan(null);
+    setArchive(null);
+    setResolutions({});
     setError(null);
   };
 
@@ -138,7 +285,7 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
             Import Notes
           </ResponsiveDialogTitle>
           <ResponsiveDialogDescription>
-            Import notes from a previously exported Marginalia JSON file.
+            Import a Marginalia JSON export or .zip backup, your Kindle's "My Clippings.txt", or a Goodreads/StoryGraph library CSV.
           </ResponsiveDialogDescription>
         </ResponsiveDialogHeader>
 
@@ -146,7 +293,7 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.zip,.txt,.csv"
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -157,15 +304,23 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
               className="w-full p-6 sm:p-8 border-2 border-dashed border-border rounded-xl text-center hover:border-primary/50 transition-colors touch-manipulation active:bg-secondary/50"
             >
               <FileJson className="w-10 h-10 sm:w-12 sm:h-12 mx-auto text-muted-foreground mb-3" />
-              <p className="font-medium text-sm sm:text-base">Click to select a JSON file</p>
+              <p className="font-medium text-sm sm:text-base">Click to select a file</p>
               <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                Only Marginalia export files are supported
+                Marginalia JSON or .zip backup, Kindle "My Clippings.txt", Goodreads or StoryGraph CSV
               </p>
             </button>
           ) : (
             <div className="space-y-3 sm:space-y-4">
               <div className="flex items-center gap-3 p-3 rounded-xl bg-secondary">
-                <FileJson className="w-8 h-8 text-primary flex-shrink-0" />
+                {isKindleFile(file) ? (
+                  <FileText className="w-8 h-8 text-primary flex-shrink-0" />
+                ) : isLibraryFile(file) ? (
+                  <FileSpreadsheet className="w-8 h-8 text-primary flex-shrink-0" />
+                ) : isArchiveFile(file) ? (
+                  <FileArchive className="w-8 h-8 text-primary flex-shrink-0" />
+                ) : (
+                  <FileJson className="w-8 h-8 text-primary flex-shrink-0" />
+                )}
                 <div className="flex-1 min-w-0">
                   <p className="font-medium text-sm truncate">{file.name}</p>
                   <p className="text-xs text-muted-foreground">
@@ -189,10 +344,111 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
                   <CheckCircle className="w-5 h-5 shrink-0 mt-0.5" />
                   <div className="text-sm">
                     <p className="font-medium">Ready to import</p>
-                    <p>{preview.books} book{preview.books !== 1 ? 's' : ''} and {preview.notes} note{preview.notes !== 1 ? 's' : ''}</p>
+                    {library ? (
+                      <p>
+                        {newLibraryRows.length} new book{newLibraryRows.length !== 1 ? 's' : ''} from {library.source === 'goodreads' ? 'Goodreads' : 'StoryGraph'}
+                        {libraryMatches.length > newLibraryRows.length && `, ${libraryMatches.length - newLibraryRows.length} already in your library`}
+                      </p>
+                    ) : plan ? (
+                      <>
+                        <p>
+                          {plan.counts.book.total} book{plan.counts.book.total !== 1 ? 's' : ''}, {plan.counts.note.total} note{plan.counts.note.total !== 1 ? 's' : ''}
+                          {plan.counts.folder.total > 0 && `, ${plan.counts.folder.total} folder${plan.counts.folder.total !== 1 ? 's' : ''}`}
+                          {plan.counts.collection.total > 0 && `, ${plan.counts.collection.total} collection${plan.counts.collection.total !== 1 ? 's' : ''}`}
+                          {plan.counts.savedFilter.total > 0 && `, ${plan.counts.savedFilter.total} saved filter${plan.counts.savedFilter.total !== 1 ? 's' : ''}`}
+                        </p>
+                        {archive && (
+                          <p className="text-xs opacity-80">
+                            Backup from {format(new Date(archive.manifest.createdAt), 'MMM d, yyyy')}
+                            {archive.manifest.media.length > 0 &&
+                              ` · ${archive.manifest.media.length} media file${archive.manifest.media.length !== 1 ? 's' : ''}`}
+                          </p>
+                        )}
+                        {plan.conflicts.length > 0 && (
+                          <p className="text-xs opacity-80">
+                            {plan.conflicts.length} already in your library — choose what to do below
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <p>{preview.books} book{preview.books !== 1 ? 's' : ''} and {preview.notes} note{preview.notes !== 1 ? 's' : ''}</p>
+                    )}
                   </div>
                 </div>
               )}
+
+              {plan && plan.conflicts.length > 0 && (
+                <ImportConflictList
+                  conflicts={plan.conflicts}
+                  resolutions={resolutions}
+                  onChange={(keys, resolution) =>
+                    setResolutions((prev) => ({ ...prev, ...Object.fromEntries(keys.map((k) => [k, resolution])) }))
+                  }
+                />
+              )}
+
+              {library && (
+                <div className="space-y-2">
+                  <ul className="max-h-48 overflow-y-auto rounded-xl border border-border/50 divide-y divide-border/50">
+                    {libraryMatches.map(({ row, match }) => (
+                      <li key={row.line} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{row.title}</p>
+                          <p className="text-muted-foreground truncate">
+                            {row.author}
+                            {row.rating !== undefined && ` · ★ ${row.rating}`}
+                          </p>
+                        </div>
+                        <span className={match ? 'text-muted-foreground shrink-0' : 'text-success shrink-0'}>
+                          {match ? 'Skip · in library' : 'New'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {library.unmapped.length > 0 && (
+                    <div className="p-3 rounded-xl bg-destructive/10 text-destructive text-xs space-y-1">
+                      <p className="font-medium">
+                        {library.unmapped.length} row{library.unmapped.length !== 1 ? 's' : ''} could not be mapped
+                      </p>
+                      <ul className="max-h-24 overflow-y-auto space-y-0.5">
+                        {library.unmapped.map((u) => (
+                          <li key={u.line}>
+                            Line {u.line}{u.title ? ` (${u.title})` : ''}: {u.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {kindle && (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {kindle.highlights} highlight{kindle.highlights !== 1 ? 's' : ''} become quotes, {kindle.notes} note{kindle.notes !== 1 ? 's' : ''} become ideas
+                    {kindle.duplicates > 0 && ` · ${kindle.duplicates} edited duplicate${kindle.duplicates !== 1 ? 's' : ''} merged`}
+                  </p>
+                  <ul className="max-h-48 overflow-y-auto rounded-xl border border-border/50 divide-y divide-border/50">
+                    {kindle.books.map((b) => {
+                      const match = findMatchingBook(existingBooks, b.title, b.author);
+                      return (
+                        <li key={`${b.title}-${b.author}`} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{b.title}</p>
+                            <p className="text-muted-foreground truncate">{b.author}</p>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                            <span>{b.clippings.length}</span>
+                            <span className={match ? 'text-primary' : 'text-success'}>
+                              {match ? 'Existing' : 'New'}
+                            </span>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
         </ResponsiveDialogBody>
@@ -203,7 +459,7 @@ export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
           </Button>
           <Button 
             onClick={handleImport} 
-            disabled={!preview || importing}
+            disabled={!preview || importing || planImport.isPending || planRestore.isPending || (!!library && newLibraryRows.length === 0)}
             className="gap-2 flex-1 sm:flex-initial"
           >
             <Upload className="w-4 h-4" />
@@ -0,0 +1,406 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { GraphEdgeKind, GraphNode, KnowledgeGraph, graphNodeColor } from '@/api/knowledgeGraph';
+import type { GraphLayoutRequest, GraphLayoutTick } from '@/lib/graphLayout.worker';
+import { cn } from '@/lib/utils';
+
+interface KnowledgeGraphCanvasProps {
+  graph: KnowledgeGraph;
+  onNodeClick?: (node: GraphNode) => void;
+  className?: string;
+}
+
+interface View {
+  x: number;
+  y: number;
+  k: number;
+}
+
+const edgeColors: Record<GraphEdgeKind, string> = {
+  book: 'rgba(148, 163, 184, 0.35)',
+  folder: 'rgba(15, 118, 110, 0.35)',
+  collection: 'rgba(192, 38, 211, 0.3)',
+  tag: 'rgba(148, 163, 184, 0.2)',
+  link: 'rgba(225, 29, 72, 0.55)',
+};
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+
+const radius = (node: GraphNode) => {
+  const spread = Math.min(Math.sqrt(node.degree), 12);
+  switch (node.kind) {
+    case 'book':
+      return 6 + spread * 0.8;
+    case 'folder':
+      return 7 + spread * 0.6;
+    case 'collection':
+      return 5 + spread * 0.5;
+    case 'tag':
+      return 3 + spread * 0.6;
+    default:
+      return 3;
+  }
+};
+
+// Notes only get labels when zoomed in; everything else earlier
+const labelZoom = (node: GraphNode) => (node.kind === 'note' ? 1.8 : node.kind === 'tag' ? 0.9 : 0.5);
+
+// Canvas rendering so several thousand nodes stay smooth: edges are stroked in one path per
+// kind, nodes filled in one path per colour, and the force layout runs in a worker.
+export function KnowledgeGraphCanvas({ graph, onNodeClick, className }: KnowledgeGraphCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const runRef = useRef(0);
+  const positionsRef = useRef<Float32Array | null>(null);
+  // Last known position per node id, so filtering keeps the layout stable
+  const knownRef = useRef(new Map<string, [number, number]>());
+  const viewRef = useRef<View>({ x: 0, y: 0, k: 1 });
+  // Auto-fit until the user pans or zooms
+  const userMovedRef = useRef(false);
+  const hoverRef = useRef(-1);
+  const frameRef = useRef(0);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const pinchRef = useRef(0);
+
+  const layout = useMemo(() => {
+    const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+    const links = new Uint32Array(graph.edges.length * 2);
+    graph.edges.forEach((e, i) => {
+      links[i * 2] = index.get(e.source)!;
+      links[i * 2 + 1] = index.get(e.target)!;
+    });
+    const radii = graph.nodes.map(radius);
+    const byColor = new Map<string, number[]>();
+    graph.nodes.forEach((node, i) => {
+      const color = graphNodeColor(node);
+      if (!byColor.has(color)) byColor.set(color, []);
+      byColor.get(color)!.push(i);
+    });
+    return { links, radii, byColor: [...byColor.entries()] };
+  }, [graph]);
+
+  const draw = useCallback(() => {
+    frameRef.current = 0;
+    const canvas = canvasRef.current;
+    const positions = positionsRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = sizeRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (!positions || positions.length !== graph.nodes.length * 2) return;
+
+    const { x: tx, y: ty, k } = viewRef.current;
+    ctx.translate(tx, ty);
+    ctx.scale(k, k);
+    // Visible world rect, for skipping off-screen nodes and labels
+    const left = -tx / k;
+    const top = -ty / k;
+    const right = (width - tx) / k;
+    const bottom = (height - ty) / k;
+    const visible = (i: number, margin: number) => {
+      const x = positions[i * 2];
+      const y = positions[i * 2 + 1];
+      return x + margin >= left && x - margin <= right && y + margin >= top && y - margin <= bottom;
+    };
+
+    const hover = hoverRef.current;
+    const neighbours = new Set<number>();
+    if (hover >= 0) {
+      neighbours.add(hover);
+      for (let i = 0; i < layout.links.length; i += 2) {
+        if (layout.links[i] === hover) neighbours.add(layout.links[i + 1]);
+        else if (layout.links[i + 1] === hover) neighbours.add(layout.links[i]);
+      }
+    }
+
+    ctx.lineWidth = 1 / k;
+    ctx.globalAlpha = hover >= 0 ? 0.25 : 1;
+    const edgeKinds = Object.keys(edgeColors) as GraphEdgeKind[];
+    for (const kind of edgeKinds) {
+      ctx.beginPath();
+      graph.edges.forEach((edge, i) => {
+        if (edge.kind !== kind) return;
+        const s = layout.links[i * 2];
+        const t = layout.links[i * 2 + 1];
+        ctx.moveTo(positions[s * 2], positions[s * 2 + 1]);
+        ctx.lineTo(positions[t * 2], positions[t * 2 + 1]);
+      });
+      ctx.strokeStyle = edgeColors[kind];
+      ctx.stroke();
+    }
+
+    const fillNodes = (indices: Iterable<number>) => {
+      ctx.beginPath();
+      for (const i of indices) {
+        const r = layout.radii[i];
+        if (!visible(i, r)) continue;
+        ctx.moveTo(positions[i * 2] + r, positions[i * 2 + 1]);
+        ctx.arc(positions[i * 2], positions[i * 2 + 1], r, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    };
+    for (const [color, indices] of layout.byColor) {
+      ctx.fillStyle = color;
+      fillNodes(indices);
+    }
+
+    if (hover >= 0) {
+      ctx.globalAlpha = 1;
+      ctx.lineWidth = 1.5 / k;
+      ctx.beginPath();
+      for (let i = 0; i < layout.links.length; i += 2) {
+        const s = layout.links[i];
+        const t = layout.links[i + 1];
+        if (s !== hover && t !== hover) continue;
+        ctx.moveTo(positions[s * 2], positions[s * 2 + 1]);
+        ctx.lineTo(positions[t * 2], positions[t * 2 + 1]);
+      }
+      ctx.strokeStyle = graphNodeColor(graph.nodes[hover]);
+      ctx.stroke();
+      for (const i of neighbours) {
+        ctx.fillStyle = graphNodeColor(graph.nodes[i]);
+        fillNodes([i]);
+      }
+    }
+
+    // Labels in screen pixels, taking the text colour from the theme
+    ctx.globalAlpha = 1;
+    ctx.font = `${12 / k}px ui-sans-serif, system-ui, sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = getComputedStyle(canvas).color;
+    graph.nodes.forEach((node, i) => {
+      const highlighted = neighbours.has(i);
+      if (hover >= 0 && !highlighted) return;
+      if (!highlighted && k < labelZoom(node)) return;
+      if (!visible(i, 200 / k)) return;
+      ctx.fillText(node.label, positions[i * 2] + layout.radii[i] + 3 / k, positions[i * 2 + 1]);
+    });
+  }, [graph, layout]);
+
+  const requestDraw = useCallback(() => {
+    if (!frameRef.current) frameRef.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  const fit = useCallback(() => {
+    const positions = positionsRef.current;
+    const { width, height } = sizeRef.current;
+    if (!positions || !positions.length || !width || !height) return;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (let i = 0; i < positions.length; i += 2) {
+      minX = Math.min(minX, positions[i]);
+      maxX = Math.max(maxX, positions[i]);
+      minY = Math.min(minY, positions[i + 1]);
+      maxY = Math.max(maxY, positions[i + 1]);
+    }
+    const padding = 40;
+    const k = Math.min(
+      MAX_ZOOM / 4,
+      Math.max(MIN_ZOOM, Math.min((width - padding * 2) / (maxX - minX || 1), (height - padding * 2) / (maxY - minY || 1)))
+    );
+    viewRef.current = { k, x: width / 2 - ((minX + maxX) / 2) * k, y: height / 2 - ((minY + maxY) / 2) * k };
+  }, []);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../lib/graphLayout.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Lay out again whenever the graph changes, starting from where known nodes already are
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    const runId = ++runRef.current;
+    const initial = new Float32Array(graph.nodes.length * 2).fill(NaN);
+    graph.nodes.forEach((node, i) => {
+      const known = knownRef.current.get(node.id);
+      if (known) {
+        initial[i * 2] = known[0];
+        initial[i * 2 + 1] = known[1];
+      }
+    });
+    positionsRef.current = null;
+    hoverRef.current = -1;
+    requestDraw();
+
+    worker.onmessage = (event: MessageEvent<GraphLayoutTick>) => {
+      const { runId: id, positions, done } = event.data;
+      if (id !== runRef.current) return;
+      positionsRef.current = positions;
+      if (!userMovedRef.current) fit();
+      if (done) {
+        graph.nodes.forEach((node, i) => knownRef.current.set(node.id, [positions[i * 2], positions[i * 2 + 1]]));
+      }
+      requestDraw();
+    };
+    const request: GraphLayoutRequest = { type: 'layout', runId, weights: layout.radii, initial, links: layout.links };
+    worker.postMessage(request);
+    return () => worker.postMessage({ type: 'stop' });
+  }, [graph, layout, fit, requestDraw]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+    const observer = new ResizeObserver(() => {
+      const { width, height } = container.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      sizeRef.current = { width, height };
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      if (!userMovedRef.current) fit();
+      requestDraw();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [fit, requestDraw]);
+
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
+
+  const zoomAt = useCallback(
+    (sx: number, sy: number, factor: number) => {
+      const view = viewRef.current;
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.k * factor));
+      viewRef.current = { k, x: sx - ((sx - view.x) / view.k) * k, y: sy - ((sy - view.y) / view.k) * k };
+      userMovedRef.current = true;
+      requestDraw();
+    },
+    [requestDraw]
+  );
+
+  // Wheel needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(event.clientX - rect.left, event.clientY - rect.top, Math.exp(-event.deltaY * 0.0015));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  const hitTest = (sx: number, sy: number) => {
+    const positions = positionsRef.current;
+    if (!positions) return -1;
+    const { x: tx, y: ty, k } = viewRef.current;
+    const wx = (sx - tx) / k;
+    const wy = (sy - ty) / k;
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let i = 0; i < graph.nodes.length; i++) {
+      const dx = positions[i * 2] - wx;
+      const dy = positions[i * 2 + 1] - wy;
+      const distance = dx * dx + dy * dy;
+      // A few pixels of slack so small notes stay clickable when zoomed out
+      const reach = layout.radii[i] + 4 / k;
+      if (distance <= reach * reach && distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const localPoint = (event: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = localPoint(event);
+    pointersRef.current.set(event.pointerId, point);
+    if (pointersRef.current.size === 1) {
+      dragRef.current = { ...point, moved: false };
+    } else if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = Math.hypot(a.x - b.x, a.y - b.y);
+      dragRef.current = null;
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = localPoint(event);
+    if (pointersRef.current.has(event.pointerId)) pointersRef.current.set(event.pointerId, point);
+
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchRef.current) zoomAt((a.x + b.x) / 2, (a.y + b.y) / 2, distance / pinchRef.current);
+      pinchRef.current = distance;
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = point.x - drag.x;
+      const dy = point.y - drag.y;
+      if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+      drag.moved = true;
+      drag.x = point.x;
+      drag.y = point.y;
+      viewRef.current = { ...viewRef.current, x: viewRef.current.x + dx, y: viewRef.current.y + dy };
+      userMovedRef.current = true;
+      requestDraw();
+      return;
+    }
+
+    const hit = hitTest(point.x, point.y);
+    if (hit !== hoverRef.current) {
+      hoverRef.current = hit;
+      event.currentTarget.style.cursor = hit >= 0 ? 'pointer' : 'grab';
+      requestDraw();
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = 0;
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    const point = localPoint(event);
+    const hit = hitTest(point.x, point.y);
+    if (hit >= 0) onNodeClick?.(graph.nodes[hit]);
+  };
+
+  const handlePointerLeave = () => {
+    if (hoverRef.current === -1) return;
+    hoverRef.current = -1;
+    requestDraw();
+  };
+
+  return (
+    <div ref={containerRef} className={cn('relative overflow-hidden', className)}>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 touch-none text-foreground cursor-grab"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+        onDoubleClick={() => {
+          userMovedRef.current = false;
+          fit();
+          requestDraw();
+        }}
+      />
+    </div>
+  );
+}
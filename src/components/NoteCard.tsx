@@ -1,8 +1,8 @@
-import { Note, NoteType } from '@/types';
+import { Note, NoteType, NoteUpdate } from '@/types';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Quote, Lightbulb, HelpCircle, CheckCircle, MoreVertical, Trash2, Bookmark, Image, Mic, Clock, Lock, Globe, Pencil, ChevronRight } from 'lucide-react';
+import { Quote, Lightbulb, HelpCircle, CheckCircle, MoreVertical, Trash2, Bookmark, Image, Mic, Clock, Lock, Globe, Pencil, ChevronRight, Sparkles, Link2, CloudUpload, CloudOff, RotateCw, X } from 'lucide-react';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -11,20 +11,31 @@ import {
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
 import { format } from 'date-fns';
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useHaptic } from '@/hooks/use-haptic';
 import { getNoteAudioSignedUrl } from '@/api/storage';
+import { stripNoteLinks } from '@/api/noteLinks';
+import { SearchHighlight } from './SearchHighlight';
+import { RelatedNotes } from './RelatedNotes';
+import { Backlinks } from './Backlinks';
+import { NoteText } from './NoteText';
+import { useFailedCaptureMutations, useFailedCaptures, useNoteLinks } from '@/api/hooks';
+import { toast } from 'sonner';
 
 interface NoteCardProps {
   note: Note;
   onDelete: () => void;
-  onUpdate?: (note: Note) => void;
+  onUpdate?: (note: Note, updates: NoteUpdate) => void;
   onEdit?: () => void;
   onClick?: () => void;
   showBookTitle?: string;
   onBookClick?: () => void;
+  // Search snippet for where the note matched (content, context, transcript or OCR text)
+  searchHighlight?: string;
+  // Opens another note: a [[link]], a backlink or a related note
+  onOpenNote?: (note: Note) => void;
 }
 
 const noteTypeConfig: Record<NoteType, { icon: typeof Quote; label: string; color: string; bgColor: string }> = {
@@ -34,13 +45,20 @@ const noteTypeConfig: Record<NoteType, { icon: typeof Quote; label: string; colo
   action: { icon: CheckCircle, label: 'Action', color: 'text-emerald-600 dark:text-emerald-400', bgColor: 'bg-emerald-100/80 dark:bg-emerald-900/30' },
 };
 
-export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTitle, onBookClick }: NoteCardProps) {
+export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTitle, onBookClick, searchHighlight, onOpenNote }: NoteCardProps) {
   const config = noteTypeConfig[note.type];
   const Icon = config.icon;
   const isMobile = useIsMobile();
   const { light, warning, error } = useHaptic();
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
   const [audioLoading, setAudioLoading] = useState(false);
+  const [showRelated, setShowRelated] = useState(false);
+  const [showBacklinks, setShowBacklinks] = useState(false);
+  const { data: links } = useNoteLinks();
+  const backlinkCount = useMemo(
+    () => new Set((links ?? []).filter((l) => l.targetNoteId === note.id).map((l) => l.sourceNoteId)).size,
+    [links, note.id]
+  );
   
   // Swipe state
   const [swipeX, setSwipeX] = useState(0);
@@ -62,8 +80,8 @@ export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTi
       return;
     }
 
-    // If already a full URL, use directly
-    if (note.audioUrl.startsWith('http')) {
+    // If already a full URL (or a local recording waiting to sync), use directly
+    if (/^(https?|blob|data):/.test(note.audioUrl)) {
       setAudioSrc(note.audioUrl);
       setAudioLoading(false);
       return;
@@ -196,6 +214,17 @@ export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTi
             
             {/* Right side indicators */}
             <div className="flex items-center gap-2">
+              {note.syncFailed ? (
+                <FailedSyncActions noteId={note.id} />
+              ) : note.pendingSync && (
+                <span
+                  className="inline-flex items-center gap-1 text-[11px] font-medium text-amber-600 dark:text-amber-400"
+                  title="Saved on this device, waiting to sync"
+                >
+                  <CloudUpload className="w-3.5 h-3.5" />
+                  Not synced
+                </span>
+              )}
               {note.isPrivate && (
                 <Lock className="w-3.5 h-3.5 text-muted-foreground/60" />
               )}
@@ -228,7 +257,7 @@ export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTi
                       </DropdownMenuItem>
                     )}
                     <DropdownMenuItem 
-                      onClick={(e) => { e.stopPropagation(); onUpdate?.({ ...note, isPrivate: !note.isPrivate }); }}
+                      onClick={(e) => { e.stopPropagation(); onUpdate?.(note, { isPrivate: !note.isPrivate }); }}
                       className="gap-2"
                     >
                       {note.isPrivate ? <Globe className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
@@ -274,13 +303,18 @@ export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTi
             "text-[15px] leading-relaxed",
             note.type === 'quote' ? "font-serif italic text-foreground/90" : "text-foreground"
           )}>
-            {note.content}
+            <NoteText text={note.content} onOpenNote={onOpenNote} />
           </p>
 
+          {/* Search match, when it isn't just the content repeated */}
+          {searchHighlight && stripNoteLinks(searchHighlight.replace(/<\/?mark>/g, '')).trim() !== stripNoteLinks(note.content).trim() && (
+            <SearchHighlight text={stripNoteLinks(searchHighlight)} className="mt-2" />
+          )}
+
           {/* Context */}
           {note.context && (
             <p className="mt-2 text-sm text-muted-foreground italic">
-              "{note.context}"
+              "<NoteText text={note.context} onOpenNote={onOpenNote} />"
             </p>
           )}
 
@@ -325,9 +359,94 @@ export function NoteCard({ note, onDelete, onUpdate, onEdit, onClick, showBookTi
                 </button>
               </>
             )}
+            {backlinkCount > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowBacklinks(!showBacklinks);
+                }}
+                className={cn(
+                  "ml-auto flex items-center gap-1 text-xs text-muted-foreground/70 hover:text-foreground",
+                  showBacklinks && "text-primary"
+                )}
+              >
+                <Link2 className="w-3 h-3" />
+                {backlinkCount}
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowRelated(!showRelated);
+              }}
+              className={cn(
+                backlinkCount > 0 ? "ml-3" : "ml-auto",
+                "flex items-center gap-1 text-xs text-muted-foreground/70 hover:text-foreground",
+                showRelated && "text-primary"
+              )}
+            >
+              <Sparkles className="w-3 h-3" />
+              Related
+            </button>
           </div>
+
+          {showBacklinks && (
+            <Backlinks
+              noteId={note.id}
+              onSelect={onOpenNote}
+              className="mt-3"
+            />
+          )}
+
+          {showRelated && (
+            <RelatedNotes
+              noteId={note.id}
+              onSelect={onOpenNote}
+              className="mt-3"
+            />
+          )}
         </div>
       </div>
     </div>
   );
 }
+
+// A capture the server kept rejecting: it stays on this device until it is sent again or dropped
+function FailedSyncActions({ noteId }: { noteId: string }) {
+  const { data: failed } = useFailedCaptures();
+  const { retry, discard } = useFailedCaptureMutations();
+  const entry = failed?.find((f) => f.capture.id === noteId);
+
+  return (
+    <span className="inline-flex items-center gap-1 text-[11px] font-medium text-destructive" title={entry?.error}>
+      <CloudOff className="w-3.5 h-3.5" />
+      Not saved
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title="Try again"
+        disabled={!entry || retry.isPending}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (entry) retry.mutate(entry.capture);
+        }}
+      >
+        <RotateCw className="w-3.5 h-3.5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title="Discard"
+        disabled={discard.isPending}
+        onClick={(e) => {
+          e.stopPropagation();
+          discard.mutate(noteId, { onSuccess: () => toast.success('Unsaved note discarded') });
+        }}
+      >
+        <X className="w-3.5 h-3.5" />
+      </Button>
+    </span>
+  );
+}
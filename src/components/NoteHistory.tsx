@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronUp, History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Note, NoteRevision } from '@/types';
+import { Button } from '@/components/ui/button';
+import { useNoteRevisionMutations, useNoteRevisions } from '@/api/hooks';
+import { NoteRevisionField, changedNoteFields } from '@/api/noteRevisions';
+import { stripNoteLinks } from '@/api/noteLinks';
+import { diffWords } from '@/lib/textDiff';
+import { cn } from '@/lib/utils';
+
+interface NoteHistoryProps {
+  note: Note;
+  // Only fetch while the editor is open
+  enabled?: boolean;
+  onRestored?: (note: Note) => void;
+  className?: string;
+}
+
+const fieldLabels: Record<NoteRevisionField, string> = {
+  type: 'type',
+  content: 'text',
+  context: 'context',
+  chapter: 'chapter',
+  location: 'location',
+  tags: 'tags',
+  ai: 'AI fields',
+};
+
+function TextDiff({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(() => diffWords(stripNoteLinks(before), stripNoteLinks(after)), [before, after]);
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words leading-relaxed">
+      {parts.map((part, i) => (
+        <span
+          key={i}
+          className={cn(
+            part.type === 'removed' && 'bg-destructive/15 text-destructive line-through decoration-destructive/60',
+            part.type === 'added' && 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400'
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+// Earlier versions of a note, newest first. Each entry shows what the following edit changed
+// and can be put back.
+export function NoteHistory({ note, enabled = true, onRestored, className }: NoteHistoryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: revisions, isLoading, isError } = useNoteRevisions(note.id, enabled && expanded);
+  const { restore } = useNoteRevisionMutations();
+
+  // Pair each revision with the version that replaced it
+  const entries = useMemo(
+    () =>
+      (revisions ?? []).map((revision, i, all) => {
+        const next: Note | NoteRevision = i === 0 ? note : all[i - 1];
+        return { revision, next, changed: changedNoteFields(revision, next) };
+      }),
+    [revisions, note]
+  );
+
+  const handleRestore = (revision: NoteRevision) => {
+    restore.mutate(revision.id, {
+      onSuccess: (restored) => {
+        toast.success(`Restored the version from ${format(revision.versionAt, 'MMM d, h:mm a')}`);
+        setSelectedId(null);
+        onRestored?.(restored);
+      },
+      onError: () => toast.error('Failed to restore this version'),
+    });
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center justify-between text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <span className="flex items-center gap-1.5">
+          <History className="w-3.5 h-3.5" />
+          History {revisions && revisions.length > 0 && `(${revisions.length})`}
+        </span>
+        {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+      </button>
+
+      {expanded &&
+        (isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading history...</p>
+        ) : isError ? (
+          <p className="text-xs text-destructive">History is unavailable right now</p>
+        ) : entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No earlier versions. Each save keeps the previous one here.</p>
+        ) : (
+          <ol className="relative ml-1.5 border-l border-border/70 space-y-3">
+            {entries.map(({ revision, next, changed }) => {
+              const selected = selectedId === revision.id;
+              return (
+                <li key={revision.id} className="pl-4 relative">
+                  <span
+                    className={cn(
+                      'absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full border-2 border-background',
+                      selected ? 'bg-primary' : 'bg-muted-foreground/40'
+                    )}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(selected ? null : revision.id)}
+                    className="w-full text-left rounded-lg px-2.5 py-2 bg-secondary/40 hover:bg-secondary/70 transition-colors"
+                  >
+                    <span className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span title={format(revision.versionAt, 'PPpp')}>
+                        Version from {formatDistanceToNow(revision.versionAt, { addSuffix: true })}
+                      </span>
+                      <span className="truncate">
+                        {changed.length ? `Then changed ${changed.map((f) => fieldLabels[f]).join(', ')}` : 'No visible change'}
+                      </span>
+                    </span>
+                    {!selected && (
+                      <span className="block text-sm text-foreground mt-1 line-clamp-2">
+                        {stripNoteLinks(revision.content)}
+                      </span>
+                    )}
+                  </button>
+
+                  {selected && (
+                    <div className="mt-2 space-y-3 rounded-lg border border-border/60 p-3">
+                      <TextDiff before={revision.content} after={next.content} />
+                      {changed.includes('context') && (
+                        <div className="space-y-1">
+                          <p className="text-xs font-medium text-muted-foreground">Why it matters</p>
+                          <TextDiff before={revision.context ?? ''} after={next.context ?? ''} />
+                        </div>
+                      )}
+                      {(['type', 'chapter', 'location', 'tags'] as const)
+                        .filter((field) => changed.includes(field))
+                        .map((field) => {
+                          const show = (v: Note | NoteRevision) =>
+                            field === 'tags' ? (v.tags ?? []).map((t) => `#${t}`).join(' ') : v[field];
+                          return (
+                            <p key={field} className="text-xs text-muted-foreground">
+                              <span className="capitalize">{fieldLabels[field]}</span>:{' '}
+                              <span className="line-through">{show(revision) || 'none'}</span> → {show(next) || 'none'}
+                            </p>
+                          );
+                        })}
+                      {changed.includes('ai') && (
+                        <p className="text-xs text-muted-foreground">AI summary, expansion or flashcard changed too.</p>
+                      )}
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-[11px] text-muted-foreground">
+                          <span className="text-destructive">Removed</span> and{' '}
+                          <span className="text-emerald-700 dark:text-emerald-400">added</span> by the next edit
+                        </p>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(revision)}
+                          disabled={restore.isPending}
+                          className="gap-1.5 h-8"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          Restore this version
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useRef, useState } from 'react';
+import { BookOpen, StickyNote } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useBooks, useNotes } from '@/api/hooks';
+import { NoteLinkSuggestion, suggestNoteLinks } from '@/api/noteLinks';
+import { wrapCloze } from '@/api/cloze';
+import { cn } from '@/lib/utils';
+
+interface NoteLinkFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  // The note being edited, so it isn't offered as a link to itself
+  selfId?: string;
+  id?: string;
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+  // Ctrl/Cmd+Shift+C hides the selection as the next {{cN::...}} cloze, as in Anki
+  clozes?: boolean;
+}
+
+// Text field that offers books and notes to link once "[[" is typed
+export function NoteLinkField({
+  value,
+  onChange,
+  multiline,
+  selfId,
+  id,
+  placeholder,
+  className,
+  autoFocus,
+  clozes,
+}: NoteLinkFieldProps) {
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const { data: notes = [] } = useNotes();
+  const { data: books = [] } = useBooks();
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const suggestions = focused && !dismissed ? suggestNoteLinks(value, caret, { notes, books, selfId }) : [];
+  const open = suggestions.length > 0;
+
+  const update = (next: string, nextCaret: number) => {
+    onChange(next);
+    setCaret(nextCaret);
+    setActive(0);
+    setDismissed(false);
+  };
+
+  const accept = (suggestion: NoteLinkSuggestion) => {
+    const next = value.slice(0, suggestion.from) + suggestion.insert + value.slice(suggestion.to);
+    const nextCaret = suggestion.from + suggestion.insert.length;
+    update(next, nextCaret);
+    requestAnimationFrame(() => fieldRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (clozes && (e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'c') {
+      const { selectionStart: from, selectionEnd: to } = e.currentTarget;
+      if (from === null || to === null || from === to) return;
+      e.preventDefault();
+      const wrapped = wrapCloze(value, from, to);
+      update(wrapped.text, wrapped.caret);
+      requestAnimationFrame(() => fieldRef.current?.setSelectionRange(wrapped.caret, wrapped.caret));
+      return;
+    }
+    if (!open) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      // Close the picker, not the dialog around it
+      e.stopPropagation();
+      setDismissed(true);
+    }
+  };
+
+  const fieldProps = {
+    ref: fieldRef,
+    id,
+    value,
+    placeholder,
+    autoFocus,
+    className,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      update(e.target.value, e.target.selectionStart ?? e.target.value.length),
+    onSelect: (e: React.SyntheticEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setCaret(e.currentTarget.selectionStart ?? value.length),
+    onKeyDown: handleKeyDown,
+    onFocus: () => setFocused(true),
+    onBlur: () => setFocused(false),
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <Textarea {...fieldProps} /> : <Input {...fieldProps} />}
+
+      {open && (
+        <ul className="absolute z-50 left-0 right-0 top-full mt-1 max-h-64 overflow-y-auto rounded-xl border border-border/50 bg-popover shadow-lg">
+          {suggestions.map((suggestion, i) => {
+            const Icon = suggestion.kind === 'book' ? BookOpen : StickyNote;
+            return (
+              <li key={`${suggestion.kind}:${suggestion.id}`}>
+                <button
+                  type="button"
+                  // Keep focus in the field so the list doesn't close before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => accept(suggestion)}
+                  className={cn(
+                    'w-full flex items-center gap-2 px-3 py-2 text-left text-sm touch-manipulation',
+                    i === active ? 'bg-secondary' : 'hover:bg-secondary/60'
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+                  <span className="truncate flex-1">{suggestion.label}</span>
+                  {suggestion.hint && <span className="text-xs text-muted-foreground truncate max-w-[40%]">{suggestion.hint}</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
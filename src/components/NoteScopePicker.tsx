@@ -0,0 +1,92 @@
+import { Book, Collection, NoteScope, SavedFilter } from '@/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface NoteScopePickerProps {
+  value: NoteScope;
+  onChange: (scope: NoteScope) => void;
+  books: Book[];
+  tags: string[];
+  collections: Collection[];
+  savedFilters: SavedFilter[];
+  // What "all" means where the picker is used
+  allLabel?: string;
+}
+
+const kindLabels: Record<Exclude<NoteScope['kind'], 'all'>, string> = {
+  book: 'Book',
+  tag: 'Tag',
+  collection: 'Collection',
+  savedFilter: 'Saved filter',
+};
+
+export function NoteScopePicker({
+  value,
+  onChange,
+  books,
+  tags,
+  collections,
+  savedFilters,
+  allLabel = 'All notes',
+}: NoteScopePickerProps) {
+  const options: Record<Exclude<NoteScope['kind'], 'all'>, { value: string; label: string }[]> = {
+    book: books.map((b) => ({ value: b.id, label: b.title })),
+    tag: tags.map((t) => ({ value: t, label: `#${t}` })),
+    collection: collections.map((c) => ({ value: c.id, label: c.name })),
+    savedFilter: savedFilters.map((f) => ({ value: f.id, label: f.name })),
+  };
+
+  const selectKind = (kind: NoteScope['kind']) => {
+    if (kind === 'all') return onChange({ kind });
+    const first = options[kind][0]?.value ?? '';
+    onChange(kind === 'tag' ? { kind, tag: first } : { kind, id: first });
+  };
+
+  const selected = value.kind === 'all' ? undefined : value.kind === 'tag' ? value.tag : value.id;
+  const labels: Record<NoteScope['kind'], string> = { all: allLabel, ...kindLabels };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={value.kind} onValueChange={(v) => selectKind(v as NoteScope['kind'])}>
+        <SelectTrigger className="h-9 text-xs flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(labels) as NoteScope['kind'][]).map((kind) => (
+            <SelectItem
+              key={kind}
+              value={kind}
+              disabled={kind !== 'all' && options[kind].length === 0}
+              className="text-xs"
+            >
+              {labels[kind]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.kind !== 'all' && (
+        <Select
+          value={selected}
+          onValueChange={(v) => onChange(value.kind === 'tag' ? { kind: 'tag', tag: v } : { kind: value.kind, id: v })}
+        >
+          <SelectTrigger className="h-9 text-xs flex-1 min-w-0">
+            <SelectValue placeholder={`Choose ${kindLabels[value.kind].toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {options[value.kind].map((option) => (
+              <SelectItem key={option.value} value={option.value} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookOpen } from 'lucide-react';
+import { Note } from '@/types';
+import { useNotes } from '@/api/hooks';
+import { parseNoteText } from '@/api/noteLinks';
+import { parseCloze } from '@/api/cloze';
+import { cn } from '@/lib/utils';
+
+interface NoteTextProps {
+  text: string;
+  // Opens a linked note; book links go to the book's page
+  onOpenNote?: (note: Note) => void;
+  // The cloze being reviewed; hidden until revealed
+  cloze?: { active: number; revealed: boolean };
+  className?: string;
+}
+
+// Plain text with {{c1::...}} markup: the cloze under review is hidden (or highlighted once
+// revealed), the others read as ordinary text
+function ClozeText({ text, cloze }: { text: string; cloze?: NoteTextProps['cloze'] }) {
+  const segments = parseCloze(text);
+  if (segments.every((s) => s.type === 'text')) return <>{text}</>;
+  return (
+    <>
+      {segments.map((segment, i) => {
+        if (segment.type === 'text') return <span key={i}>{segment.text}</span>;
+        if (segment.cloze !== cloze?.active) {
+          return (
+            <span key={i} className={cloze ? undefined : 'underline decoration-dotted decoration-primary/50 underline-offset-4'}>
+              {segment.answer}
+            </span>
+          );
+        }
+        return cloze.revealed ? (
+          <mark key={i} className="rounded px-0.5 bg-primary/15 text-foreground font-medium animate-fade-in">
+            {segment.answer}
+          </mark>
+        ) : (
+          <span key={i} className="not-italic font-sans text-[0.9em] rounded px-1.5 text-primary bg-primary/10">
+            [{segment.hint ?? '…'}]
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+// Note text with [[links]] shown as clickable chips and cloze markup resolved
+export function NoteText({ text, onOpenNote, cloze, className }: NoteTextProps) {
+  const navigate = useNavigate();
+  const { data: notes } = useNotes();
+  const segments = useMemo(() => parseNoteText(text), [text]);
+  const noteMap = useMemo(() => new Map((notes ?? []).map((n) => [n.id, n])), [notes]);
+
+  if (segments.every((s) => s.type === 'text')) {
+    return (
+      <span className={className}>
+        <ClozeText text={text} cloze={cloze} />
+      </span>
+    );
+  }
+
+  return (
+    <span className={className}>
+      {segments.map((segment, i) => {
+        if (segment.type === 'text') {
+          return (
+            <span key={i}>
+              <ClozeText text={segment.text} cloze={cloze} />
+            </span>
+          );
+        }
+        const target = segment.kind === 'note' ? noteMap.get(segment.id) : undefined;
+        const clickable = segment.kind === 'book' || (!!target && !!onOpenNote);
+        return (
+          <button
+            key={i}
+            type="button"
+            disabled={!clickable}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (segment.kind === 'book') navigate(`/book/${segment.id}`);
+              else if (target) onOpenNote?.(target);
+            }}
+            className={cn(
+              'inline-flex items-baseline gap-1 not-italic font-sans text-[0.9em] rounded px-1 -mx-0.5',
+              'text-primary bg-primary/8 hover:bg-primary/15 disabled:hover:bg-primary/8 transition-colors'
+            )}
+          >
+            {segment.kind === 'book' && <BookOpen className="w-3 h-3 self-center" />}
+            {segment.label}
+          </button>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Book } from '@/types';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useBookProgress, useProgressMutations } from '@/api/hooks';
+import { formatTimestamp, getProgressPercent, parseTimestamp } from '@/api/progress';
+import { TrendingUp, PenLine } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+interface ReadingProgressCardProps {
+  book: Book;
+}
+
+export function ReadingProgressCard({ book }: ReadingProgressCardProps) {
+  const isAudio = book.format === 'audiobook';
+  const { data: history = [] } = useBookProgress(book.id);
+  const { log } = useProgressMutations();
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+
+  const percent = getProgressPercent(book);
+  const current = isAudio
+    ? book.currentPosition !== undefined ? formatTimestamp(book.currentPosition) : undefined
+    : book.currentPage !== undefined ? `p. ${book.currentPage}` : undefined;
+  const total = isAudio
+    ? book.totalDuration ? formatTimestamp(book.totalDuration) : undefined
+    : book.totalPages ? `${book.totalPages}` : undefined;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setValue(
+        isAudio
+          ? book.currentPosition !== undefined ? formatTimestamp(book.currentPosition) : ''
+          : book.currentPage !== undefined ? String(book.currentPage) : ''
+      );
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const position = isAudio
+      ? { positionSeconds: parseTimestamp(value) }
+      : { page: parseInt(value, 10) };
+    const parsed = isAudio ? position.positionSeconds : position.page;
+    if (parsed === undefined || isNaN(parsed) || parsed < 0) {
+      toast.error(isAudio ? 'Enter a position like 1:23:45' : 'Enter a page number');
+      return;
+    }
+
+    log.mutate(
+      { bookId: book.id, ...position },
+      {
+        onSuccess: () => {
+          setOpen(false);
+          toast.success('Progress updated');
+        },
+        onError: () => toast.error('Failed to update progress'),
+      }
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-card/60 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+          <TrendingUp className="w-4 h-4 text-primary" />
+          Progress
+        </div>
+        <Popover open={open} onOpenChange={handleOpenChange}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 gap-1 text-xs touch-manipulation">
+              <PenLine className="w-3.5 h-3.5" />
+              Update
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-56 p-3">
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {isAudio ? 'Current position (h:mm:ss)' : 'Current page'}
+              </p>
+              <Input
+                autoFocus
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                inputMode={isAudio ? 'text' : 'numeric'}
+                placeholder={isAudio ? '0:00:00' : 'e.g. 42'}
+                className="h-9"
+              />
+              <Button type="submit" size="sm" className="w-full" disabled={!value.trim() || log.isPending}>
+                Save
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {percent !== undefined && <Progress value={percent} className="h-2" />}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {current
+            ? total ? `${current} of ${total}` : current
+            : 'No progress logged yet'}
+        </span>
+        {percent !== undefined && <span className="tabular-nums">{percent}%</span>}
+      </div>
+
+      {!total && (
+        <p className="text-[11px] text-muted-foreground/80">
+          Add the book's {isAudio ? 'length' : 'page count'} when editing it to see a percentage.
+        </p>
+      )}
+
+      {history[0] && (
+        <p className="text-[11px] text-muted-foreground/80">
+          Last updated {formatDistanceToNow(history[0].createdAt, { addSuffix: true })}
+          {history[0].noteId && ' from a note'}
+        </p>
+      )}
+    </div>
+  );
+}
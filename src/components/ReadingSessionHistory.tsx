@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Book } from '@/types';
+import { useReadingSessions } from '@/api/hooks';
+import { formatTimestamp } from '@/api/progress';
+import { totalReadingSeconds } from '@/api/readingSessions';
+import { Clock, PenLine } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ReadingSessionHistoryProps {
+  book: Book;
+}
+
+const formatMinutes = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export function ReadingSessionHistory({ book }: ReadingSessionHistoryProps) {
+  const { data: sessions = [] } = useReadingSessions(book.id);
+  const [showAll, setShowAll] = useState(false);
+
+  if (sessions.length === 0) return null;
+
+  const isAudio = book.format === 'audiobook';
+  const visible = showAll ? sessions : sessions.slice(0, 3);
+
+  const describeRange = (start?: number, end?: number) => {
+    const fmt = (value: number) => (isAudio ? formatTimestamp(value) : `p. ${value}`);
+    if (start !== undefined && end !== undefined) return `${fmt(start)} → ${fmt(end)}`;
+    if (end !== undefined) return `to ${fmt(end)}`;
+    return null;
+  };
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-card/60 p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-1.5 font-medium text-foreground">
+          <Clock className="w-4 h-4 text-primary" />
+          Reading sessions
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {formatMinutes(totalReadingSeconds(sessions))} total
+        </span>
+      </div>
+
+      <ul className="divide-y divide-border/50">
+        {visible.map((session) => {
+          const range = isAudio
+            ? describeRange(session.startPosition, session.endPosition)
+            : describeRange(session.startPage, session.endPage);
+          return (
+            <li key={session.id} className="flex items-center justify-between gap-2 py-1.5 text-xs">
+              <span className="text-foreground">{format(session.startedAt, 'MMM d, h:mm a')}</span>
+              <span className="flex items-center gap-2 text-muted-foreground">
+                {range && <span>{range}</span>}
+                {session.noteIds.length > 0 && (
+                  <span className="inline-flex items-center gap-0.5">
+                    <PenLine className="w-3 h-3" />
+                    {session.noteIds.length}
+                  </span>
+                )}
+                <span className="tabular-nums">{formatMinutes(session.durationSeconds ?? 0)}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {sessions.length > 3 && (
+        <button
+          onClick={() => setShowAll((v) => !v)}
+          className="text-xs text-primary touch-manipulation active:opacity-70"
+        >
+          {showAll ? 'Show less' : `Show all ${sessions.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
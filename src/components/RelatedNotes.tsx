@@ -0,0 +1,82 @@
+import { useMemo } from 'react';
+import { Sparkles } from 'lucide-react';
+import { Note } from '@/types';
+import { useBooks, useNotes, useRelatedNotes } from '@/api/hooks';
+import { stripNoteLinks } from '@/api/noteLinks';
+import { stripCloze } from '@/api/cloze';
+import { cn } from '@/lib/utils';
+
+interface RelatedNotesProps {
+  noteId: string;
+  onSelect?: (note: Note) => void;
+  // Only fetch while visible (e.g. a collapsed panel)
+  enabled?: boolean;
+  className?: string;
+}
+
+const typeDot: Record<Note['type'], string> = {
+  quote: 'bg-amber-500',
+  idea: 'bg-sky-500',
+  question: 'bg-violet-500',
+  action: 'bg-emerald-500',
+};
+
+// Notes from other books that read as the same idea, closest first
+export function RelatedNotes({ noteId, onSelect, enabled = true, className }: RelatedNotesProps) {
+  const { data: related, isLoading, isError } = useRelatedNotes(noteId, enabled);
+  const { data: notesData } = useNotes();
+  const { data: booksData } = useBooks();
+
+  const items = useMemo(() => {
+    const noteMap = new Map((notesData ?? []).map((n) => [n.id, n]));
+    const bookMap = new Map((booksData ?? []).map((b) => [b.id, b]));
+    return (related ?? [])
+      .map((hit) => {
+        const note = noteMap.get(hit.noteId);
+        return note ? { note, book: bookMap.get(note.bookId), similarity: hit.similarity } : null;
+      })
+      .filter((item): item is NonNullable<typeof item> => !!item);
+  }, [related, notesData, booksData]);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+        <Sparkles className="w-3.5 h-3.5" />
+        Related notes
+      </p>
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Finding related notes...</p>
+      ) : isError ? (
+        <p className="text-xs text-destructive">Related notes are unavailable right now</p>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No related notes from other books yet</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {items.map(({ note, book, similarity }) => (
+            <li key={note.id}>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect?.(note);
+                }}
+                disabled={!onSelect}
+                className="w-full text-left rounded-lg px-2.5 py-2 bg-secondary/40 hover:bg-secondary/70 disabled:hover:bg-secondary/40 transition-colors"
+              >
+                <span className="flex items-start gap-2">
+                  <span className={cn('mt-1.5 w-1.5 h-1.5 rounded-full shrink-0', typeDot[note.type])} />
+                  <span className="min-w-0 flex-1">
+                    <span className="block text-sm text-foreground line-clamp-2">{stripCloze(stripNoteLinks(note.content))}</span>
+                    <span className="block text-xs text-muted-foreground mt-0.5 truncate">
+                      {book?.title ?? 'Unknown book'} · {Math.round(similarity * 100)}% similar
+                    </span>
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import { addDays, format, startOfWeek, subDays } from 'date-fns';
+import { Brain, CalendarClock, Flame } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { useReviewDailyStats, useReviewForecast } from '@/api/hooks';
+import { summarizeRetention } from '@/api/reviewStats';
+import { cn } from '@/lib/utils';
+
+const HEATMAP_WEEKS = 53;
+const FORECAST_DAYS = 30;
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+const percent = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+// Darker cells for busier days, relative to the busiest one
+const heatClass = (count: number, max: number) => {
+  if (!count) return 'bg-muted';
+  const level = count / max;
+  if (level > 0.75) return 'bg-primary';
+  if (level > 0.5) return 'bg-primary/75';
+  if (level > 0.25) return 'bg-primary/50';
+  return 'bg-primary/30';
+};
+
+export function ReviewAnalytics() {
+  const { data: days = [], isLoading } = useReviewDailyStats(HEATMAP_WEEKS * 7);
+  const { data: forecast = [] } = useReviewForecast(FORECAST_DAYS);
+
+  const today = new Date();
+  const last30 = summarizeRetention(days, dayKey(subDays(today, 29)));
+
+  const forecastDays = useMemo(() => {
+    const due = new Map(forecast.map((d) => [d.day, d.due]));
+    return Array.from({ length: FORECAST_DAYS }, (_, i) => {
+      const date = addDays(new Date(), i);
+      return { date, due: due.get(dayKey(date)) ?? 0 };
+    });
+  }, [forecast]);
+  const maxDue = Math.max(1, ...forecastDays.map((d) => d.due));
+
+  // Columns are weeks (Sunday first), oldest on the left, ending with the current week
+  const heatmap = useMemo(() => {
+    const counts = new Map(days.map((d) => [d.day, d.reviews]));
+    const start = startOfWeek(subDays(new Date(), (HEATMAP_WEEKS - 1) * 7));
+    const now = new Date();
+    return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => {
+        const date = addDays(start, week * 7 + weekday);
+        return { date, count: date > now ? null : counts.get(dayKey(date)) ?? 0 };
+      })
+    );
+  }, [days]);
+  const maxReviews = Math.max(1, ...days.map((d) => d.reviews));
+  const totalReviews = days.reduce((sum, d) => sum + d.reviews, 0);
+
+  if (isLoading) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-muted-foreground">Loading review history...</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Retention */}
+      <Card className="p-5">
+        <div className="flex items-center gap-2 mb-3">
+          <Brain className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold text-foreground">Retention (last 30 days)</h3>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className="text-3xl font-bold text-foreground">{percent(last30.rate)}</p>
+            <p className="text-xs text-muted-foreground">Recalled when due</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-foreground">{percent(last30.matureRate)}</p>
+            <p className="text-xs text-muted-foreground">Mature notes (21+ day interval)</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-foreground">{last30.reviews}</p>
+            <p className="text-xs text-muted-foreground">Reviews</p>
+          </div>
+        </div>
+      </Card>
+
+      {/* Forecast */}
+      <Card className="p-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold text-foreground">Due in the next {FORECAST_DAYS} days</h3>
+          </div>
+          <span className="text-xs text-muted-foreground">{forecastDays[0].due} due today</span>
+        </div>
+        <div className="flex items-end gap-0.5 h-24">
+          {forecastDays.map(({ date, due }) => (
+            <div
+              key={dayKey(date)}
+              title={`${format(date, 'EEE, MMM d')}: ${due} due`}
+              className={cn('flex-1 rounded-t-sm', due ? 'bg-primary/70' : 'bg-muted')}
+              style={{ height: `${due ? Math.max((due / maxDue) * 100, 6) : 2}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between mt-1 text-[10px] text-muted-foreground">
+          <span>Today</span>
+          <span>{format(forecastDays[FORECAST_DAYS - 1].date, 'MMM d')}</span>
+        </div>
+      </Card>
+
+      {/* Reviews per day */}
+      <Card className="p-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Flame className="w-5 h-5 text-orange-500" />
+            <h3 className="font-semibold text-foreground">Reviews per day</h3>
+          </div>
+          <span className="text-xs text-muted-foreground">{totalReviews} in the last year</span>
+        </div>
+        <div className="overflow-x-auto">
+          <div className="flex gap-[3px] w-max">
+            {heatmap.map((week) => (
+              <div key={dayKey(week[0].date)} className="flex flex-col gap-[3px]">
+                {week.map(({ date, count }) => (
+                  <div
+                    key={dayKey(date)}
+                    title={count === null ? undefined : `${format(date, 'EEE, MMM d, yyyy')}: ${count} reviews`}
+                    className={cn('w-2.5 h-2.5 rounded-[2px]', count === null ? 'invisible' : heatClass(count, maxReviews))}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-2 text-[10px] text-muted-foreground">
+          Less
+          {['bg-muted', 'bg-primary/30', 'bg-primary/50', 'bg-primary/75', 'bg-primary'].map((c) => (
+            <span key={c} className={cn('w-2.5 h-2.5 rounded-[2px]', c)} />
+          ))}
+          More
+        </div>
+      </Card>
+    </div>
+  );
+}
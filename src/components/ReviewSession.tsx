@@ -1,5 +1,5 @@
-﻿import { useState } from 'react';
-import { Note } from '@/types';
+﻿import { useEffect, useMemo, useRef, useState } from 'react';
+import { Note, ReviewGrade } from '@/types';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,7 +7,6 @@ import { Progress } from '@/components/ui/progress';
 import {
   ChevronLeft,
   ChevronRight,
-  Check,
   X,
   RotateCcw,
   Quote,
@@ -16,8 +15,11 @@ import {
   CheckCircle,
   BookOpen,
   Brain,
+  Eye,
 } from 'lucide-react';
 import { useBooks, useNoteMutations, useReviewSessionMutations } from '@/api/hooks';
+import { clozeNumbers, dueClozes } from '@/api/cloze';
+import { NoteText } from './NoteText';
 
 interface ReviewSessionProps {
   notes: Note[];
@@ -33,6 +35,21 @@ const noteTypeConfig = {
   action: { icon: CheckCircle, label: 'Action', className: 'note-badge-action' },
 };
 
+// Scheduling happens server-side; Again counts as a lapse and brings the note back soon
+const grades: { grade: ReviewGrade; label: string; hint: string; variant: 'outline' | 'secondary' | 'default' }[] = [
+  { grade: 1, label: 'Again', hint: 'Forgot', variant: 'outline' },
+  { grade: 2, label: 'Hard', hint: 'Struggled', variant: 'secondary' },
+  { grade: 3, label: 'Good', hint: 'Recalled', variant: 'default' },
+  { grade: 4, label: 'Easy', hint: 'Instantly', variant: 'secondary' },
+];
+
+// One card: a whole note, or one cloze of a note with {{c1::...}} deletions
+interface ReviewItem {
+  key: string;
+  note: Note;
+  cloze?: number;
+}
+
 export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewSessionProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [reviewedIds, setReviewedIds] = useState<Set<string>>(new Set());
@@ -40,31 +57,53 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
   const { data: booksData } = useBooks();
   const { markReviewed } = useNoteMutations();
   const { markInSession, complete } = useReviewSessionMutations();
+  // When the current card was shown, for the response time in the review log
+  const shownAt = useRef(Date.now());
+
+  // Fixed for the session: grading a cloze reschedules the note, which shouldn't reshuffle the cards
+  const items = useMemo<ReviewItem[]>(
+    () =>
+      notes.flatMap((note) => {
+        const clozes = dueClozes(note);
+        return clozes.length
+          ? clozes.map((cloze) => ({ key: `${note.id}:${cloze}`, note, cloze }))
+          : [{ key: note.id, note }];
+      }),
+    [notes]
+  );
 
-  const currentNote = notes[currentIndex];
+  const currentItem = items[currentIndex];
+  const currentNote = currentItem?.note;
+  const clozeCount = currentNote ? clozeNumbers(currentNote.content).length : 0;
+  // Clozes and flashcards hide their answer until revealed; other notes are graded as shown
+  const hasAnswer = currentItem?.cloze !== undefined || !!currentNote?.aiFlashcard;
   const book = booksData?.find((b) => b.id === currentNote?.bookId);
   const config = currentNote ? (noteTypeConfig as const)[currentNote.type] : null;
   const Icon = config?.icon;
 
-  const progress = notes.length === 0 ? 0 : (reviewedIds.size / notes.length) * 100;
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [currentIndex]);
 
-  const handleMarkReviewed = (remembered: boolean) => {
-    if (!currentNote) return;
+  const progress = items.length === 0 ? 0 : (reviewedIds.size / items.length) * 100;
 
-    const finished = reviewedIds.size + 1 >= notes.length;
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentItem) return;
 
-    if (remembered) {
-      if (sessionId) {
-        markInSession.mutate({ sessionId, noteId: currentNote.id });
-      } else {
-        markReviewed.mutate({ id: currentNote.id });
-      }
+    const finished = reviewedIds.size + 1 >= items.length;
+    const responseMs = Date.now() - shownAt.current;
+    const { note, cloze } = currentItem;
+
+    if (sessionId) {
+      markInSession.mutate({ sessionId, noteId: note.id, grade, responseMs, cloze });
+    } else {
+      markReviewed.mutate({ id: note.id, grade, responseMs, cloze });
     }
 
-    setReviewedIds((prev) => new Set(prev).add(currentNote.id));
+    setReviewedIds((prev) => new Set(prev).add(currentItem.key));
     setShowAnswer(false);
 
-    if (currentIndex < notes.length - 1) {
+    if (currentIndex < items.length - 1) {
       setCurrentIndex((prev) => prev + 1);
     }
 
@@ -78,7 +117,7 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
   };
 
   const goToNext = () => {
-    if (currentIndex < notes.length - 1) {
+    if (currentIndex < items.length - 1) {
       setCurrentIndex((prev) => prev + 1);
       setShowAnswer(false);
     }
@@ -113,7 +152,7 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
           <div className="flex items-center gap-3">
             <Progress value={progress} className="flex-1" />
             <span className="text-sm text-muted-foreground">
-              {reviewedIds.size} / {notes.length}
+              {reviewedIds.size} / {items.length}
             </span>
           </div>
         </div>
@@ -123,7 +162,7 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
       <div className="flex-1 flex items-center justify-center p-4 overflow-y-auto overflow-x-hidden">
         <Card
           className="w-full max-w-xl p-6 shadow-elevated cursor-pointer"
-          onClick={() => !showAnswer && currentNote.aiFlashcard && setShowAnswer(true)}
+          onClick={() => !showAnswer && hasAnswer && setShowAnswer(true)}
         >
           {/* Book info */}
           {book && (
@@ -136,13 +175,20 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
           )}
 
           {/* Note type badge */}
-          <Badge variant="secondary" className={`${config.className} gap-1 mb-4`}>
-            <Icon className="w-3 h-3" />
-            {config.label}
-          </Badge>
+          <div className="flex items-center gap-2 mb-4">
+            <Badge variant="secondary" className={`${config.className} gap-1`}>
+              <Icon className="w-3 h-3" />
+              {config.label}
+            </Badge>
+            {currentItem.cloze !== undefined && clozeCount > 1 && (
+              <span className="text-xs text-muted-foreground">
+                Cloze {currentItem.cloze} of {clozeCount}
+              </span>
+            )}
+          </div>
 
-          {/* Flashcard mode */}
-          {currentNote.aiFlashcard ? (
+          {/* Flashcard mode (a note's clozes take precedence) */}
+          {currentNote.aiFlashcard && currentItem.cloze === undefined ? (
             <div className="min-h-[200px] flex flex-col justify-center">
               <div className="text-center">
                 <p className="text-xs text-muted-foreground mb-2 flex items-center justify-center gap-1">
@@ -168,7 +214,10 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
               {currentNote.content && (
                 <p className={`text-lg leading-relaxed ${currentNote.type === 'quote' ? 'italic' : ''}`}>
                   {currentNote.type === 'quote' && '"'}
-                  {currentNote.content}
+                  <NoteText
+                    text={currentNote.content}
+                    cloze={currentItem.cloze !== undefined ? { active: currentItem.cloze, revealed: showAnswer } : undefined}
+                  />
                   {currentNote.type === 'quote' && '"'}
                 </p>
               )}
@@ -211,24 +260,27 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
               <ChevronLeft className="w-5 h-5" />
             </Button>
 
-            {/* Forgot button */}
-            <Button
-              variant="outline"
-              className="gap-2 flex-1 max-w-[140px]"
-              onClick={() => handleMarkReviewed(false)}
-            >
-              <X className="w-4 h-4" />
-              Forgot
-            </Button>
-
-            {/* Remembered button */}
-            <Button
-              className="gap-2 flex-1 max-w-[160px]"
-              onClick={() => handleMarkReviewed(true)}
-            >
-              <Check className="w-4 h-4" />
-              Remembered
-            </Button>
+            {/* Grade buttons, once the answer is shown */}
+            {hasAnswer && !showAnswer ? (
+              <Button className="flex-1 h-[46px]" onClick={() => setShowAnswer(true)}>
+                <Eye className="w-4 h-4 mr-2" />
+                Show answer
+              </Button>
+            ) : (
+              <div className="grid grid-cols-4 gap-1.5 flex-1">
+                {grades.map(({ grade, label, hint, variant }) => (
+                  <Button
+                    key={grade}
+                    variant={variant}
+                    className="h-auto flex-col gap-0 px-1 py-1.5"
+                    onClick={() => handleGrade(grade)}
+                  >
+                    <span className="text-sm font-medium">{label}</span>
+                    <span className="text-[10px] font-normal opacity-70">{hint}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
 
             {/* Next arrow pill */}
             <Button
@@ -236,7 +288,7 @@ export function ReviewSession({ notes, sessionId, onComplete, onClose }: ReviewS
               size="icon"
               className="rounded-full h-10 w-10 shrink-0"
               onClick={goToNext}
-              disabled={currentIndex === notes.length - 1}
+              disabled={currentIndex === items.length - 1}
             >
               <ChevronRight className="w-5 h-5" />
             </Button>
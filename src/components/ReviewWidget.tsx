@@ -1,26 +1,111 @@
-import { useState, useEffect } from 'react';
-import { Note } from '@/types';
+import { useMemo, useState } from 'react';
+import { Note, NoteScope, ReviewSession } from '@/types';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Brain, ChevronRight, Sparkles } from 'lucide-react';
-import { useNotes, useNoteHelpers } from '@/api/hooks';
+import { Label } from '@/components/ui/label';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Brain, ChevronRight, History, Settings2, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useBooks,
+  useCollections,
+  useNotes,
+  useOpenReviewSession,
+  useReviewSessionMutations,
+  useSavedFilters,
+} from '@/api/hooks';
+import { sameScope, selectNotesForScope } from '@/api/noteScope';
+import { NoteScopePicker } from './NoteScopePicker';
 
 interface ReviewWidgetProps {
-  onStartReview: (notes: Note[]) => void;
+  // Review only this scope (e.g. the book being viewed); otherwise the user picks a deck
+  scope?: NoteScope;
+  onStartReview: (session: ReviewSession, notes: Note[]) => void;
 }
 
-export function ReviewWidget({ onStartReview }: ReviewWidgetProps) {
-  const [dueNotes, setDueNotes] = useState<Note[]>([]);
-  const { data: notesData } = useNotes();
-  const { getNotesForReviewClient } = useNoteHelpers();
+const sessionSizes = [5, 10, 20, 50];
 
-  useEffect(() => {
-    if (notesData) {
-      setDueNotes(getNotesForReviewClient(notesData, 10));
+// Share of never-reviewed notes in a session; "due" leaves the order to due dates alone
+const newMixes: { value: string; label: string; share?: number }[] = [
+  { value: 'due', label: 'Most overdue first' },
+  { value: '0', label: 'Reviews only', share: 0 },
+  { value: '0.2', label: 'Mostly reviews', share: 0.2 },
+  { value: '0.5', label: 'Half new notes', share: 0.5 },
+  { value: '1', label: 'New notes first', share: 1 },
+];
+
+const isDue = (note: Note, now: Date) => !note.nextReviewAt || note.nextReviewAt <= now;
+
+export function ReviewWidget({ scope: fixedScope, onStartReview }: ReviewWidgetProps) {
+  const { data: notes = [] } = useNotes();
+  const { data: books = [] } = useBooks();
+  const { data: collections = [] } = useCollections();
+  const { data: savedFilters = [] } = useSavedFilters();
+  const { data: openSession } = useOpenReviewSession();
+  const { create } = useReviewSessionMutations();
+  const [pickedScope, setPickedScope] = useState<NoteScope>({ kind: 'all' });
+  const [size, setSize] = useState(5);
+  const [mix, setMix] = useState('due');
+  const [optionsOpen, setOptionsOpen] = useState(false);
+
+  const scope = fixedScope ?? pickedScope;
+  const noteMap = useMemo(() => new Map(notes.map((n) => [n.id, n])), [notes]);
+  const tags = useMemo(() => {
+    const tagSet = new Set<string>();
+    notes.forEach((n) => n.tags?.forEach((t) => tagSet.add(t)));
+    return Array.from(tagSet).sort();
+  }, [notes]);
+
+  const now = new Date();
+  const allDue = notes.filter((n) => isDue(n, now));
+  const scopeDue = selectNotesForScope(allDue, scope, { collections, savedFilters });
+  const newCount = scopeDue.filter((n) => !n.lastReviewedAt).length;
+
+  // A session left unfinished; on a scoped page only one from the same scope
+  const resumable = useMemo(() => {
+    if (!openSession || (fixedScope && !sameScope(openSession.scope, fixedScope))) return null;
+    const remaining = openSession.noteIds
+      .filter((id) => !openSession.completedNoteIds.includes(id))
+      .map((id) => noteMap.get(id))
+      .filter((n): n is Note => !!n);
+    return remaining.length ? { session: openSession, notes: remaining } : null;
+  }, [openSession, fixedScope, noteMap]);
+
+  const scopeLabel = (s: NoteScope) => {
+    switch (s.kind) {
+      case 'all':
+        return 'all notes';
+      case 'book':
+        return books.find((b) => b.id === s.id)?.title ?? 'a book';
+      case 'tag':
+        return `#${s.tag}`;
+      case 'collection':
+        return collections.find((c) => c.id === s.id)?.name ?? 'a collection';
+      case 'savedFilter':
+        return savedFilters.find((f) => f.id === s.id)?.name ?? 'a saved filter';
     }
-  }, [notesData, getNotesForReviewClient]);
+  };
+
+  const startReview = () => {
+    const share = newMixes.find((m) => m.value === mix)?.share;
+    create.mutate(
+      { scope, size, newShare: share },
+      {
+        onSuccess: (session) => {
+          const picked = session.noteIds.map((id) => noteMap.get(id)).filter((n): n is Note => !!n);
+          if (picked.length === 0) {
+            toast.info('Nothing to review in this deck right now');
+            return;
+          }
+          onStartReview(session, picked);
+        },
+        onError: () => toast.error('Failed to start review session'),
+      },
+    );
+  };
 
-  if (dueNotes.length === 0) {
+  if ((fixedScope ? scopeDue.length : allDue.length) === 0 && !resumable) {
     return null;
   }
 
@@ -32,20 +117,87 @@ export function ReviewWidget({ onStartReview }: ReviewWidgetProps) {
         </div>
         <div className="flex-1 min-w-0">
           <h3 className="font-display font-semibold text-foreground">
-            Time to review!
+            {scopeDue.length ? 'Time to review!' : 'Nothing due here'}
           </h3>
           <p className="text-sm text-muted-foreground mt-0.5">
-            {dueNotes.length} note{dueNotes.length !== 1 ? 's' : ''} ready for review
+            {scopeDue.length} note{scopeDue.length !== 1 ? 's' : ''} ready for review
+            {scope.kind !== 'all' && !fixedScope && ` in ${scopeLabel(scope)}`}
+            {newCount > 0 && ` (${newCount} new)`}
           </p>
-          <Button 
-            size="sm" 
-            className="mt-3 gap-2"
-            onClick={() => onStartReview(dueNotes.slice(0, 5))}
-          >
-            <Sparkles className="w-4 h-4" />
-            Review now
-            <ChevronRight className="w-4 h-4" />
-          </Button>
+          <Collapsible open={optionsOpen} onOpenChange={setOptionsOpen}>
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              <Button size="sm" className="gap-2" onClick={startReview} disabled={!scopeDue.length || create.isPending}>
+                <Sparkles className="w-4 h-4" />
+                Review now
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              {resumable && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => onStartReview(resumable.session, resumable.notes)}
+                >
+                  <History className="w-4 h-4" />
+                  Resume {resumable.notes.length} left
+                  {!fixedScope && resumable.session.scope.kind !== 'all' && ` · ${scopeLabel(resumable.session.scope)}`}
+                </Button>
+              )}
+              <CollapsibleTrigger asChild>
+                <Button size="sm" variant="ghost" className="gap-1.5 text-muted-foreground">
+                  <Settings2 className="w-4 h-4" />
+                  Deck
+                </Button>
+              </CollapsibleTrigger>
+            </div>
+            <CollapsibleContent className="mt-3 space-y-3">
+              {!fixedScope && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Review from</Label>
+                  <NoteScopePicker
+                    value={pickedScope}
+                    onChange={setPickedScope}
+                    books={books}
+                    tags={tags}
+                    collections={collections}
+                    savedFilters={savedFilters}
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">Session size</Label>
+                  <Select value={String(size)} onValueChange={(v) => setSize(Number(v))}>
+                    <SelectTrigger className="h-9 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sessionSizes.map((n) => (
+                        <SelectItem key={n} value={String(n)} className="text-xs">
+                          {n} notes
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">New notes</Label>
+                  <Select value={mix} onValueChange={setMix}>
+                    <SelectTrigger className="h-9 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {newMixes.map((m) => (
+                        <SelectItem key={m.value} value={m.value} className="text-xs">
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
         </div>
       </div>
     </Card>
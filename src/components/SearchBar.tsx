@@ -1,34 +1,115 @@
-import { Search, X } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Search, X, AlertCircle } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { SearchQueryError, SearchSuggestion } from '@/api/searchQuery';
+import { cn } from '@/lib/utils';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  // Query-language support: completions for the token under the caret, and parse errors
+  suggest?: (value: string, caret: number) => SearchSuggestion[];
+  errors?: SearchQueryError[];
 }
 
-export function SearchBar({ value, onChange, placeholder = 'Search notes...' }: SearchBarProps) {
+export function SearchBar({ value, onChange, placeholder = 'Search notes...', suggest, errors }: SearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const suggestions = suggest && focused && !dismissed ? suggest(value, caret) : [];
+  const open = suggestions.length > 0;
+
+  const update = (next: string, nextCaret: number) => {
+    onChange(next);
+    setCaret(nextCaret);
+    setActive(0);
+    setDismissed(false);
+  };
+
+  const accept = (suggestion: SearchSuggestion) => {
+    const next = value.slice(0, suggestion.from) + suggestion.insert + value.slice(suggestion.to);
+    const nextCaret = suggestion.from + suggestion.insert.length;
+    update(next, nextCaret);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
   return (
     <div className="relative">
       <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
       <Input
+        ref={inputRef}
         type="text"
         placeholder={placeholder}
         value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className="pl-10 pr-10 bg-card border-border/50"
+        onChange={(e) => update(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? value.length)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        aria-invalid={errors && errors.length > 0 ? true : undefined}
+        className={cn('pl-10 pr-10 bg-card border-border/50', errors?.length && 'border-destructive/60')}
       />
       {value && (
         <Button
           variant="ghost"
           size="icon"
           className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
-          onClick={() => onChange('')}
+          onClick={() => update('', 0)}
         >
           <X className="w-4 h-4" />
         </Button>
       )}
+
+      {open && (
+        <ul className="absolute z-30 left-0 right-0 top-full mt-1 rounded-xl border border-border/50 bg-popover shadow-lg overflow-hidden">
+          {suggestions.map((suggestion, i) => (
+            <li key={suggestion.label}>
+              <button
+                type="button"
+                // Keep focus in the input so the list doesn't close before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => accept(suggestion)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm touch-manipulation',
+                  i === active ? 'bg-secondary' : 'hover:bg-secondary/60'
+                )}
+              >
+                <span className="font-mono text-xs truncate">{suggestion.label}</span>
+                {suggestion.hint && <span className="text-xs text-muted-foreground truncate">{suggestion.hint}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!open && errors && errors.length > 0 && (
+        <div className="absolute z-20 left-0 right-0 top-full mt-1 flex items-start gap-1.5 rounded-lg bg-destructive/10 px-2.5 py-1.5 text-xs text-destructive">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+          <span>
+            {errors[0].message}
+            {errors.length > 1 && ` (+${errors.length - 1} more)`}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
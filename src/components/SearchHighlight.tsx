@@ -0,0 +1,25 @@
+import { cn } from '@/lib/utils';
+
+interface SearchHighlightProps {
+  // Snippet from search_notes with matches wrapped in <mark></mark>
+  text: string;
+  className?: string;
+}
+
+// Renders the markers as <mark> elements; everything else stays plain text
+export function SearchHighlight({ text, className }: SearchHighlightProps) {
+  const parts = text.split(/(<mark>[\s\S]*?<\/mark>)/g).filter(Boolean);
+  return (
+    <p className={cn('text-xs text-muted-foreground leading-relaxed', className)}>
+      {parts.map((part, i) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={i} className="bg-primary/15 text-foreground rounded px-0.5">
+            {part.slice('<mark>'.length, -'</mark>'.length)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
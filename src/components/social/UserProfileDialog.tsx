@@ -12,6 +12,8 @@ import { Badge } from '@/components/ui/badge';
 import { BookOpen, Quote, Calendar, UserPlus, UserMinus, Settings } from 'lucide-react';
 import { SocialUser } from './SocialFeed';
 import { cn } from '@/lib/utils';
+import { stripNoteLinks } from '@/api/noteLinks';
+import { stripCloze } from '@/api/cloze';
 
 export interface UserProfile extends SocialUser {
   bio?: string;
@@ -199,7 +201,7 @@ export function UserProfileDialog({
                   user.publicNotes.map(note => (
                     <Card key={note.id} className="p-3 bg-muted/40 border-0 rounded-xl">
                       <Badge variant="secondary" className="text-[11px] mb-1.5 h-5">{note.type}</Badge>
-                      <p className="text-[13px] text-foreground italic leading-relaxed">"{note.content}"</p>
+                      <p className="text-[13px] text-foreground italic leading-relaxed">"{stripCloze(stripNoteLinks(note.content))}"</p>
                       <p className="text-[11px] text-muted-foreground mt-1.5">From {note.bookTitle}</p>
                     </Card>
                   ))
@@ -0,0 +1,24 @@
+import { toast } from 'sonner';
+import { useTrashMutations } from '@/api/hooks';
+import { TrashKind } from '@/api/trash';
+
+// "Moved to trash" toast with an Undo action that restores the item
+export function useTrashUndo() {
+  const { restore } = useTrashMutations();
+
+  return (kind: TrashKind, id: string, message: string) => {
+    toast.success(message, {
+      action: {
+        label: 'Undo',
+        onClick: () =>
+          restore.mutate(
+            { kind, id },
+            {
+              onSuccess: () => toast.success('Restored'),
+              onError: () => toast.error('Failed to restore'),
+            }
+          ),
+      },
+    });
+  };
+}
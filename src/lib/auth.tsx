@@ -1,5 +1,7 @@
 import { supabase } from './supabaseClient';
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { clearPersistedCache } from '@/api/offline';
 import type { Session, User } from '@supabase/supabase-js';
 
 type AuthContextType = {
@@ -14,6 +16,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     const init = async () => {
@@ -25,15 +28,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
     init();
 
-    const { data: listener } = supabase.auth.onAuthStateChange((_event, newSession) => {
+    const { data: listener } = supabase.auth.onAuthStateChange((event, newSession) => {
       setSession(newSession);
       setLoading(false);
+      // The offline copy of the library (and anything still queued) goes with the session
+      if (event === 'SIGNED_OUT') {
+        queryClient.clear();
+        clearPersistedCache().catch((err) => console.error('Failed to clear offline cache', err));
+      }
     });
 
     return () => {
       listener.subscription.unsubscribe();
     };
-  }, []);
+  }, [queryClient]);
 
   const signOut = async () => {
     await supabase.auth.signOut();
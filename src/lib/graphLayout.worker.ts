@@ -0,0 +1,79 @@
+import { forceLink, forceManyBody, forceSimulation, forceX, forceY, SimulationNodeDatum } from 'd3-force';
+
+// Force layout for the knowledge graph, off the main thread so a few thousand nodes don't
+// block the page. Positions are streamed back every few ticks as [x0, y0, x1, y1, ...].
+
+export interface GraphLayoutRequest {
+  type: 'layout';
+  // Bumped per request; stale ticks are ignored by the page
+  runId: number;
+  // Size weight per node (radius-ish)
+  weights: number[];
+  // Start positions from the previous layout, NaN for new nodes
+  initial: Float32Array;
+  // Index pairs [source0, target0, source1, target1, ...]
+  links: Uint32Array;
+}
+
+export interface GraphLayoutTick {
+  type: 'tick';
+  runId: number;
+  positions: Float32Array;
+  done: boolean;
+}
+
+interface LayoutNode extends SimulationNodeDatum {
+  weight: number;
+}
+
+const TICKS_PER_FRAME = 4;
+let current = 0;
+
+function run(request: GraphLayoutRequest) {
+  const { runId, weights, initial, links } = request;
+  current = runId;
+
+  const nodes: LayoutNode[] = weights.map((weight, i) => {
+    const x = initial[i * 2];
+    const y = initial[i * 2 + 1];
+    return Number.isNaN(x) || Number.isNaN(y) ? { weight } : { weight, x, y };
+  });
+  const edges = [];
+  for (let i = 0; i < links.length; i += 2) edges.push({ source: links[i], target: links[i + 1] });
+
+  // Settled positions reused from the last layout only need a gentle nudge
+  const reused = nodes.filter((n) => n.x !== undefined).length;
+  const simulation = forceSimulation(nodes)
+    .alpha(reused > nodes.length * 0.8 ? 0.3 : 1)
+    .alphaDecay(nodes.length > 2000 ? 0.05 : 0.03)
+    .force('charge', forceManyBody<LayoutNode>().strength((n) => -20 - n.weight * 6).theta(0.9).distanceMax(600))
+    .force('link', forceLink(edges).distance(30).strength(0.4))
+    .force('x', forceX(0).strength(0.04))
+    .force('y', forceY(0).strength(0.04))
+    .stop();
+
+  const post = (done: boolean) => {
+    const positions = new Float32Array(nodes.length * 2);
+    nodes.forEach((n, i) => {
+      positions[i * 2] = n.x;
+      positions[i * 2 + 1] = n.y;
+    });
+    const message: GraphLayoutTick = { type: 'tick', runId, positions, done };
+    self.postMessage(message, { transfer: [positions.buffer] });
+  };
+
+  const step = () => {
+    // A newer request replaced this one
+    if (current !== runId) return;
+    for (let i = 0; i < TICKS_PER_FRAME && simulation.alpha() > simulation.alphaMin(); i++) simulation.tick();
+    const done = simulation.alpha() <= simulation.alphaMin();
+    post(done);
+    if (!done) setTimeout(step, 0);
+  };
+  step();
+}
+
+self.onmessage = (event: MessageEvent<GraphLayoutRequest | { type: 'stop' }>) => {
+  if (event.data.type === 'layout') run(event.data);
+  else current = 0;
+};
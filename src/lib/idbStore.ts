@@ -0,0 +1,44 @@
+// Minimal IndexedDB key-value store. Values go through structured clone, so Dates, Files and
+// Blobs survive as they are (localStorage would need them serialized).
+
+const DB_NAME = 'marginalia';
+const STORE = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = tx.onabort = () => reject(tx.error ?? request.error);
+  });
+}
+
+export function idbGet<T>(key: string): Promise<T | undefined> {
+  return run('readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbSet(key: string, value: unknown): Promise<void> {
+  await run('readwrite', (store) => store.put(value, key));
+}
+
+export async function idbDelete(key: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,62 @@
+// Service worker (public/sw.js) registration and the bits of the page that talk to it:
+// Background Sync for the note queue and content handed over by the Web Share Target.
+
+const SYNC_TAG = 'note-sync';
+const SHARE_CACHE = 'marginalia-share';
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+// Production only: in dev the worker would cache Vite's modules
+export function registerServiceWorker({ onSync }: { onSync: () => void }) {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    if (event.data?.type === SYNC_TAG) onSync();
+  });
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`/sw.js?v=${__BUILD_ID__}`)
+      .catch((err) => console.error('Service worker registration failed', err));
+  });
+}
+
+// Asks the browser to wake the worker once the connection is back, which tells open tabs to
+// replay queued notes (where Background Sync exists; elsewhere the online event does it)
+export function requestBackgroundSync() {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration: SyncRegistration) => registration.sync?.register(SYNC_TAG))
+    .catch(() => {
+      // Not supported or not allowed; nothing to fall back to
+    });
+}
+
+export interface SharedContent {
+  text: string;
+  image?: Blob;
+}
+
+// What was shared into the app, read once: the worker parks it in a cache before opening /capture
+export async function takeSharedContent(): Promise<SharedContent | null> {
+  if (!('caches' in window)) return null;
+  const cache = await caches.open(SHARE_CACHE);
+  const [textResponse, imageResponse] = await Promise.all([cache.match('/shared/text'), cache.match('/shared/image')]);
+  if (!textResponse && !imageResponse) return null;
+  const { title = '', text = '', url = '' } = textResponse ? await textResponse.json() : {};
+  const image = imageResponse ? await imageResponse.blob() : undefined;
+  await Promise.all([cache.delete('/shared/text'), cache.delete('/shared/image')]);
+  // Apps often put the link inside the text as well; the title only when there's nothing else
+  const body = [text, url && !text.includes(url) ? url : ''].filter(Boolean).join('\n');
+  return { text: body || title, image };
+}
+
+export type CaptureAction = 'note' | 'scan' | 'record';
+
+// Handed from /capture (app shortcuts, shared content) to the chosen book's page
+export interface CaptureRequest {
+  action: CaptureAction;
+  text?: string;
+  imageUrl?: string;
+}
+
+export const isCaptureAction = (value: string | null): value is CaptureAction =>
+  value === 'note' || value === 'scan' || value === 'record';
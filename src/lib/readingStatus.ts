@@ -0,0 +1,12 @@
+import { Bookmark, BookOpen, CheckCircle, XCircle } from 'lucide-react';
+import { ReadingStatus } from '@/types';
+
+// Label, icon and badge colours per reading status; readingStatusOrder is the order menus list them in
+export const readingStatusConfig: Record<ReadingStatus, { icon: typeof BookOpen; label: string; className: string }> = {
+  want_to_read: { icon: Bookmark, label: 'Want to read', className: 'bg-slate-100 text-slate-700 dark:bg-slate-800/60 dark:text-slate-300' },
+  reading: { icon: BookOpen, label: 'Reading', className: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300' },
+  finished: { icon: CheckCircle, label: 'Finished', className: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  abandoned: { icon: XCircle, label: 'Abandoned', className: 'bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-300' },
+};
+
+export const readingStatusOrder: ReadingStatus[] = ['want_to_read', 'reading', 'finished', 'abandoned'];
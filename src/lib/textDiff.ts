@@ -0,0 +1,69 @@
+export type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Above this many word pairs the middle of a change is shown as one replace instead of
+// running the quadratic diff (long OCR text / transcripts)
+const MAX_CELLS = 2_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+// Word-level diff from `before` to `after` (longest common subsequence)
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'same', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_CELLS) {
+    push(parts, 'removed', midA.join(''));
+    push(parts, 'added', midB.join(''));
+  } else {
+    // lengths[i][j] = LCS of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * cols + j + 1] + 1
+            : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push(parts, 'same', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        push(parts, 'removed', midA[i++]);
+      } else {
+        push(parts, 'added', midB[j++]);
+      }
+    }
+    push(parts, 'removed', midA.slice(i).join(''));
+    push(parts, 'added', midB.slice(j).join(''));
+  }
+
+  push(parts, 'same', a.slice(endA).join(''));
+  return parts;
+}
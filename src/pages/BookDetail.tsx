@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Header } from '@/components/Header';
 import { NoteCard } from '@/components/NoteCard';
@@ -11,12 +11,42 @@ import { FloatingRecorder } from '@/components/FloatingRecorder';
 import { SearchBar } from '@/components/SearchBar';
 import { PullToRefresh } from '@/components/PullToRefresh';
 import { staggerContainer, staggerItem } from '@/components/PageTransition';
+import { BookStatusBadge } from '@/components/BookStatusBadge';
+import { readingStatusConfig, readingStatusOrder } from '@/lib/readingStatus';
+import { ReadingProgressCard } from '@/components/ReadingProgressCard';
+import { ReadingSessionHistory } from '@/components/ReadingSessionHistory';
+import { FloatingSessionTimer } from '@/components/FloatingSessionTimer';
+import { ReviewWidget } from '@/components/ReviewWidget';
+import { ReviewSession } from '@/components/ReviewSession';
 import { Button } from '@/components/ui/button';
-import { Book, Note, NoteType, MediaType } from '@/types';
-import { useBooks as useBooksHook, useNotesByBook, useNoteMutations } from '@/api/hooks';
-import { ArrowLeft, BookOpen, PenLine, Quote, Lightbulb, HelpCircle, CheckCircle, Plus } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Book, Note, NoteType, NoteUpdate, MediaType, ReadingStatus } from '@/types';
+import { UpdateConflictError } from '@/api/patch';
+import {
+  useBooks as useBooksHook,
+  useBookMutations,
+  useNotesByBook,
+  useNoteSearch,
+  useNoteMutations,
+  useActiveReadingSession,
+  useReadingSessionMutations,
+  useReviewSessionMutations,
+  newNoteId,
+} from '@/api/hooks';
+import { onlineManager } from '@tanstack/react-query';
+import { CaptureRequest } from '@/lib/pwa';
+import { ArrowLeft, BookOpen, PenLine, Quote, Lightbulb, HelpCircle, CheckCircle, Plus, ChevronDown, Star } from 'lucide-react';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useTrashUndo } from '@/hooks/use-trash-undo';
+import { parseSearchQuery, fullTextTerms, noteMatchesQuery, suggestSearchCompletions } from '@/api/searchQuery';
 import { cn } from '@/lib/utils';
 
 const noteFilters = [
@@ -34,16 +64,51 @@ const BookDetail = () => {
   const { data: booksData } = useBooksHook();
   const { data: notesData, isLoading: notesLoading } = useNotesByBook(bookId || '');
   const { create: createNote, update: updateNoteMutation, remove: deleteNoteMutation } = useNoteMutations();
+  const { setStatus: setBookStatusMutation } = useBookMutations();
+  const showTrashUndo = useTrashUndo();
+  const { data: activeSession } = useActiveReadingSession();
+  const { start: startSessionMutation } = useReadingSessionMutations();
+  const { complete: completeReviewSession } = useReviewSessionMutations();
   const [book, setBook] = useState<Book | null>(null);
   const [addNoteOpen, setAddNoteOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  // book: and folder: don't apply inside a single book
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery, { books: [] }), [searchQuery]);
+  const debouncedSearch = useDebouncedValue(fullTextTerms(parsedSearch));
+  const {
+    data: searchHits,
+    isError: searchFailed,
+    hasNextPage: moreSearchHits,
+    fetchNextPage: fetchMoreSearchHits,
+    isFetchingNextPage: fetchingMoreSearchHits,
+  } = useNoteSearch(debouncedSearch, bookId);
   const [activeFilter, setActiveFilter] = useState<'all' | NoteType>('all');
   const [pendingRecording, setPendingRecording] = useState<{ url: string; duration: number; transcript?: string } | null>(null);
   const [pendingImage, setPendingImage] = useState<{ url: string; extractedText?: string } | null>(null);
+  const [pendingText, setPendingText] = useState<string | null>(null);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [showRecorder, setShowRecorder] = useState(false);
+  const [reviewNotes, setReviewNotes] = useState<Note[] | null>(null);
+  const [reviewSessionId, setReviewSessionId] = useState<string | null>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
-  const notes = notesData || [];
+  const notes = useMemo(() => notesData ?? [], [notesData]);
+  const location = useLocation();
+
+  // Arriving from /capture (app shortcut or share target): start that capture right away
+  useEffect(() => {
+    const capture = (location.state as { capture?: CaptureRequest } | null)?.capture;
+    if (!capture || !book || notesLoading) return;
+    navigate(location.pathname, { replace: true, state: null });
+    if (capture.action === 'scan') {
+      cameraInputRef.current?.click();
+    } else if (capture.action === 'record') {
+      setShowRecorder(true);
+    } else {
+      if (capture.imageUrl) setPendingImage({ url: capture.imageUrl });
+      setPendingText(capture.text ?? null);
+      setAddNoteOpen(true);
+    }
+  }, [location, book, notesLoading, navigate]);
 
   useEffect(() => {
     if (!bookId) return;
@@ -71,26 +136,60 @@ const BookDetail = () => {
     audioDuration?: number;
     tags?: string[];
     isPrivate?: boolean;
+    imageFile?: File;
+    audioFile?: File;
   }): Promise<string> => {
     if (!bookId) return '';
-    try {
-      const created = await createNote.mutateAsync({ bookId, ...noteData });
-      setPendingRecording(null);
-      setPendingImage(null);
-      toast.success('Note saved');
-      return created.id;
-    } catch (err) {
-      toast.error('Failed to save note');
-      return '';
-    }
+    // Shows up right away; sent now, or queued until the connection is back
+    const id = newNoteId();
+    createNote.mutate(
+      { ...noteData, id, bookId, createdAt: new Date() },
+      {
+        onSuccess: () => toast.success('Note saved'),
+        onError: () => toast.error('Failed to save note'),
+      }
+    );
+    if (!onlineManager.isOnline()) toast('Saved on this device. It will sync when you are back online.');
+    setPendingRecording(null);
+    setPendingImage(null);
+    setPendingText(null);
+    return id;
   };
 
   const handleUpdateNoteLocation = (noteId: string, location: string, timestamp?: string) => {
     const note = notes.find(n => n.id === noteId);
     if (note) {
-      const updated = { ...note, location, timestamp };
-      updateNoteMutation.mutate({ id: noteId, updates: updated });
+      updateNoteMutation.mutate({ note, updates: { location, timestamp: timestamp ?? null } });
+    }
+  };
+
+  // Linked or related notes from other books open on their own book's page
+  const openNote = (note: Note) => {
+    if (note.bookId === bookId) {
+      setEditingNote(note);
+      return;
     }
+    setEditingNote(null);
+    navigate(`/book/${note.bookId}`);
+  };
+
+  const handleStatusChange = (status: ReadingStatus) => {
+    if (!bookId) return;
+    setBookStatusMutation.mutate(
+      { id: bookId, status },
+      {
+        onSuccess: () => toast.success(`Marked as ${readingStatusConfig[status].label.toLowerCase()}`),
+        onError: () => toast.error('Failed to update reading status'),
+      }
+    );
+  };
+
+  const handleStartSession = () => {
+    if (!bookId) return;
+    startSessionMutation.mutate(bookId, {
+      onSuccess: () => toast.success('Reading session started'),
+      onError: () => toast.error('Failed to start session'),
+    });
   };
 
   const handleQuickRecording = (data: { url: string; duration: number; transcript?: string }) => {
@@ -105,30 +204,44 @@ const BookDetail = () => {
 
   const handleDeleteNote = (noteId: string) => {
     deleteNoteMutation.mutate(noteId, {
-      onSuccess: () => toast.success('Note deleted'),
+      onSuccess: () => showTrashUndo('note', noteId, 'Note moved to trash'),
       onError: () => toast.error('Failed to delete note'),
     });
   };
 
-  const handleUpdateNote = (updatedNote: Note) => {
+  const handleUpdateNote = (note: Note, updates: NoteUpdate) => {
     updateNoteMutation.mutate(
-      { id: updatedNote.id, updates: updatedNote },
+      { note, updates },
       {
         onSuccess: () => toast.success('Note updated'),
-        onError: () => toast.error('Failed to update note'),
+        onError: (err) => toast.error(err instanceof UpdateConflictError ? err.message : 'Failed to update note'),
       }
     );
   };
 
+  const bookTags = useMemo(
+    () => Array.from(new Set(notes.flatMap((n) => n.tags ?? []))).sort(),
+    [notes]
+  );
+
+  const searchHighlights = useMemo(
+    () => new Map((searchHits ?? []).map((hit) => [hit.noteId, hit.headline])),
+    [searchHits]
+  );
+
   const filteredNotes = useMemo(() => {
-    return notes.filter(note => {
-      const matchesSearch = !searchQuery || 
-        note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        note.context?.toLowerCase().includes(searchQuery.toLowerCase());
+    const term = debouncedSearch.trim();
+    let base = notes;
+    if (term && !searchFailed) {
+      const byId = new Map(notes.map((n) => [n.id, n]));
+      base = (searchHits ?? []).map((hit) => byId.get(hit.noteId)).filter((n): n is Note => !!n);
+    }
+    return base.filter(note => {
+      const matchesSearch = noteMatchesQuery(note, parsedSearch, searchFailed);
       const matchesFilter = activeFilter === 'all' || note.type === activeFilter;
       return matchesSearch && matchesFilter;
     });
-  }, [notes, searchQuery, activeFilter]);
+  }, [notes, debouncedSearch, parsedSearch, searchHits, searchFailed, activeFilter]);
 
   const handleRefresh = useCallback(async () => {}, [bookId]);
 
@@ -173,12 +286,68 @@ const BookDetail = () => {
               <p className="text-[15px] sm:text-base md:text-lg text-muted-foreground">
                 {book.author}
               </p>
-              <span className="inline-flex items-center gap-1 text-xs text-muted-foreground mt-1 bg-muted/50 px-2 py-0.5 rounded-full">
-                <PenLine className="w-3 h-3" />
-                {notes.length} {notes.length === 1 ? 'note' : 'notes'}
-              </span>
+              <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                <span className="inline-flex items-center gap-1 text-xs text-muted-foreground bg-muted/50 px-2 py-0.5 rounded-full">
+                  <PenLine className="w-3 h-3" />
+                  {notes.length} {notes.length === 1 ? 'note' : 'notes'}
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="inline-flex items-center gap-0.5 touch-manipulation active:opacity-70">
+                      <BookStatusBadge status={book.status} />
+                      <ChevronDown className="w-3 h-3 text-muted-foreground" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" className="min-w-[160px]">
+                    {readingStatusOrder.map((status) => {
+                      const StatusIcon = readingStatusConfig[status].icon;
+                      return (
+                        <DropdownMenuItem
+                          key={status}
+                          disabled={status === book.status}
+                          onClick={() => handleStatusChange(status)}
+                          className="gap-2"
+                        >
+                          <StatusIcon className="w-4 h-4" />
+                          {readingStatusConfig[status].label}
+                        </DropdownMenuItem>
+                      );
+                    })}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {book.rating !== undefined && (
+                  <span className="inline-flex items-center gap-0.5 text-xs text-muted-foreground bg-muted/50 px-2 py-0.5 rounded-full">
+                    <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+                    {book.rating}
+                  </span>
+                )}
+              </div>
+              {(book.startedAt || book.finishedAt) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {book.startedAt && `Started ${format(book.startedAt, 'MMM d, yyyy')}`}
+                  {book.startedAt && book.finishedAt && ' · '}
+                  {book.finishedAt && `Finished ${format(book.finishedAt, 'MMM d, yyyy')}`}
+                </p>
+              )}
             </div>
           </div>
+
+          {/* Reading progress */}
+          <div className="mt-3 max-w-2xl animate-fade-in">
+            <ReadingProgressCard book={book} />
+          </div>
+          <div className="mt-3 max-w-2xl animate-fade-in">
+            <ReadingSessionHistory book={book} />
+          </div>
+          <div className="mt-3 max-w-2xl animate-fade-in">
+            <ReviewWidget
+              scope={{ kind: 'book', id: book.id }}
+              onStartReview={(session, notes) => {
+                setReviewSessionId(session.id);
+                setReviewNotes(notes);
+              }}
+            />
+          </div>
         </div>
 
         {/* Search and iOS Segmented Control */}
@@ -188,6 +357,8 @@ const BookDetail = () => {
             value={searchQuery}
             onChange={setSearchQuery}
             placeholder="Search notes..."
+            suggest={(value, caret) => suggestSearchCompletions(value, caret, { books: [], tags: bookTags, fields: ['type', 'tag', 'after', 'before'] })}
+            errors={parsedSearch.errors}
           />
           
           {/* iOS Segmented Control - no scrolling */}
@@ -260,11 +431,20 @@ const BookDetail = () => {
                     onUpdate={handleUpdateNote}
                     onEdit={() => setEditingNote(note)}
                     onClick={() => setEditingNote(note)}
+                    searchHighlight={searchHighlights.get(note.id)}
+                    onOpenNote={openNote}
                   />
                 </motion.div>
               ))}
             </motion.div>
           )}
+          {moreSearchHits && (
+            <div className="flex justify-center max-w-2xl pt-4">
+              <Button variant="outline" size="sm" onClick={() => fetchMoreSearchHits()} disabled={fetchingMoreSearchHits}>
+                {fetchingMoreSearchHits ? 'Loading…' : 'Show more results'}
+              </Button>
+            </div>
+          )}
         </PullToRefresh>
       </main>
 
@@ -304,12 +484,18 @@ const BookDetail = () => {
         </div>
       )}
 
+      {/* Running reading session for this book */}
+      {activeSession && activeSession.bookId === book.id && (
+        <FloatingSessionTimer book={book} session={activeSession} />
+      )}
+
       {/* Collapsible FAB */}
       {!showRecorder && (
         <CollapsibleFAB
           onAddNote={() => setAddNoteOpen(true)}
           onStartRecording={() => setShowRecorder(true)}
           onOpenCamera={() => cameraInputRef.current?.click()}
+          onStartSession={activeSession?.bookId === book.id ? undefined : handleStartSession}
           cameraInputRef={cameraInputRef}
         />
       )}
@@ -322,6 +508,7 @@ const BookDetail = () => {
           if (!open) {
             setPendingRecording(null);
             setPendingImage(null);
+            setPendingText(null);
           }
         }}
         onAdd={handleAddNote}
@@ -332,8 +519,28 @@ const BookDetail = () => {
         bookFormat={book.format}
         initialRecording={pendingRecording}
         initialImage={pendingImage}
+        initialText={pendingText}
       />
 
+      {/* Review session for this book */}
+      {reviewNotes && (
+        <ReviewSession
+          notes={reviewNotes}
+          sessionId={reviewSessionId ?? undefined}
+          onComplete={() => {
+            if (reviewSessionId) {
+              completeReviewSession.mutate(reviewSessionId);
+            }
+            setReviewSessionId(null);
+            setReviewNotes(null);
+          }}
+          onClose={() => {
+            setReviewSessionId(null);
+            setReviewNotes(null);
+          }}
+        />
+      )}
+
       {/* Edit note dialog */}
       <EditNoteDialog
         open={!!editingNote}
@@ -341,6 +548,7 @@ const BookDetail = () => {
         note={editingNote}
         onSave={handleUpdateNote}
         bookFormat={book.format}
+        onOpenNote={openNote}
       />
     </div>
   );
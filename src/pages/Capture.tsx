@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { BookOpen, Camera, Mic, PenLine, Timer } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { useActiveReadingSession, useBooks, useNotes } from '@/api/hooks';
+import { CaptureRequest, isCaptureAction, takeSharedContent } from '@/lib/pwa';
+import { cn } from '@/lib/utils';
+
+const actionCopy = {
+  note: { icon: PenLine, title: 'Add a note to…' },
+  scan: { icon: Camera, title: 'Scan a page into…' },
+  record: { icon: Mic, title: 'Record a memo for…' },
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Entry point for the app shortcuts and the share target: pick the book, then its page opens
+// with the matching capture (note dialog, camera or recorder) already started.
+export default function Capture() {
+  const navigate = useNavigate();
+  const [params] = useSearchParams();
+  const { data: books, isLoading } = useBooks();
+  const { data: notes } = useNotes();
+  const { data: activeSession } = useActiveReadingSession();
+  const [request, setRequest] = useState<CaptureRequest | null>(null);
+
+  useEffect(() => {
+    const action = params.get('action');
+    if (!params.get('share')) {
+      setRequest({ action: isCaptureAction(action) ? action : 'note' });
+      return;
+    }
+    takeSharedContent()
+      .then(async (shared) => ({
+        action: 'note' as const,
+        text: shared?.text || undefined,
+        imageUrl: shared?.image ? await readAsDataUrl(shared.image) : undefined,
+      }))
+      .catch((err) => {
+        console.error('Failed to read shared content', err);
+        return { action: 'note' as const };
+      })
+      .then(setRequest);
+  }, [params]);
+
+  // The book being read right now, then books in progress, then whatever had a note last
+  const orderedBooks = useMemo(() => {
+    const lastNote = new Map<string, number>();
+    (notes ?? []).forEach((n) => {
+      lastNote.set(n.bookId, Math.max(lastNote.get(n.bookId) ?? 0, n.createdAt.getTime()));
+    });
+    const rank = (id: string, status: string) =>
+      id === activeSession?.bookId ? 0 : status === 'reading' ? 1 : 2;
+    return [...(books ?? [])].sort(
+      (a, b) =>
+        rank(a.id, a.status) - rank(b.id, b.status) ||
+        (lastNote.get(b.id) ?? b.createdAt.getTime()) - (lastNote.get(a.id) ?? a.createdAt.getTime())
+    );
+  }, [books, notes, activeSession?.bookId]);
+
+  const copy = actionCopy[request?.action ?? 'note'];
+  const Icon = copy.icon;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-lg py-6 px-4 space-y-4">
+        <h1 className="font-display text-xl font-semibold text-foreground flex items-center gap-2">
+          <Icon className="w-5 h-5 text-primary" />
+          {copy.title}
+        </h1>
+
+        {(request?.text || request?.imageUrl) && (
+          <div className="rounded-xl border border-border/60 bg-card p-3 flex gap-3">
+            {request.imageUrl && (
+              <img src={request.imageUrl} alt="Shared image" className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />
+            )}
+            {request.text && <p className="text-sm text-muted-foreground line-clamp-4 whitespace-pre-wrap">{request.text}</p>}
+          </div>
+        )}
+
+        {!request || isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading books...</p>
+        ) : orderedBooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add a book to your <Link to="/" className="text-primary underline">library</Link> first.
+          </p>
+        ) : (
+          <ul className="space-y-1.5">
+            {orderedBooks.map((book) => (
+              <li key={book.id}>
+                <button
+                  type="button"
+                  onClick={() => navigate(`/book/${book.id}`, { replace: true, state: { capture: request } })}
+                  className={cn(
+                    'w-full flex items-center gap-3 rounded-xl border border-border/60 bg-card px-3 py-2.5 text-left',
+                    'hover:bg-secondary/50 active:bg-secondary/80 transition-colors touch-manipulation'
+                  )}
+                >
+                  <div className="w-9 h-12 rounded-md bg-gradient-to-br from-secondary to-muted flex-shrink-0 overflow-hidden">
+                    {book.coverUrl ? (
+                      <img src={book.coverUrl} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <BookOpen className="w-4 h-4 text-muted-foreground/50" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-foreground truncate">{book.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">{book.author}</p>
+                  </div>
+                  {book.id === activeSession?.bookId && <Timer className="w-4 h-4 text-primary flex-shrink-0" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
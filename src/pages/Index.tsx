@@ -21,13 +21,17 @@ import { FriendsPanel } from '@/components/social/FriendsPanel';
 import { MobileTabBar } from '@/components/MobileTabBar';
 import { PullToRefresh } from '@/components/PullToRefresh';
 import { staggerContainer, staggerItem } from '@/components/PageTransition';
-import { Book, Note, BookFormat } from '@/types';
-import { useBooks, useBookMutations, useNotes, useNoteMutations, useNoteHelpers, useReviewSessionMutations } from '@/api/hooks';
-import { BookOpen, Search, Library, Sparkles, Filter, Download, Upload, Users, Rss } from 'lucide-react';
+import { Book, BookFormat, BookUpdate, Note, NoteUpdate, ReadingStatus } from '@/types';
+import { UpdateConflictError } from '@/api/patch';
+import { useBooks, useBookMutations, useNotes, useNoteMutations, useNoteHelpers, useNoteSearch, useSimilarNoteSearch, useReviewSessionMutations, useFolders } from '@/api/hooks';
+import { parseSearchQuery, fullTextTerms, noteMatchesQuery, suggestSearchCompletions } from '@/api/searchQuery';
+import { BookOpen, Search, Library, Sparkles, Filter, Waypoints, Download, Upload, Users, Rss } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useTrashUndo } from '@/hooks/use-trash-undo';
 import { SavedFiltersBar } from '@/components/SavedFiltersBar';
 import { FolderManager } from '@/components/FolderManager';
 import { CollectionManager } from '@/components/CollectionManager';
@@ -35,14 +39,32 @@ const Index = () => {
   const navigate = useNavigate();
   const { data: booksData, isLoading: booksLoading } = useBooks();
   const { data: notesData, isLoading: notesLoading } = useNotes();
-  const { create: createBook, update: updateBookMutation, remove: deleteBookMutation } = useBookMutations();
+  const { create: createBook, update: updateBookMutation, remove: deleteBookMutation, setStatus: setBookStatusMutation } = useBookMutations();
   const { create: createNote, update: updateNoteMutation, remove: deleteNoteMutation } = useNoteMutations();
+  const showTrashUndo = useTrashUndo();
   const { searchNotesClient } = useNoteHelpers();
-  const { create: createReviewSession, complete: completeReviewSession } = useReviewSessionMutations();
+  const { complete: completeReviewSession } = useReviewSessionMutations();
 
-  const books = booksData || [];
-  const notes = notesData || [];
+  const books = useMemo(() => booksData ?? [], [booksData]);
+  const notes = useMemo(() => notesData ?? [], [notesData]);
   const [searchQuery, setSearchQuery] = useState('');
+  const { data: folders = [] } = useFolders();
+  // Field operators (type:, tag:, book:, ...) filter locally; the remaining words go to full-text search
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery, { books, folders }), [searchQuery, books, folders]);
+  const debouncedSearch = useDebouncedValue(fullTextTerms(parsedSearch));
+  // The box is shared with the Notes tab; the shelf matches titles and authors on the plain words
+  const bookSearch = fullTextTerms(parsedSearch).toLowerCase();
+  // "similar" ranks notes by meaning (embeddings) instead of matching words
+  const [searchMode, setSearchMode] = useState<'text' | 'similar'>('text');
+  const similarMode = searchMode === 'similar';
+  const {
+    data: searchHits,
+    isError: searchFailed,
+    hasNextPage: moreSearchHits,
+    fetchNextPage: fetchMoreSearchHits,
+    isFetchingNextPage: fetchingMoreSearchHits,
+  } = useNoteSearch(similarMode ? '' : debouncedSearch);
+  const { data: similarHits, isError: similarFailed } = useSimilarNoteSearch(debouncedSearch, undefined, similarMode);
   const [addBookOpen, setAddBookOpen] = useState(false);
   const [editBookOpen, setEditBookOpen] = useState(false);
   const [bookToEdit, setBookToEdit] = useState<Book | null>(null);
@@ -62,7 +84,7 @@ const Index = () => {
     tags: string[];
   }>({ tags: [] });
 
-  const handleAddBook = (bookData: { title: string; author: string; format: BookFormat; coverUrl?: string; isbn?: string }) => {
+  const handleAddBook = (bookData: { title: string; author: string; format: BookFormat; coverUrl?: string; isbn?: string; status?: ReadingStatus }) => {
     createBook.mutate(bookData, {
       onSuccess: () => toast.success('Book added to your library'),
       onError: () => toast.error('Failed to add book'),
@@ -74,36 +96,46 @@ const Index = () => {
     setEditBookOpen(true);
   };
 
-  const handleSaveBook = (bookId: string, updates: { title: string; author: string; format: BookFormat; coverUrl?: string; isbn?: string }) => {
+  const handleSaveBook = (book: Book, updates: BookUpdate) => {
     updateBookMutation.mutate(
-      { id: bookId, updates },
+      { book, updates },
       {
         onSuccess: () => toast.success('Book updated'),
-        onError: () => toast.error('Failed to update book'),
+        onError: (err) => toast.error(err instanceof UpdateConflictError ? err.message : 'Failed to update book'),
       }
     );
   };
 
   const handleDeleteBook = (bookId: string) => {
     deleteBookMutation.mutate(bookId, {
-      onSuccess: () => toast.success('Book removed'),
+      onSuccess: () => showTrashUndo('book', bookId, 'Book and its notes moved to trash'),
       onError: () => toast.error('Failed to remove book'),
     });
   };
 
+  const handleBookStatusChange = (bookId: string, status: ReadingStatus) => {
+    setBookStatusMutation.mutate(
+      { id: bookId, status },
+      {
+        onSuccess: () => toast.success('Reading status updated'),
+        onError: () => toast.error('Failed to update reading status'),
+      }
+    );
+  };
+
   const handleDeleteNote = (noteId: string) => {
     deleteNoteMutation.mutate(noteId, {
-      onSuccess: () => toast.success('Note deleted'),
+      onSuccess: () => showTrashUndo('note', noteId, 'Note moved to trash'),
       onError: () => toast.error('Failed to delete note'),
     });
   };
 
-  const handleNoteUpdate = (updatedNote: Note) => {
+  const handleNoteUpdate = (note: Note, updates: NoteUpdate) => {
     updateNoteMutation.mutate(
-      { id: updatedNote.id, updates: updatedNote },
+      { note, updates },
       {
         onSuccess: () => toast.success('Note updated'),
-        onError: () => toast.error('Failed to update note'),
+        onError: (err) => toast.error(err instanceof UpdateConflictError ? err.message : 'Failed to update note'),
       }
     );
   };
@@ -116,21 +148,33 @@ const Index = () => {
     // No-op: React Query handles refetch
   }, []);
 
+  const searchHighlights = useMemo(
+    () => new Map((similarMode ? [] : searchHits ?? []).map((hit) => [hit.noteId, hit.headline])),
+    [searchHits, similarMode]
+  );
+
   const filteredNotes = useMemo(() => {
-    const base = notes;
-    const matchesSearch = (note: Note) =>
-      !searchQuery ||
-      note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.context?.toLowerCase().includes(searchQuery.toLowerCase());
+    const term = debouncedSearch.trim();
+    // Server search returns notes by relevance (or by similarity in similar mode); substring
+    // matching is only the fallback for when the search is unavailable
+    const failed = similarMode ? similarFailed : searchFailed;
+    let base = notes;
+    if (term && !failed) {
+      const byId = new Map(notes.map((n) => [n.id, n]));
+      const hits: { noteId: string }[] = (similarMode ? similarHits : searchHits) ?? [];
+      base = hits.map((hit) => byId.get(hit.noteId)).filter((n): n is Note => !!n);
+    }
+    // Phrases are part of what's being described when searching by meaning, not exact text
+    const query = similarMode && !failed ? { ...parsedSearch, phrases: [] } : parsedSearch;
     return base.filter((note) => {
-      const okSearch = matchesSearch(note);
+      const okSearch = noteMatchesQuery(note, query, failed);
       const okBook = !activeFilters.bookId || note.bookId === activeFilters.bookId;
       const okType = !activeFilters.noteType || note.type === activeFilters.noteType;
       const okFolder = !activeFilters.folderId || note.folderId === activeFilters.folderId;
       const okTags = activeFilters.tags.length === 0 || activeFilters.tags.every((tag) => note.tags?.includes(tag));
       return okSearch && okBook && okType && okFolder && okTags;
     });
-  }, [notes, searchQuery, activeFilters]);
+  }, [notes, debouncedSearch, parsedSearch, similarMode, searchHits, searchFailed, similarHits, similarFailed, activeFilters]);
 
   const getBookTitle = (bookId: string) => {
     return books.find(b => b.id === bookId)?.title || 'Unknown';
@@ -220,11 +264,32 @@ const Index = () => {
                       <SearchBar 
                         value={searchQuery}
                         onChange={setSearchQuery}
-                        placeholder={activeTab === 'library' ? 'Search books...' : 'Search notes...'}
+                        placeholder={
+                          activeTab === 'library'
+                            ? 'Search books...'
+                            : similarMode
+                              ? 'Describe an idea to find similar notes...'
+                              : 'Search notes, or try type:quote tag:...'
+                        }
+                        suggest={
+                          activeTab === 'notes'
+                            ? (value, caret) => suggestSearchCompletions(value, caret, { books, folders, tags: allTags })
+                            : undefined
+                        }
+                        errors={activeTab === 'notes' ? parsedSearch.errors : undefined}
                       />
                     </div>
                     {activeTab === 'notes' && (
                       <>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setSearchMode(similarMode ? 'text' : 'similar')}
+                          className={similarMode ? 'bg-primary/10' : ''}
+                          title={similarMode ? 'Searching by meaning' : 'Search by meaning'}
+                        >
+                          <Waypoints className="w-4 h-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="icon"
@@ -258,17 +323,9 @@ const Index = () => {
             {activeTab === 'notes' && (
               <div className="mb-6">
             <ReviewWidget 
-              onStartReview={(notes) => {
-                createReviewSession.mutate(
-                  notes.map((n) => n.id),
-                  {
-                    onSuccess: (session) => {
-                      setReviewSessionId(session.id);
-                      setReviewNotes(notes);
-                    },
-                    onError: () => toast.error('Failed to start review session'),
-                  },
-                );
+              onStartReview={(session, notes) => {
+                setReviewSessionId(session.id);
+                setReviewNotes(notes);
               }} 
             />
               </div>
@@ -325,13 +382,14 @@ const Index = () => {
                       <Bookshelf
                         books={books.filter(
                           (b) =>
-                            !searchQuery ||
-                            b.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                            b.author.toLowerCase().includes(searchQuery.toLowerCase())
+                            !bookSearch ||
+                            b.title.toLowerCase().includes(bookSearch) ||
+                            b.author.toLowerCase().includes(bookSearch)
                         )}
                         onBookClick={(bookId) => navigate(`/book/${bookId}`)}
                         onDeleteBook={handleDeleteBook}
                         onEditBook={handleEditBook}
+                        onStatusChange={handleBookStatusChange}
                         onReorder={() => {}}
                       />
                   )}
@@ -352,7 +410,13 @@ const Index = () => {
                   <EmptyState
                     icon={Search}
                     title={searchQuery ? 'No notes found' : 'No notes yet'}
-                    description={searchQuery ? 'Try a different search term.' : 'Start adding notes from your books to see them here.'}
+                    description={
+                      searchQuery
+                        ? similarMode
+                          ? 'Nothing close in meaning yet. Try describing the idea differently.'
+                          : 'Try a different search term.'
+                        : 'Start adding notes from your books to see them here.'
+                    }
                   />
                 ) : (
                   <motion.div 
@@ -374,11 +438,25 @@ const Index = () => {
                           onClick={() => setEditingNote(note)}
                           showBookTitle={getBookTitle(note.bookId)}
                           onBookClick={() => navigate(`/book/${note.bookId}`)}
+                          searchHighlight={searchHighlights.get(note.id)}
+                          onOpenNote={setEditingNote}
                         />
                       </motion.div>
                     ))}
                   </motion.div>
                 )}
+                {!isLoading && moreSearchHits && (
+                  <div className="flex justify-center max-w-2xl mx-auto pt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchMoreSearchHits()}
+                      disabled={fetchingMoreSearchHits}
+                    >
+                      {fetchingMoreSearchHits ? 'Loading…' : 'Show more results'}
+                    </Button>
+                  </div>
+                )}
               </PullToRefresh>
             )}
 
@@ -466,6 +544,7 @@ const Index = () => {
         note={editingNote}
         onSave={handleNoteUpdate}
         bookFormat={editingNote ? getBookFormat(editingNote.bookId) : undefined}
+        onOpenNote={setEditingNote}
       />
     </div>
   );
@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Network, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Header } from '@/components/Header';
+import { EditNoteDialog } from '@/components/EditNoteDialog';
+import { KnowledgeGraphCanvas } from '@/components/KnowledgeGraphCanvas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useBooks, useCollections, useFolders, useNoteLinks, useNoteMutations, useNotes } from '@/api/hooks';
+import {
+  GraphNode,
+  GraphNodeKind,
+  allGraphKinds,
+  buildKnowledgeGraph,
+  graphNodeColors,
+} from '@/api/knowledgeGraph';
+import { Note, NoteUpdate } from '@/types';
+import { UpdateConflictError } from '@/api/patch';
+
+const kindOptions: { kind: GraphNodeKind; label: string; color: string }[] = [
+  { kind: 'book', label: 'Books', color: graphNodeColors.book },
+  { kind: 'note', label: 'Notes', color: graphNodeColors.note.idea },
+  { kind: 'tag', label: 'Tags', color: graphNodeColors.tag },
+  { kind: 'folder', label: 'Folders', color: graphNodeColors.folder },
+  { kind: 'collection', label: 'Collections', color: graphNodeColors.collection },
+];
+
+export default function KnowledgeGraph() {
+  const navigate = useNavigate();
+  const { data: booksData, isLoading: booksLoading } = useBooks();
+  const { data: notesData, isLoading: notesLoading } = useNotes();
+  const { data: foldersData } = useFolders();
+  const { data: collectionsData } = useCollections();
+  const { data: linksData } = useNoteLinks();
+  const { update: updateNoteMutation } = useNoteMutations();
+
+  const [folderId, setFolderId] = useState<string>();
+  const [tag, setTag] = useState<string>();
+  const [collectionId, setCollectionId] = useState<string>();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [kinds, setKinds] = useState(allGraphKinds);
+  const [editingNote, setEditingNote] = useState<Note | null>(null);
+
+  const books = useMemo(() => booksData ?? [], [booksData]);
+  const notes = useMemo(() => notesData ?? [], [notesData]);
+  const folders = useMemo(() => foldersData ?? [], [foldersData]);
+  const collections = useMemo(() => collectionsData ?? [], [collectionsData]);
+
+  const tags = useMemo(() => {
+    const all = new Set<string>();
+    for (const note of notes) note.tags?.forEach((t) => all.add(t));
+    for (const book of books) book.tags?.forEach((t) => all.add(t));
+    return [...all].sort((a, b) => a.localeCompare(b));
+  }, [notes, books]);
+
+  const graph = useMemo(
+    () =>
+      buildKnowledgeGraph(
+        { books, notes, folders, collections, links: linksData },
+        {
+          folderId,
+          tag,
+          collectionId,
+          from: from ? new Date(`${from}T00:00:00`) : undefined,
+          to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+          kinds,
+        }
+      ),
+    [books, notes, folders, collections, linksData, folderId, tag, collectionId, from, to, kinds]
+  );
+
+  const hasFilters =
+    !!folderId || !!tag || !!collectionId || !!from || !!to || Object.values(kinds).some((on) => !on);
+  const resetFilters = () => {
+    setFolderId(undefined);
+    setTag(undefined);
+    setCollectionId(undefined);
+    setFrom('');
+    setTo('');
+    setKinds(allGraphKinds);
+  };
+
+  const handleNodeClick = (node: GraphNode) => {
+    switch (node.kind) {
+      case 'book':
+        navigate(`/book/${node.refId}`);
+        break;
+      case 'note':
+        setEditingNote(notes.find((n) => n.id === node.refId) ?? null);
+        break;
+      case 'tag':
+        setTag(node.refId);
+        break;
+      case 'folder':
+        setFolderId(node.refId);
+        break;
+      case 'collection':
+        setCollectionId(node.refId);
+        break;
+    }
+  };
+
+  const handleNoteUpdate = (note: Note, updates: NoteUpdate) => {
+    updateNoteMutation.mutate(
+      { note, updates },
+      {
+        onSuccess: () => toast.success('Note updated'),
+        onError: (err) => toast.error(err instanceof UpdateConflictError ? err.message : 'Failed to update note'),
+      }
+    );
+  };
+
+  const loading = booksLoading || notesLoading;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container max-w-6xl py-6 px-4 flex-1 flex flex-col gap-4">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Network className="w-5 h-5 text-primary" />
+            <h1 className="font-display text-2xl font-bold text-foreground">Knowledge graph</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {graph.nodes.length} nodes · {graph.edges.length} connections
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={folderId ?? 'all'} onValueChange={(v) => setFolderId(v === 'all' ? undefined : v)}>
+            <SelectTrigger className="w-[160px] h-8">
+              <SelectValue placeholder="All folders" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All folders</SelectItem>
+              {folders.map((folder) => (
+                <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={tag ?? 'all'} onValueChange={(v) => setTag(v === 'all' ? undefined : v)}>
+            <SelectTrigger className="w-[160px] h-8">
+              <SelectValue placeholder="All tags" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All tags</SelectItem>
+              {tags.map((t) => (
+                <SelectItem key={t} value={t}>#{t}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={collectionId ?? 'all'} onValueChange={(v) => setCollectionId(v === 'all' ? undefined : v)}>
+            <SelectTrigger className="w-[160px] h-8">
+              <SelectValue placeholder="All collections" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All collections</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-8 w-[140px]"
+              aria-label="Notes from"
+            />
+            <span>to</span>
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-8 w-[140px]"
+              aria-label="Notes to"
+            />
+          </div>
+
+          <ToggleGroup
+            type="multiple"
+            size="sm"
+            value={kindOptions.filter((o) => kinds[o.kind]).map((o) => o.kind)}
+            onValueChange={(values) =>
+              setKinds(
+                Object.fromEntries(kindOptions.map((o) => [o.kind, values.includes(o.kind)])) as typeof allGraphKinds
+              )
+            }
+            className="flex-wrap justify-start"
+          >
+            {kindOptions.map((option) => (
+              <ToggleGroupItem key={option.kind} value={option.kind} className="h-8 gap-1.5 text-xs">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: option.color }} />
+                {option.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={resetFilters} className="h-8 gap-1.5 text-xs">
+              <RotateCcw className="w-3.5 h-3.5" />
+              Reset
+            </Button>
+          )}
+        </div>
+
+        <div className="relative flex-1 min-h-[480px] rounded-2xl border border-border bg-card overflow-hidden">
+          <KnowledgeGraphCanvas graph={graph} onNodeClick={handleNodeClick} className="absolute inset-0" />
+          {!loading && graph.nodes.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center p-6 text-center pointer-events-none">
+              <p className="text-sm text-muted-foreground">
+                {hasFilters ? 'Nothing matches these filters' : 'Add books and notes to see how they connect'}
+              </p>
+            </div>
+          )}
+          <p className="absolute bottom-3 left-3 text-[11px] text-muted-foreground pointer-events-none">
+            Scroll to zoom · drag to pan · double-click to fit · click a node to open it
+          </p>
+        </div>
+      </main>
+
+      <EditNoteDialog
+        open={!!editingNote}
+        onOpenChange={(open) => !open && setEditingNote(null)}
+        note={editingNote}
+        onSave={handleNoteUpdate}
+        bookFormat={editingNote ? books.find((b) => b.id === editingNote.bookId)?.format : undefined}
+        onOpenNote={setEditingNote}
+      />
+    </div>
+  );
+}
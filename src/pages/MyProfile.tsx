@@ -27,6 +27,7 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { getProfile, updateProfile } from '@/lib/supabaseProfile';
 import { useBooks, useNotes, useReadingGoals, useGoalsMutations, useActivity, useActivityHelpers } from '@/api/hooks';
+import { ReviewAnalytics } from '@/components/ReviewAnalytics';
 
 interface UserProfileData {
   name: string;
@@ -52,6 +53,7 @@ export default function MyProfile() {
   const [isEditingGoal, setIsEditingGoal] = useState(false);
   const [goalInput, setGoalInput] = useState(12);
   const [stats, setStats] = useState({
+    books: 0,
     booksRead: 0,
     totalNotes: 0,
     quotes: 0,
@@ -68,7 +70,7 @@ export default function MyProfile() {
   const { data: goalsData } = useReadingGoals();
   const { update: updateGoals } = useGoalsMutations();
   const { data: activityDates } = useActivity();
-  const { calculateStreakFromDates } = useActivityHelpers();
+  const { calculateStreakFromDates, countBooksFinishedInYear } = useActivityHelpers();
 
   useEffect(() => {
     const load = async () => {
@@ -98,7 +100,8 @@ export default function MyProfile() {
     const books = booksData || [];
     const notes = notesData || [];
     setStats({
-      booksRead: books.length,
+      books: books.length,
+      booksRead: books.filter(b => b.status === 'finished').length,
       totalNotes: notes.length,
       quotes: notes.filter(n => n.type === 'quote').length,
       ideas: notes.filter(n => n.type === 'idea').length,
@@ -114,8 +117,8 @@ export default function MyProfile() {
     setStreak(calculateStreakFromDates(dates));
     setActivityDays(dates.length);
     const currentYear = new Date().getFullYear();
-    setBooksThisYear(books.filter(b => new Date(b.createdAt).getFullYear() === currentYear).length);
-  }, [booksData, notesData, goalsData, activityDates, calculateStreakFromDates]);
+    setBooksThisYear(countBooksFinishedInYear(books, currentYear));
+  }, [booksData, notesData, goalsData, activityDates, calculateStreakFromDates, countBooksFinishedInYear]);
 
   const handleSaveGoal = () => {
     updateGoals.mutate(goalInput, {
@@ -310,7 +313,7 @@ export default function MyProfile() {
               <>
                 <div className="flex items-baseline gap-2 mb-2">
                   <span className="text-3xl font-bold text-foreground">{booksThisYear}</span>
-                  <span className="text-muted-foreground">/ {goals.yearlyBookTarget} books</span>
+                  <span className="text-muted-foreground">/ {goals.yearlyBookTarget} books finished</span>
                 </div>
                 <Progress 
                   value={Math.min((booksThisYear / goals.yearlyBookTarget) * 100, 100)} 
@@ -371,8 +374,8 @@ export default function MyProfile() {
             <div className="flex items-center justify-center gap-2 mb-1">
               <BookOpen className="w-5 h-5 text-primary" />
             </div>
-            <p className="text-2xl font-bold text-foreground">{stats.booksRead}</p>
-            <p className="text-xs text-muted-foreground">Books</p>
+            <p className="text-2xl font-bold text-foreground">{stats.books}</p>
+            <p className="text-xs text-muted-foreground">Books ({stats.booksRead} finished)</p>
           </Card>
           <Card className="p-4 text-center">
             <div className="flex items-center justify-center gap-2 mb-1">
@@ -401,6 +404,7 @@ export default function MyProfile() {
         <Tabs defaultValue="breakdown" className="w-full">
           <TabsList className="w-full md:w-auto">
             <TabsTrigger value="breakdown" className="flex-1 md:flex-none">Notes Breakdown</TabsTrigger>
+            <TabsTrigger value="reviews" className="flex-1 md:flex-none">Reviews</TabsTrigger>
             <TabsTrigger value="achievements" className="flex-1 md:flex-none">Achievements</TabsTrigger>
           </TabsList>
 
@@ -434,12 +438,16 @@ export default function MyProfile() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="reviews" className="mt-4">
+            <ReviewAnalytics />
+          </TabsContent>
+
           <TabsContent value="achievements" className="mt-4">
             <Card className="p-6">
               <h3 className="font-semibold text-foreground mb-4">Your Achievements</h3>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
                 {[
-                  { name: 'First Book', desc: 'Added your first book', unlocked: stats.booksRead >= 1, icon: '*' },
+                  { name: 'First Book', desc: 'Added your first book', unlocked: stats.books >= 1, icon: '*' },
                   { name: 'Note Taker', desc: 'Captured 10 notes', unlocked: stats.totalNotes >= 10, icon: '*' },
                   { name: 'Bookworm', desc: 'Read 5 books', unlocked: stats.booksRead >= 5, icon: '*' },
                   { name: 'Quote Collector', desc: 'Saved 10 quotes', unlocked: stats.quotes >= 10, icon: '*' },
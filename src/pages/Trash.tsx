@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, formatDistanceToNow } from 'date-fns';
+import { BookOpen, FileText, Folder as FolderIcon, Library, RotateCcw, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useBooks, useTrash, useTrashMutations, useTrashRetention } from '@/api/hooks';
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashItemRef, TrashKind } from '@/api/trash';
+import { stripNoteLinks } from '@/api/noteLinks';
+import { stripCloze } from '@/api/cloze';
+
+const retentionOptions = [7, 14, 30, 60, 90, 180, 365];
+
+interface TrashRow extends TrashItemRef {
+  title: string;
+  detail?: string;
+  deletedAt: Date;
+}
+
+const sections: { kind: TrashKind; label: string; icon: typeof BookOpen }[] = [
+  { kind: 'book', label: 'Books', icon: BookOpen },
+  { kind: 'note', label: 'Notes', icon: FileText },
+  { kind: 'folder', label: 'Folders', icon: FolderIcon },
+  { kind: 'collection', label: 'Collections', icon: Library },
+];
+
+export default function Trash() {
+  const { data: trash, isLoading } = useTrash();
+  const { data: retentionData } = useTrashRetention();
+  const { data: booksData } = useBooks();
+  const { restore, purge, empty, purgeExpired, setRetention } = useTrashMutations();
+  const [confirm, setConfirm] = useState<{ items?: TrashItemRef[]; title: string } | null>(null);
+  const retention = retentionData ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  // Anything past the retention period goes as soon as the trash is opened
+  const { mutate: runPurgeExpired } = purgeExpired;
+  useEffect(() => {
+    runPurgeExpired();
+  }, [runPurgeExpired]);
+
+  const rows = useMemo(() => {
+    const byKind: Record<TrashKind, TrashRow[]> = { book: [], note: [], folder: [], collection: [] };
+    if (!trash) return byKind;
+    const bookTitles = new Map([...(booksData ?? []), ...trash.books].map((b) => [b.id, b.title]));
+    // Notes that went with their book are restored and purged with it
+    const trashedWithBook = new Set(
+      trash.notes
+        .filter((n) => trash.books.some((b) => b.id === n.bookId && b.deletedAt?.getTime() === n.deletedAt?.getTime()))
+        .map((n) => n.id)
+    );
+
+    byKind.book = trash.books.map((book) => {
+      const count = trash.notes.filter((n) => n.bookId === book.id && trashedWithBook.has(n.id)).length;
+      return {
+        kind: 'book',
+        id: book.id,
+        title: book.title,
+        detail: `${book.author}${count ? ` · ${count} ${count === 1 ? 'note' : 'notes'}` : ''}`,
+        deletedAt: book.deletedAt!,
+      };
+    });
+    byKind.note = trash.notes
+      .filter((note) => !trashedWithBook.has(note.id))
+      .map((note) => ({
+        kind: 'note',
+        id: note.id,
+        title: stripCloze(stripNoteLinks(note.content)) || note.type,
+        detail: bookTitles.get(note.bookId) ?? 'Unknown book',
+        deletedAt: note.deletedAt!,
+      }));
+    byKind.folder = trash.folders.map((folder) => ({
+      kind: 'folder',
+      id: folder.id,
+      title: folder.name,
+      deletedAt: folder.deletedAt!,
+    }));
+    byKind.collection = trash.collections.map((collection) => ({
+      kind: 'collection',
+      id: collection.id,
+      title: collection.name,
+      detail: collection.description,
+      deletedAt: collection.deletedAt!,
+    }));
+    return byKind;
+  }, [trash, booksData]);
+
+  const total = Object.values(rows).reduce((sum, list) => sum + list.length, 0);
+
+  const handleRestore = (row: TrashRow) => {
+    restore.mutate(
+      { kind: row.kind, id: row.id },
+      {
+        onSuccess: () => toast.success(`Restored “${row.title}”`),
+        onError: () => toast.error('Failed to restore'),
+      }
+    );
+  };
+
+  const handlePurge = () => {
+    if (!confirm) return;
+    const options = {
+      onSuccess: () => toast.success(confirm.items ? 'Deleted for good' : 'Trash emptied'),
+      onError: () => toast.error('Failed to delete'),
+    };
+    if (confirm.items) purge.mutate(confirm.items, options);
+    else empty.mutate(undefined, options);
+    setConfirm(null);
+  };
+
+  const handleRetentionChange = (value: string) => {
+    setRetention.mutate(Number(value), {
+      onSuccess: (days) => toast.success(`Trash now keeps items for ${days} days`),
+      onError: () => toast.error('Failed to update retention'),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-3xl py-8 px-4 space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="font-display text-2xl font-bold text-foreground flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-primary" />
+              Trash
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Deleted items can be restored until they are removed for good, along with their images and audio.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setConfirm({ title: 'Empty the trash?' })}
+            disabled={total === 0 || empty.isPending}
+            className="gap-1.5 text-destructive hover:text-destructive"
+          >
+            <Trash2 className="w-4 h-4" />
+            Empty trash
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Keep deleted items for</span>
+          <Select value={String(retention)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className="w-[120px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([...retentionOptions, retention])]
+                .sort((a, b) => a - b)
+                .map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading trash...</p>
+        ) : total === 0 ? (
+          <div className="rounded-2xl border border-dashed border-border p-10 text-center">
+            <Trash2 className="w-8 h-8 mx-auto text-muted-foreground/50" />
+            <p className="mt-3 text-sm text-muted-foreground">The trash is empty</p>
+          </div>
+        ) : (
+          sections
+            .filter(({ kind }) => rows[kind].length > 0)
+            .map(({ kind, label, icon: Icon }) => (
+              <section key={kind} className="space-y-2">
+                <h2 className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  <Icon className="w-3.5 h-3.5" />
+                  {label} ({rows[kind].length})
+                </h2>
+                <ul className="space-y-1.5">
+                  {rows[kind].map((row) => (
+                    <li
+                      key={row.id}
+                      className="flex items-center gap-3 rounded-xl border border-border/60 bg-card px-3 py-2.5"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-foreground truncate">{row.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {row.detail ? `${row.detail} · ` : ''}
+                          Deleted {formatDistanceToNow(row.deletedAt, { addSuffix: true })} · removed for good{' '}
+                          {formatDistanceToNow(addDays(row.deletedAt, retention), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore(row)}
+                        disabled={restore.isPending}
+                        className="gap-1.5 h-8"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setConfirm({ items: [{ kind: row.kind, id: row.id }], title: `Delete “${row.title}” for good?` })}
+                        disabled={purge.isPending}
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        aria-label="Delete for good"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))
+        )}
+      </main>
+
+      <AlertDialog open={!!confirm} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="line-clamp-2">{confirm?.title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm?.items
+                ? 'This cannot be undone. A book is deleted with its notes, and attached images and audio are removed.'
+                : 'Everything in the trash is deleted for good, including attached images and audio. This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete for good
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
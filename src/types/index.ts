@@ -1,6 +1,19 @@
 export type NoteType = 'quote' | 'idea' | 'question' | 'action';
 export type MediaType = 'text' | 'image' | 'audio';
 export type BookFormat = 'physical' | 'ebook' | 'audiobook';
+export type ReadingStatus = 'want_to_read' | 'reading' | 'finished' | 'abandoned';
+// How well a note was recalled: 1 again (forgot), 2 hard, 3 good, 4 easy
+export type ReviewGrade = 1 | 2 | 3 | 4;
+
+// Scheduler state of one cloze deletion in a note, like the note-level review fields
+export interface ClozeReviewState {
+  stability: number;
+  difficulty: number;
+  lapses: number;
+  reviewCount: number;
+  lastReviewedAt: Date;
+  nextReviewAt: Date;
+}
 
 export interface Book {
   id: string;
@@ -9,11 +22,24 @@ export interface Book {
   coverUrl?: string;
   isbn?: string;
   format: BookFormat;
+  // Reading lifecycle
+  status: ReadingStatus;
+  startedAt?: Date;
+  finishedAt?: Date;
+  // Reading progress (duration/position in seconds)
+  totalPages?: number;
+  totalDuration?: number;
+  currentPage?: number;
+  currentPosition?: number;
+  rating?: number;
   createdAt: Date;
+  updatedAt: Date;
   notesCount: number;
   tags?: string[];
   folderId?: string;
   displayOrder?: number;
+  // Set while the book is in the trash
+  deletedAt?: Date;
 }
 
 export interface Note {
@@ -46,13 +72,59 @@ export interface Note {
   lastReviewedAt?: Date;
   reviewCount: number;
   nextReviewAt?: Date;
+  // Scheduler state, set by graded reviews: stability in days, difficulty 1-10, times forgotten
+  reviewStability?: number;
+  reviewDifficulty?: number;
+  reviewLapses?: number;
+  // Per-cloze scheduler state for {{c1::...}} notes, keyed by cloze number
+  reviewClozes?: Record<number, ClozeReviewState>;
   // Privacy
   isPrivate?: boolean;
   // Timestamps
   createdAt: Date;
   updatedAt: Date;
+  // Set while the note is in the trash
+  deletedAt?: Date;
+  // Captured or edited on this device and not yet synced
+  pendingSync?: boolean;
+  // A capture the server kept rejecting; stays on this device until retried or discarded
+  syncFailed?: boolean;
 }
 
+// Partial update: keys left out are untouched, null clears the field
+export type Patch<T> = { [K in keyof T]?: T[K] | null };
+
+export type BookUpdate = Patch<
+  Pick<Book, 'title' | 'author' | 'format' | 'coverUrl' | 'isbn' | 'tags' | 'folderId' | 'totalPages' | 'totalDuration' | 'rating'>
+>;
+
+export type NoteUpdate = Patch<
+  Pick<
+    Note,
+    | 'type'
+    | 'mediaType'
+    | 'content'
+    | 'imageUrl'
+    | 'extractedText'
+    | 'audioUrl'
+    | 'audioDuration'
+    | 'transcript'
+    | 'location'
+    | 'timestamp'
+    | 'chapter'
+    | 'context'
+    | 'tags'
+    | 'folderId'
+    | 'aiSummary'
+    | 'aiExpanded'
+    | 'aiFlashcard'
+    | 'reviewCount'
+    | 'lastReviewedAt'
+    | 'nextReviewAt'
+    | 'isPrivate'
+  >
+>;
+
 export interface BookWithNotes extends Book {
   notes: Note[];
 }
@@ -62,6 +134,7 @@ export interface Folder {
   name: string;
   color?: string;
   createdAt: Date;
+  deletedAt?: Date;
 }
 
 export interface Collection {
@@ -70,16 +143,81 @@ export interface Collection {
   description?: string;
   noteIds: string[];
   createdAt: Date;
+  deletedAt?: Date;
 }
 
+// A slice of the library (a review deck, an Anki export)
+export type NoteScope =
+  | { kind: 'all' }
+  | { kind: 'book'; id: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'collection'; id: string }
+  | { kind: 'savedFilter'; id: string };
+
 export interface ReviewSession {
   id: string;
   noteIds: string[];
   completedNoteIds: string[];
+  // Where the notes were picked from, and the size/new-note share asked for
+  scope: NoteScope;
+  sessionSize?: number;
+  newShare?: number;
   createdAt: Date;
   completedAt?: Date;
 }
 
+export interface ReadingProgressEntry {
+  id: string;
+  bookId: string;
+  page?: number;
+  positionSeconds?: number;
+  noteId?: string;
+  createdAt: Date;
+}
+
+export interface ReadingSession {
+  id: string;
+  bookId: string;
+  startedAt: Date;
+  endedAt?: Date;
+  durationSeconds?: number;
+  startPage?: number;
+  endPage?: number;
+  startPosition?: number;
+  endPosition?: number;
+  noteIds: string[];
+}
+
+// A [[link]] from a note's text to another note or a book (exactly one target)
+export interface NoteLink {
+  id: string;
+  sourceNoteId: string;
+  targetNoteId?: string;
+  targetBookId?: string;
+  createdAt: Date;
+}
+
+// A note's text as it was before an edit
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  type: NoteType;
+  content: string;
+  context?: string;
+  chapter?: string;
+  location?: string;
+  tags?: string[];
+  extractedText?: string;
+  transcript?: string;
+  aiSummary?: string;
+  aiExpanded?: string;
+  aiFlashcard?: { question: string; answer: string };
+  // When this version was written
+  versionAt: Date;
+  // When it was replaced
+  createdAt: Date;
+}
+
 export interface SavedFilter {
   id: string;
   name: string;
@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 
-type AIAction = "cleanup" | "expand" | "summarize" | "flashcard";
+type AIAction = "cleanup" | "expand" | "summarize" | "flashcard" | "cloze";
 
 // Use a dedicated key for AI actions.
 // Set with: supabase secrets set GEMINI_API_KEY_ACTIONS=your_key
@@ -33,7 +33,7 @@ serve(async (req) => {
       context?: NoteContextInput;
     };
 
-    if (!action || !["cleanup", "expand", "summarize", "flashcard"].includes(action)) {
+    if (!action || !["cleanup", "expand", "summarize", "flashcard", "cloze"].includes(action)) {
       return new Response("Invalid action", { status: 400, headers: corsHeaders });
     }
     if (!text || typeof text !== "string") {
@@ -82,6 +82,13 @@ serve(async (req) => {
       });
     }
 
+    // The quote has to come back word for word, only with the deletions marked
+    const unchanged = squash(stripCloze(content)) === squash(stripCloze(text));
+    if (action === "cloze" && (!CLOZE_PATTERN.test(content) || !unchanged)) {
+      console.error("ai-actions cloze: quote was altered", content);
+      return new Response("AI changed the quote", { status: 502, headers: corsHeaders });
+    }
+
     return new Response(JSON.stringify({ text: content }), {
       headers: { "Content-Type": "application/json", ...corsHeaders },
     });
@@ -136,9 +143,21 @@ function buildSystemPrompt(action: AIAction): string {
         "A: ...",
         "(Assumption: ... optional)",
       ].join(" ");
+    case "cloze":
+      return [
+        "You turn a quote into cloze deletion cards for spaced repetition.",
+        "Pick the 1-3 phrases most worth remembering: key terms, names, numbers, or the core claim; never filler words.",
+        "Wrap each in {{c1::phrase}}, {{c2::phrase}}, ... numbered in order of appearance.",
+        "Do not change, add, or remove any other character of the quote; no Assumption line.",
+        "Output only the quote with the markup.",
+      ].join(" ");
   }
 }
 
+const CLOZE_PATTERN = /\{\{c\d+::([\s\S]+?)(?:::[^{}]*?)?\}\}/;
+const stripCloze = (text: string) => text.replace(new RegExp(CLOZE_PATTERN.source, "g"), "$1");
+const squash = (text: string) => text.replace(/\s+/g, " ").trim();
+
 type NoteContextInput = {
   bookTitle?: string;
   bookAuthor?: string;
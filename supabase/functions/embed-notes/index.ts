@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EmbeddingProvider, getEmbeddingProvider } from "./providers.ts";
+
+// Embeds the caller's notes (content + context) into public.note_embeddings and runs
+// similarity searches. Runs with the caller's JWT, so RLS scopes everything to their notes.
+//   { action: "embed", limit? }                    -> { embedded, remaining }
+//   { action: "search", query, bookId?, limit? }   -> { matches: [{ note_id, similarity }] }
+
+const BATCH_SIZE = 50;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return new Response("Not authenticated", { status: 401, headers: corsHeaders });
+  }
+
+  let provider: EmbeddingProvider;
+  try {
+    provider = getEmbeddingProvider();
+  } catch (err) {
+    return new Response((err as Error).message, { status: 500, headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response("Not authenticated", { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const { action, query, bookId, limit } = await req.json() as {
+      action?: "embed" | "search";
+      query?: string;
+      bookId?: string;
+      limit?: number;
+    };
+
+    if (action === "embed") {
+      return json(await embedPending(supabase, provider, user.id, limit ?? 200));
+    }
+
+    if (action === "search") {
+      if (!query || typeof query !== "string" || !query.trim()) {
+        return new Response("Missing query", { status: 400, headers: corsHeaders });
+      }
+      // Catch up on recently added or edited notes so they can be found
+      await embedPending(supabase, provider, user.id, BATCH_SIZE);
+
+      const [embedding] = await provider.embed([query.trim()], "query");
+      // Nothing embeddable (e.g. only stop words for the stub); a zero vector has no direction
+      if (!embedding?.some((v) => v !== 0)) {
+        return json({ matches: [] });
+      }
+      const { data, error } = await supabase.rpc("match_notes", {
+        p_embedding: JSON.stringify(embedding),
+        p_model: provider.model,
+        p_book_id: bookId ?? null,
+        p_limit: limit ?? 30,
+      });
+      if (error) throw error;
+      return json({ matches: data ?? [] });
+    }
+
+    return new Response("Invalid action", { status: 400, headers: corsHeaders });
+  } catch (err) {
+    console.error("embed-notes error", err);
+    return new Response("Embedding request failed", { status: 500, headers: corsHeaders });
+  }
+});
+
+async function embedPending(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  userId: string,
+  limit: number,
+): Promise<{ embedded: number; remaining: boolean }> {
+  let embedded = 0;
+  while (embedded < limit) {
+    const size = Math.min(BATCH_SIZE, limit - embedded);
+    const { data, error } = await supabase.rpc("pending_note_embeddings", {
+      p_model: provider.model,
+      p_limit: size,
+    });
+    if (error) throw error;
+    const pending = (data ?? []) as { note_id: string; input: string; content_hash: string }[];
+    if (!pending.length) return { embedded, remaining: false };
+
+    const vectors = await provider.embed(pending.map((p) => p.input), "document");
+    const { error: upsertError } = await supabase.from("note_embeddings").upsert(
+      pending.map((p, i) => ({
+        note_id: p.note_id,
+        user_id: userId,
+        embedding: JSON.stringify(vectors[i]),
+        model: provider.model,
+        content_hash: p.content_hash,
+        embedded_at: new Date().toISOString(),
+      })),
+      { onConflict: "note_id" },
+    );
+    if (upsertError) throw upsertError;
+
+    embedded += pending.length;
+    if (pending.length < size) return { embedded, remaining: false };
+  }
+  return { embedded, remaining: true };
+}
@@ -0,0 +1,129 @@
+// Embedding providers for embed-notes. Pick one with:
+//   supabase secrets set EMBEDDING_PROVIDER=gemini|openai|stub
+// Every provider returns EMBEDDING_DIMENSIONS values to match note_embeddings.embedding.
+// "stub" needs no key and is deterministic (same text, same vector), for local runs and tests.
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+export type EmbeddingKind = "document" | "query";
+
+export interface EmbeddingProvider {
+  // Stored alongside each vector; only vectors from the same model are compared
+  model: string;
+  embed(texts: string[], kind: EmbeddingKind): Promise<number[][]>;
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const name = (Deno.env.get("EMBEDDING_PROVIDER") ?? "gemini").toLowerCase();
+  switch (name) {
+    case "gemini":
+      return geminiProvider();
+    case "openai":
+      return openAIProvider();
+    case "stub":
+      return stubProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}"`);
+  }
+}
+
+// Set with: supabase secrets set GEMINI_API_KEY_EMBEDDINGS=your_key
+function geminiProvider(): EmbeddingProvider {
+  const key = Deno.env.get("GEMINI_API_KEY_EMBEDDINGS");
+  const model = Deno.env.get("GEMINI_EMBEDDING_MODEL") ?? "text-embedding-004";
+  if (!key) throw new Error("GEMINI_API_KEY_EMBEDDINGS is not set");
+
+  return {
+    model: `gemini:${model}`,
+    async embed(texts, kind) {
+      const res = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${key}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            requests: texts.map((text) => ({
+              model: `models/${model}`,
+              content: { parts: [{ text }] },
+              taskType: kind === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+              outputDimensionality: EMBEDDING_DIMENSIONS,
+            })),
+          }),
+        },
+      );
+      if (!res.ok) {
+        throw new Error(`Gemini embeddings failed (${res.status}): ${await res.text()}`);
+      }
+      const data = await res.json();
+      return (data.embeddings ?? []).map((e: { values: number[] }) => e.values);
+    },
+  };
+}
+
+// Set with: supabase secrets set OPENAI_API_KEY=your_key
+function openAIProvider(): EmbeddingProvider {
+  const key = Deno.env.get("OPENAI_API_KEY");
+  const model = Deno.env.get("OPENAI_EMBEDDING_MODEL") ?? "text-embedding-3-small";
+  if (!key) throw new Error("OPENAI_API_KEY is not set");
+
+  return {
+    model: `openai:${model}`,
+    async embed(texts) {
+      const res = await fetch("https://api.openai.com/v1/embeddings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+      if (!res.ok) {
+        throw new Error(`OpenAI embeddings failed (${res.status}): ${await res.text()}`);
+      }
+      const data = await res.json();
+      return (data.data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding);
+    },
+  };
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "her", "was", "one", "our",
+  "out", "his", "has", "had", "how", "its", "who", "did", "this", "that", "with", "from", "they",
+  "have", "were", "will", "what", "when", "your", "than", "then", "them", "there", "which", "about",
+  "into", "only", "just", "more", "some", "such", "also", "their", "would", "should", "could",
+]);
+
+// FNV-1a, 32-bit
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Feature hashing over words and word pairs: texts sharing vocabulary land close together.
+// Not semantic, but stable across runs, so tests can assert on neighbours.
+function stubProvider(): EmbeddingProvider {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((w) => w.length > 2 && !STOP_WORDS.has(w))
+      .map((w) => (w.length > 4 ? w.replace(/(ies|es|s)$/, "") : w));
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+    for (const feature of features) {
+      const h = hash(feature);
+      const weight = feature.includes(" ") ? 0.5 : 1;
+      vector[h % EMBEDDING_DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map((v) => v / norm) : vector;
+  };
+
+  return {
+    model: `stub:hash-${EMBEDDING_DIMENSIONS}`,
+    embed: (texts) => Promise.resolve(texts.map(embedOne)),
+  };
+}
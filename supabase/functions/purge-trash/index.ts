@@ -0,0 +1,204 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Deletes trashed books, notes, folders and collections for good, along with the storage objects
+// (note images/audio, book covers) nothing else references any more.
+//   user JWT:      { items?: [{ kind, id }], all?: boolean }
+//                  items -> those trashed items; all -> the whole trash; neither -> items past the
+//                  user's retention period
+//   service role:  {} -> items past their owner's retention period, for every user (scheduled run)
+// Returns { books, notes, folders, collections, files }.
+
+type Kind = "book" | "note" | "folder" | "collection";
+type Target = { kind: Kind; id: string; user_id: string };
+type Bucket = "note-images" | "note-audio" | "book-covers";
+
+const tables: Record<Kind, string> = {
+  book: "books",
+  note: "notes",
+  folder: "folders",
+  collection: "collections",
+};
+
+const CHUNK = 200;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const chunks = <T>(list: T[]) => {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += CHUNK) out.push(list.slice(i, i + CHUNK));
+  return out;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return new Response("Not authenticated", { status: 401, headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+  const token = authorization.replace(/^Bearer\s+/i, "");
+
+  // The scheduled run authenticates with the service role key itself
+  let userId: string | null = null;
+  if (token !== serviceKey) {
+    const { data: { user } } = await admin.auth.getUser(token);
+    if (!user) {
+      return new Response("Not authenticated", { status: 401, headers: corsHeaders });
+    }
+    userId = user.id;
+  }
+
+  try {
+    const body = await req.json().catch(() => ({})) as {
+      items?: { kind: Kind; id: string }[];
+      all?: boolean;
+    };
+
+    let targets: Target[];
+    if (userId && (body.all || body.items?.length)) {
+      targets = await trashedTargets(admin, userId, body.all ? undefined : body.items);
+    } else {
+      const { data, error } = await admin.rpc("trash_purge_targets", { p_user_id: userId });
+      if (error) throw error;
+      targets = (data ?? []) as Target[];
+    }
+
+    return json(await purge(admin, targets));
+  } catch (err) {
+    console.error("purge-trash error", err);
+    return new Response("Purge failed", { status: 500, headers: corsHeaders });
+  }
+});
+
+// The user's trashed items: all of them, or those among `items` (anything not in the trash is ignored)
+async function trashedTargets(
+  admin: SupabaseClient,
+  userId: string,
+  items?: { kind: Kind; id: string }[],
+): Promise<Target[]> {
+  const targets: Target[] = [];
+  for (const kind of Object.keys(tables) as Kind[]) {
+    const ids = items?.filter((i) => i.kind === kind).map((i) => i.id);
+    if (ids && !ids.length) continue;
+    for (const part of ids ? chunks(ids) : [undefined]) {
+      let query = admin.from(tables[kind]).select("id").eq("user_id", userId).not("deleted_at", "is", null);
+      if (part) query = query.in("id", part);
+      const { data, error } = await query;
+      if (error) throw error;
+      targets.push(...(data ?? []).map((row: { id: string }) => ({ kind, id: row.id, user_id: userId })));
+    }
+  }
+  return targets;
+}
+
+async function purge(admin: SupabaseClient, targets: Target[]) {
+  const ids = (kind: Kind) => targets.filter((t) => t.kind === kind).map((t) => t.id);
+  const bookIds = ids("book");
+  const noteIds = ids("note");
+  const explicitNotes = new Set(noteIds);
+  const result = { books: 0, notes: 0, folders: 0, collections: 0, files: 0 };
+
+  // Media referenced by everything about to go (a purged book takes all of its notes)
+  const media: { bucket: Bucket; value: string; userId: string }[] = [];
+  for (const part of chunks(noteIds)) {
+    const { data, error } = await admin.from("notes").select("user_id, image_url, audio_url").in("id", part);
+    if (error) throw error;
+    collectNoteMedia(media, data ?? []);
+  }
+  for (const part of chunks(bookIds)) {
+    const [books, notes] = await Promise.all([
+      admin.from("books").select("user_id, cover_url").in("id", part),
+      admin.from("notes").select("id, user_id, image_url, audio_url").in("book_id", part),
+    ]);
+    if (books.error) throw books.error;
+    if (notes.error) throw notes.error;
+    for (const book of books.data ?? []) {
+      if (book.cover_url) media.push({ bucket: "book-covers", value: book.cover_url, userId: book.user_id });
+    }
+    const bookNotes = (notes.data ?? []).filter((n: { id: string }) => !explicitNotes.has(n.id));
+    collectNoteMedia(media, bookNotes);
+    // Removed by the book's cascade rather than counted below
+    result.notes += bookNotes.length;
+  }
+
+  for (const kind of ["note", "book", "folder", "collection"] as Kind[]) {
+    for (const part of chunks(ids(kind))) {
+      const { data, error } = await admin.from(tables[kind]).delete().in("id", part).select("id");
+      if (error) throw error;
+      result[tables[kind] as keyof typeof result] += (data ?? []).length;
+    }
+  }
+
+  // Only remove objects no surviving note or book still points at (imports can share files)
+  const values = [...new Set(media.map((m) => m.value))];
+  const stillUsed = new Set<string>();
+  for (const part of chunks(values)) {
+    const [images, audio, covers] = await Promise.all([
+      admin.from("notes").select("image_url").in("image_url", part),
+      admin.from("notes").select("audio_url").in("audio_url", part),
+      admin.from("books").select("cover_url").in("cover_url", part),
+    ]);
+    for (const res of [images, audio, covers]) if (res.error) throw res.error;
+    (images.data ?? []).forEach((r: { image_url: string }) => stillUsed.add(r.image_url));
+    (audio.data ?? []).forEach((r: { audio_url: string }) => stillUsed.add(r.audio_url));
+    (covers.data ?? []).forEach((r: { cover_url: string }) => stillUsed.add(r.cover_url));
+  }
+
+  const paths = new Map<Bucket, Set<string>>();
+  for (const { bucket, value, userId } of media) {
+    if (stillUsed.has(value)) continue;
+    const path = storagePath(value, bucket);
+    // Uploads live under "<userId>/"; never touch anything outside the owner's folder
+    if (!path || !path.startsWith(`${userId}/`)) continue;
+    if (!paths.has(bucket)) paths.set(bucket, new Set());
+    paths.get(bucket)!.add(path);
+  }
+  for (const [bucket, set] of paths) {
+    for (const part of chunks([...set])) {
+      const { data, error } = await admin.storage.from(bucket).remove(part);
+      if (error) throw error;
+      result.files += (data ?? []).length;
+    }
+  }
+
+  return result;
+}
+
+function collectNoteMedia(
+  media: { bucket: Bucket; value: string; userId: string }[],
+  rows: { user_id: string; image_url: string | null; audio_url: string | null }[],
+) {
+  for (const row of rows) {
+    if (row.image_url) media.push({ bucket: "note-images", value: row.image_url, userId: row.user_id });
+    if (row.audio_url) media.push({ bucket: "note-audio", value: row.audio_url, userId: row.user_id });
+  }
+}
+
+// Object path for a stored reference: a public/signed URL, or a bare path for note-audio.
+// Mirrors storageKey in src/api/backup.ts.
+function storagePath(value: string, bucket: Bucket): string | undefined {
+  if (value.startsWith("data:")) return undefined;
+  const match = value.match(/\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/([^?#]+)/);
+  if (match) return match[1] === bucket ? decodeURIComponent(match[2]) : undefined;
+  return bucket === "note-audio" && !/^https?:/.test(value) ? value : undefined;
+}
@@ -0,0 +1,69 @@
+-- Reading status lifecycle for books (want to read -> reading -> finished / abandoned)
+-- Apply via: supabase db push
+
+alter table public.books
+  add column if not exists status text not null default 'want_to_read',
+  add column if not exists started_at timestamptz,
+  add column if not exists finished_at timestamptz;
+
+alter table public.books drop constraint if exists books_status_check;
+alter table public.books
+  add constraint books_status_check
+  check (status in ('want_to_read', 'reading', 'finished', 'abandoned'));
+
+-- Books that already have notes were clearly being read
+update public.books
+  set status = 'reading',
+      started_at = coalesce(started_at, created_at)
+where status = 'want_to_read'
+  and notes_count > 0;
+
+create index if not exists idx_books_user_status on public.books(user_id, status);
+create index if not exists idx_books_user_finished on public.books(user_id, finished_at);
+
+-- Move a book to a new status, stamping started_at/finished_at consistently.
+-- Optional dates let callers backdate (e.g. imports); otherwise now() is used.
+create or replace function public.book_set_status(
+  p_book_id uuid,
+  p_status text,
+  p_started_at timestamptz default null,
+  p_finished_at timestamptz default null
+)
+returns public.books
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  book_row public.books;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if p_status not in ('want_to_read', 'reading', 'finished', 'abandoned') then
+    raise exception 'Invalid status: %', p_status using errcode = '22023';
+  end if;
+
+  update public.books
+    set status = p_status,
+        started_at = case
+          when p_status = 'want_to_read' then null
+          else coalesce(p_started_at, started_at, case when p_status = 'reading' then now() end)
+        end,
+        finished_at = case
+          when p_status = 'finished' then coalesce(p_finished_at, now())
+          else null
+        end
+  where id = p_book_id
+    and user_id = uid
+  returning * into book_row;
+
+  if not found then
+    raise exception 'Book not found for user' using errcode = '22023';
+  end if;
+
+  return book_row;
+end;
+$$;
@@ -0,0 +1,128 @@
+-- Reading progress: book length, current position and a progress log per book
+-- Apply via: supabase db push
+
+alter table public.books
+  add column if not exists total_pages int check (total_pages is null or total_pages > 0),
+  add column if not exists total_duration int check (total_duration is null or total_duration > 0), -- seconds
+  add column if not exists current_page int check (current_page is null or current_page >= 0),
+  add column if not exists current_position int check (current_position is null or current_position >= 0); -- seconds
+
+create table if not exists public.reading_progress (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  book_id uuid not null references public.books(id) on delete cascade,
+  page int check (page is null or page >= 0),
+  position_seconds int check (position_seconds is null or position_seconds >= 0),
+  note_id uuid references public.notes(id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint reading_progress_has_position check (page is not null or position_seconds is not null)
+);
+
+create index if not exists idx_reading_progress_book on public.reading_progress(user_id, book_id, created_at desc);
+
+alter table public.reading_progress enable row level security;
+
+drop policy if exists reading_progress_owner_all on public.reading_progress;
+create policy reading_progress_owner_all
+on public.reading_progress for all
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+-- Keep books.current_page/current_position in sync with the latest log entry
+create or replace function public.apply_reading_progress()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.books
+    set current_page = coalesce(new.page, current_page),
+        current_position = coalesce(new.position_seconds, current_position)
+  where id = new.book_id
+    and user_id = new.user_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_reading_progress_apply on public.reading_progress;
+create trigger trg_reading_progress_apply
+after insert on public.reading_progress
+for each row execute function public.apply_reading_progress();
+
+drop trigger if exists trg_activity_on_progress on public.reading_progress;
+create trigger trg_activity_on_progress
+after insert on public.reading_progress
+for each row execute function public.upsert_activity_today();
+
+-- Location helpers (mirror parseLocation/parseTimestamp in the client)
+create or replace function public.location_page(loc text)
+returns int
+language sql
+immutable
+as $$
+  select ((regexp_match(coalesce(loc, ''), 'p\.?\s*(\d+)', 'i'))[1])::int;
+$$;
+
+-- "1:23:45" -> 5025, "23:45" -> 1425 (clock style: the last part is always seconds)
+create or replace function public.timestamp_seconds(ts text)
+returns int
+language sql
+immutable
+as $$
+  select case
+    when m is null then null
+    when m[3] is not null then m[1]::int * 3600 + m[2]::int * 60 + m[3]::int
+    else m[1]::int * 60 + m[2]::int
+  end
+  from (select regexp_match(coalesce(ts, ''), '(\d{1,3}):(\d{2})(?::(\d{2}))?') as m) parsed;
+$$;
+
+-- Advance progress when a note is saved further into the book than the current position
+create or replace function public.advance_progress_from_note()
+returns trigger
+language plpgsql
+as $$
+declare
+  note_page int := public.location_page(new.location);
+  note_seconds int := coalesce(public.timestamp_seconds(new.timestamp), public.timestamp_seconds(new.location));
+  book_row public.books;
+begin
+  if note_page is null and note_seconds is null then
+    return null;
+  end if;
+
+  select * into book_row
+  from public.books
+  where id = new.book_id
+    and user_id = new.user_id;
+
+  if not found then
+    return null;
+  end if;
+
+  if note_page is not null and note_page <= coalesce(book_row.current_page, 0) then
+    note_page := null;
+  end if;
+  if note_seconds is not null and note_seconds <= coalesce(book_row.current_position, 0) then
+    note_seconds := null;
+  end if;
+
+  if note_page is not null or note_seconds is not null then
+    insert into public.reading_progress (user_id, book_id, page, position_seconds, note_id)
+    values (new.user_id, new.book_id, note_page, note_seconds, new.id);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_notes_advance_progress_ins on public.notes;
+create trigger trg_notes_advance_progress_ins
+after insert on public.notes
+for each row execute function public.advance_progress_from_note();
+
+drop trigger if exists trg_notes_advance_progress_upd on public.notes;
+create trigger trg_notes_advance_progress_upd
+after update of location, timestamp on public.notes
+for each row
+when (old.location is distinct from new.location or old.timestamp is distinct from new.timestamp)
+execute function public.advance_progress_from_note();
@@ -0,0 +1,133 @@
+-- Reading sessions: timed reading with start/end position and the notes captured during it
+-- Apply via: supabase db push
+
+create table if not exists public.reading_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  book_id uuid not null references public.books(id) on delete cascade,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  duration_seconds int check (duration_seconds is null or duration_seconds >= 0),
+  start_page int,
+  end_page int,
+  start_position int, -- seconds (audiobooks)
+  end_position int,   -- seconds (audiobooks)
+  note_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  constraint reading_sessions_end_after_start check (ended_at is null or ended_at >= started_at)
+);
+
+create index if not exists idx_reading_sessions_book on public.reading_sessions(user_id, book_id, started_at desc);
+-- At most one running session per user
+create unique index if not exists idx_reading_sessions_open on public.reading_sessions(user_id) where ended_at is null;
+
+alter table public.reading_sessions enable row level security;
+
+drop policy if exists reading_sessions_owner_all on public.reading_sessions;
+create policy reading_sessions_owner_all
+on public.reading_sessions for all
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+-- Finish a session: stamp duration, collect notes added to the book while it ran,
+-- record the end position as progress and mark every day it spanned as active.
+create or replace function public.reading_session_end(
+  p_session_id uuid,
+  p_end_page int default null,
+  p_end_position int default null
+)
+returns public.reading_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  session_row public.reading_sessions;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  update public.reading_sessions s
+    set ended_at = now(),
+        duration_seconds = extract(epoch from (now() - s.started_at))::int,
+        end_page = p_end_page,
+        end_position = p_end_position,
+        note_ids = coalesce((
+          select array_agg(n.id order by n.created_at)
+          from public.notes n
+          where n.user_id = uid
+            and n.book_id = s.book_id
+            and n.created_at between s.started_at and now()
+        ), '{}')
+  where s.id = p_session_id
+    and s.user_id = uid
+    and s.ended_at is null
+  returning * into session_row;
+
+  if not found then
+    raise exception 'Active session not found for user' using errcode = '22023';
+  end if;
+
+  if p_end_page is not null or p_end_position is not null then
+    insert into public.reading_progress (user_id, book_id, page, position_seconds)
+    values (uid, session_row.book_id, p_end_page, p_end_position);
+  end if;
+
+  insert into public.activity_dates (user_id, activity_date)
+  select uid, d::date
+  from generate_series(session_row.started_at::date, current_date, interval '1 day') d
+  on conflict (user_id, activity_date) do nothing;
+
+  return session_row;
+end;
+$$;
+
+-- Start a session for a book, ending any session the user left running.
+-- The start position comes from the book's current progress.
+create or replace function public.reading_session_start(p_book_id uuid)
+returns public.reading_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  book_row public.books;
+  open_id uuid;
+  session_row public.reading_sessions;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select * into book_row
+  from public.books
+  where id = p_book_id
+    and user_id = uid;
+
+  if not found then
+    raise exception 'Book not found for user' using errcode = '22023';
+  end if;
+
+  select id into open_id
+  from public.reading_sessions
+  where user_id = uid
+    and ended_at is null;
+
+  if open_id is not null then
+    perform public.reading_session_end(open_id);
+  end if;
+
+  if book_row.status = 'want_to_read' then
+    perform public.book_set_status(p_book_id, 'reading');
+  end if;
+
+  insert into public.reading_sessions (user_id, book_id, start_page, start_position)
+  values (uid, p_book_id, book_row.current_page, book_row.current_position)
+  returning * into session_row;
+
+  return session_row;
+end;
+$$;
@@ -0,0 +1,10 @@
+-- Personal book rating (0.5-5 stars; StoryGraph exports quarter stars)
+-- Apply via: supabase db push
+
+alter table public.books
+  add column if not exists rating numeric(3,2);
+
+alter table public.books drop constraint if exists books_rating_check;
+alter table public.books
+  add constraint books_rating_check
+  check (rating is null or (rating > 0 and rating <= 5));
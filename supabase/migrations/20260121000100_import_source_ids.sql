@@ -0,0 +1,15 @@
+-- Remember which backup entity an imported row came from, so re-importing the same
+-- JSON backup (into this or another account) can recognise it instead of duplicating.
+-- Apply via: supabase db push
+
+alter table public.folders add column if not exists source_id text;
+alter table public.collections add column if not exists source_id text;
+alter table public.saved_filters add column if not exists source_id text;
+alter table public.books add column if not exists source_id text;
+alter table public.notes add column if not exists source_id text;
+
+create unique index if not exists idx_folders_source on public.folders(user_id, source_id) where source_id is not null;
+create unique index if not exists idx_collections_source on public.collections(user_id, source_id) where source_id is not null;
+create unique index if not exists idx_saved_filters_source on public.saved_filters(user_id, source_id) where source_id is not null;
+create unique index if not exists idx_books_source on public.books(user_id, source_id) where source_id is not null;
+create unique index if not exists idx_notes_source on public.notes(user_id, source_id) where source_id is not null;
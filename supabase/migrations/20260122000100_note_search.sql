@@ -0,0 +1,76 @@
+-- Server-side note search: ranked full-text matches with highlighted snippets
+-- Apply via: supabase db push
+
+-- Weighted vector: content first, then context/tags, then OCR text and transcripts.
+-- The index depends on the function, so it is rebuilt around the redefinition.
+drop index if exists public.idx_notes_search;
+
+create or replace function public.notes_search_vector(n public.notes)
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(n.content, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(n.context, '') || ' ' || coalesce(array_to_string(n.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(n.chapter, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(n.extracted_text, '') || ' ' || coalesce(n.transcript, '')), 'D');
+$$;
+
+create index if not exists idx_notes_search on public.notes using gin(public.notes_search_vector(notes));
+
+-- Every word of the query must match; each one matches as a prefix so results keep up while typing.
+-- Snippets wrap matches in <mark></mark>; the client renders them as text, never as HTML.
+create or replace function public.search_notes(
+  p_query text,
+  p_book_id uuid default null,
+  p_limit int default 50
+)
+returns table (note_id uuid, rank real, headline text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  q tsquery;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select to_tsquery('english', string_agg(quote_literal(w) || ':*', ' & '))
+  into q
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as w
+  where w <> '';
+
+  -- Empty, or nothing but stop words
+  if q is null or numnode(q) = 0 then
+    return;
+  end if;
+
+  return query
+  select
+    hit.id,
+    hit.score,
+    ts_headline(
+      'english',
+      concat_ws(' … ', hit.content, hit.context, hit.transcript, hit.extracted_text),
+      q,
+      'StartSel="<mark>", StopSel="</mark>", MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from (
+    select n.id, n.content, n.context, n.transcript, n.extracted_text,
+           ts_rank(public.notes_search_vector(n), q) as score,
+           n.created_at
+    from public.notes n
+    where n.user_id = uid
+      and (p_book_id is null or n.book_id = p_book_id)
+      and public.notes_search_vector(n) @@ q
+    order by score desc, n.created_at desc
+    limit greatest(1, least(coalesce(p_limit, 50), 200))
+  ) hit
+  order by hit.score desc, hit.created_at desc;
+end;
+$$;
@@ -0,0 +1,149 @@
+-- Semantic related notes: pgvector embeddings of note content + context
+-- Apply via: supabase db push
+
+create extension if not exists vector with schema extensions;
+
+-- One embedding per note, written by the embed-notes Edge Function. Kept out of public.notes so
+-- re-embedding doesn't bump notes.updated_at or end up in backups. content_hash records which
+-- text was embedded; when the note changes the row goes stale and is re-embedded.
+create table if not exists public.note_embeddings (
+  note_id uuid primary key references public.notes(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  embedding extensions.vector(768) not null,
+  model text not null,
+  content_hash text not null,
+  embedded_at timestamptz not null default now()
+);
+
+create index if not exists idx_note_embeddings_user on public.note_embeddings(user_id, model);
+create index if not exists idx_note_embeddings_vector
+  on public.note_embeddings using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table public.note_embeddings enable row level security;
+
+drop policy if exists note_embeddings_owner_all on public.note_embeddings;
+create policy note_embeddings_owner_all
+on public.note_embeddings for all
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+-- The text that gets embedded, and its fingerprint
+create or replace function public.note_embedding_input(n public.notes)
+returns text
+language sql
+immutable
+as $$
+  select trim(both from coalesce(n.content, '') || E'\n' || coalesce(n.context, ''));
+$$;
+
+-- Notes with no embedding for p_model, or whose text changed since they were embedded
+create or replace function public.pending_note_embeddings(
+  p_model text,
+  p_limit int default 50
+)
+returns table (note_id uuid, input text, content_hash text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return query
+  select n.id, public.note_embedding_input(n), md5(public.note_embedding_input(n))
+  from public.notes n
+  left join public.note_embeddings e on e.note_id = n.id
+  where n.user_id = uid
+    and public.note_embedding_input(n) <> ''
+    and (e.note_id is null or e.model <> p_model or e.content_hash <> md5(public.note_embedding_input(n)))
+  order by n.updated_at desc
+  limit greatest(1, least(coalesce(p_limit, 50), 200));
+end;
+$$;
+
+-- Nearest neighbours of a note, by cosine similarity. Only embeddings from the same model are
+-- comparable. By default notes from the same book are left out.
+create or replace function public.related_notes(
+  p_note_id uuid,
+  p_limit int default 5,
+  p_other_books boolean default true
+)
+returns table (note_id uuid, similarity real)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  uid uuid := auth.uid();
+  source record;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select e.embedding, e.model, n.book_id
+  into source
+  from public.note_embeddings e
+  join public.notes n on n.id = e.note_id
+  where e.note_id = p_note_id
+    and e.user_id = uid;
+
+  if not found then
+    return;
+  end if;
+
+  return query
+  select e.note_id, (1 - (e.embedding <=> source.embedding))::real
+  from public.note_embeddings e
+  join public.notes n on n.id = e.note_id
+  where e.user_id = uid
+    and e.model = source.model
+    and e.note_id <> p_note_id
+    and (not coalesce(p_other_books, true) or n.book_id <> source.book_id)
+  order by e.embedding <=> source.embedding
+  limit greatest(1, least(coalesce(p_limit, 5), 50));
+end;
+$$;
+
+-- Similarity search for a query embedding (the Edge Function embeds the query text)
+create or replace function public.match_notes(
+  p_embedding extensions.vector(768),
+  p_model text,
+  p_book_id uuid default null,
+  p_limit int default 30,
+  p_min_similarity real default 0.2
+)
+returns table (note_id uuid, similarity real)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return query
+  select hit.note_id, hit.similarity
+  from (
+    select e.note_id, (1 - (e.embedding <=> p_embedding))::real as similarity
+    from public.note_embeddings e
+    join public.notes n on n.id = e.note_id
+    where e.user_id = uid
+      and e.model = p_model
+      and (p_book_id is null or n.book_id = p_book_id)
+    order by e.embedding <=> p_embedding
+    limit greatest(1, least(coalesce(p_limit, 30), 100))
+  ) hit
+  where hit.similarity >= coalesce(p_min_similarity, 0);
+end;
+$$;
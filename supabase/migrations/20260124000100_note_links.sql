@@ -0,0 +1,214 @@
+-- Note links: [[note:<id>|label]] / [[book:<id>|title]] in note content and context,
+-- mirrored into a link table for backlinks and kept readable when targets change.
+-- Apply via: supabase db push
+
+create table if not exists public.note_links (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  source_note_id uuid not null references public.notes(id) on delete cascade,
+  target_note_id uuid references public.notes(id) on delete cascade,
+  target_book_id uuid references public.books(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint note_links_one_target check ((target_note_id is null) <> (target_book_id is null)),
+  constraint note_links_no_self check (target_note_id is distinct from source_note_id)
+);
+
+create unique index if not exists idx_note_links_note_unique
+  on public.note_links(source_note_id, target_note_id) where target_note_id is not null;
+create unique index if not exists idx_note_links_book_unique
+  on public.note_links(source_note_id, target_book_id) where target_book_id is not null;
+create index if not exists idx_note_links_target_note on public.note_links(target_note_id);
+create index if not exists idx_note_links_target_book on public.note_links(target_book_id);
+create index if not exists idx_note_links_user on public.note_links(user_id);
+
+alter table public.note_links enable row level security;
+
+-- Rows are written by the trigger below; clients only read them
+drop policy if exists note_links_owner_select on public.note_links;
+create policy note_links_owner_select
+on public.note_links for select
+using (user_id = auth.uid());
+
+-- The label a note link shows: the note's own text (links removed) cut to 60 characters.
+-- Mirrors noteLinkLabel in src/api/noteLinks.ts.
+create or replace function public.note_link_label(p_content text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(nullif(
+    case when char_length(t) > 60 then rtrim(left(t, 59)) || '…' else t end,
+  ''), 'note')
+  from (
+    select trim(both from regexp_replace(
+      regexp_replace(regexp_replace(coalesce(p_content, ''), '\[\[[^\]]*\]\]', '', 'g'), '[\[\]|]', '', 'g'),
+      '\s+', ' ', 'g'
+    )) as t
+  ) s;
+$$;
+
+create or replace function public.book_link_label(p_title text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(nullif(trim(both from regexp_replace(coalesce(p_title, ''), '[\[\]|]', '', 'g')), ''), 'book');
+$$;
+
+-- Re-read a note's links after it is written. Only targets owned by the same user are kept.
+create or replace function public.sync_note_links()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  body text := coalesce(new.content, '') || E'\n' || coalesce(new.context, '');
+begin
+  delete from public.note_links where source_note_id = new.id;
+
+  insert into public.note_links (user_id, source_note_id, target_note_id)
+  select distinct new.user_id, new.id, t.id
+  from regexp_matches(body, '\[\[note:([0-9a-fA-F-]{36})\|[^\]]*\]\]', 'g') as m
+  join public.notes t on t.id = m[1]::uuid and t.user_id = new.user_id
+  where t.id <> new.id;
+
+  insert into public.note_links (user_id, source_note_id, target_book_id)
+  select distinct new.user_id, new.id, b.id
+  from regexp_matches(body, '\[\[book:([0-9a-fA-F-]{36})\|[^\]]*\]\]', 'g') as m
+  join public.books b on b.id = m[1]::uuid and b.user_id = new.user_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_notes_sync_links_ins on public.notes;
+create trigger trg_notes_sync_links_ins
+after insert on public.notes
+for each row execute function public.sync_note_links();
+
+drop trigger if exists trg_notes_sync_links_upd on public.notes;
+create trigger trg_notes_sync_links_upd
+after update of content, context on public.notes
+for each row
+when (old.content is distinct from new.content or old.context is distinct from new.context)
+execute function public.sync_note_links();
+
+-- Rewrites every link to one target in the notes that contain it. p_label null unlinks:
+-- the link is replaced by its label as plain text.
+create or replace function public.rewrite_note_links(
+  p_kind text,
+  p_target_id uuid,
+  p_label text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pattern text := '\[\[' || p_kind || ':' || p_target_id::text || '\|([^\]]*)\]\]';
+  replacement text := case
+    when p_label is null then '\1'
+    else '[[' || p_kind || ':' || p_target_id::text || '|' || replace(p_label, '\', '\\') || ']]'
+  end;
+begin
+  update public.notes n
+    set content = regexp_replace(n.content, pattern, replacement, 'gi'),
+        context = regexp_replace(n.context, pattern, replacement, 'gi')
+  where n.id in (
+    select l.source_note_id
+    from public.note_links l
+    where (p_kind = 'note' and l.target_note_id = p_target_id)
+       or (p_kind = 'book' and l.target_book_id = p_target_id)
+  );
+end;
+$$;
+
+-- A note's label comes from its text only (links stripped), so relabelling other notes can't
+-- change it back: the rewrite never cascades further than one level.
+create or replace function public.note_links_on_note_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.rewrite_note_links('note', old.id, null);
+    return old;
+  end if;
+  if public.note_link_label(old.content) is distinct from public.note_link_label(new.content) then
+    perform public.rewrite_note_links('note', new.id, public.note_link_label(new.content));
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_notes_relabel_links on public.notes;
+create trigger trg_notes_relabel_links
+after update of content on public.notes
+for each row
+when (old.content is distinct from new.content)
+execute function public.note_links_on_note_change();
+
+drop trigger if exists trg_notes_unlink_on_delete on public.notes;
+create trigger trg_notes_unlink_on_delete
+before delete on public.notes
+for each row execute function public.note_links_on_note_change();
+
+create or replace function public.note_links_on_book_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.rewrite_note_links('book', old.id, null);
+    return old;
+  end if;
+  perform public.rewrite_note_links('book', new.id, public.book_link_label(new.title));
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_books_relabel_links on public.books;
+create trigger trg_books_relabel_links
+after update of title on public.books
+for each row
+when (old.title is distinct from new.title)
+execute function public.note_links_on_book_change();
+
+drop trigger if exists trg_books_unlink_on_delete on public.books;
+create trigger trg_books_unlink_on_delete
+before delete on public.books
+for each row execute function public.note_links_on_book_change();
+
+-- Backfill links for notes written before this migration
+insert into public.note_links (user_id, source_note_id, target_note_id)
+select distinct n.user_id, n.id, t.id
+from public.notes n
+cross join lateral regexp_matches(coalesce(n.content, '') || E'\n' || coalesce(n.context, ''), '\[\[note:([0-9a-fA-F-]{36})\|[^\]]*\]\]', 'g') as m
+join public.notes t on t.id = m[1]::uuid and t.user_id = n.user_id
+where t.id <> n.id
+on conflict do nothing;
+
+insert into public.note_links (user_id, source_note_id, target_book_id)
+select distinct n.user_id, n.id, b.id
+from public.notes n
+cross join lateral regexp_matches(coalesce(n.content, '') || E'\n' || coalesce(n.context, ''), '\[\[book:([0-9a-fA-F-]{36})\|[^\]]*\]\]', 'g') as m
+join public.books b on b.id = m[1]::uuid and b.user_id = n.user_id
+on conflict do nothing;
+
+-- Embed what the reader sees: link labels rather than ids
+create or replace function public.note_embedding_input(n public.notes)
+returns text
+language sql
+immutable
+as $$
+  select trim(both from regexp_replace(
+    coalesce(n.content, '') || E'\n' || coalesce(n.context, ''),
+    '\[\[(?:note|book):[0-9a-fA-F-]{36}\|([^\]]*)\]\]', '\1', 'g'
+  ));
+$$;
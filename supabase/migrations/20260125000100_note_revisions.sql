@@ -0,0 +1,138 @@
+-- Note revisions: the previous text of a note is kept on every edit so it can be compared and restored.
+-- Apply via: supabase db push
+
+create table if not exists public.note_revisions (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null,
+  content text not null,
+  context text,
+  chapter text,
+  location text,
+  tags text[],
+  extracted_text text,
+  transcript text,
+  ai_summary text,
+  ai_expanded text,
+  ai_flashcard jsonb,
+  -- When this version was written (the note's updated_at at the time)
+  version_at timestamptz not null,
+  -- When it was replaced
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_note_revisions_note on public.note_revisions(note_id, created_at desc);
+create index if not exists idx_note_revisions_user on public.note_revisions(user_id);
+
+alter table public.note_revisions enable row level security;
+
+-- Rows are written by the trigger below and read back by their owner
+drop policy if exists note_revisions_owner_select on public.note_revisions;
+create policy note_revisions_owner_select
+on public.note_revisions for select
+using (user_id = auth.uid());
+
+-- Snapshot the old row before an edit lands. Review bookkeeping (counts, dates) and
+-- privacy/folder moves are not edits and don't get a revision.
+create or replace function public.record_note_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Link relabels/unlinks rewrite other notes from inside a trigger; those aren't the user's edits
+  if pg_trigger_depth() > 1 then
+    return null;
+  end if;
+
+  insert into public.note_revisions (
+    note_id, user_id, type, content, context, chapter, location, tags,
+    extracted_text, transcript, ai_summary, ai_expanded, ai_flashcard, version_at
+  ) values (
+    old.id, old.user_id, old.type, old.content, old.context, old.chapter, old.location, old.tags,
+    old.extracted_text, old.transcript, old.ai_summary, old.ai_expanded, old.ai_flashcard, old.updated_at
+  );
+
+  -- Keep the latest 50 per note
+  delete from public.note_revisions
+  where id in (
+    select id from public.note_revisions
+    where note_id = old.id
+    order by created_at desc
+    offset 50
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_notes_record_revision on public.notes;
+create trigger trg_notes_record_revision
+after update on public.notes
+for each row
+when (
+  old.type is distinct from new.type
+  or old.content is distinct from new.content
+  or old.context is distinct from new.context
+  or old.chapter is distinct from new.chapter
+  or old.location is distinct from new.location
+  or old.tags is distinct from new.tags
+  or old.extracted_text is distinct from new.extracted_text
+  or old.transcript is distinct from new.transcript
+  or old.ai_summary is distinct from new.ai_summary
+  or old.ai_expanded is distinct from new.ai_expanded
+  or old.ai_flashcard is distinct from new.ai_flashcard
+)
+execute function public.record_note_revision();
+
+-- Puts a revision's text back. The note's current text becomes a revision in turn,
+-- so a restore can itself be undone.
+create or replace function public.restore_note_revision(p_revision_id uuid)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  rev public.note_revisions;
+  note_row public.notes;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select * into rev
+  from public.note_revisions
+  where id = p_revision_id
+    and user_id = uid;
+
+  if not found then
+    raise exception 'Revision not found for user' using errcode = '22023';
+  end if;
+
+  update public.notes
+    set type           = rev.type,
+        content        = rev.content,
+        context        = rev.context,
+        chapter        = rev.chapter,
+        location       = rev.location,
+        tags           = rev.tags,
+        extracted_text = rev.extracted_text,
+        transcript     = rev.transcript,
+        ai_summary     = rev.ai_summary,
+        ai_expanded    = rev.ai_expanded,
+        ai_flashcard   = rev.ai_flashcard
+  where id = rev.note_id
+    and user_id = uid
+  returning * into note_row;
+
+  if not found then
+    raise exception 'Note not found for user' using errcode = '22023';
+  end if;
+
+  return note_row;
+end;
+$$;
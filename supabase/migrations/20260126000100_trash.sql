@@ -0,0 +1,384 @@
+-- Trash: books, notes, folders and collections are soft-deleted (deleted_at) and can be restored
+-- until they are purged after the user's retention period.
+-- Apply via: supabase db push
+
+alter table public.books add column if not exists deleted_at timestamptz;
+alter table public.notes add column if not exists deleted_at timestamptz;
+alter table public.folders add column if not exists deleted_at timestamptz;
+alter table public.collections add column if not exists deleted_at timestamptz;
+
+-- Days an item stays in the trash before purge-trash removes it for good
+alter table public.profiles
+  add column if not exists trash_retention_days int not null default 30
+  check (trash_retention_days between 1 and 365);
+
+create index if not exists idx_books_trash on public.books(user_id, deleted_at) where deleted_at is not null;
+create index if not exists idx_notes_trash on public.notes(user_id, deleted_at) where deleted_at is not null;
+create index if not exists idx_folders_trash on public.folders(user_id, deleted_at) where deleted_at is not null;
+create index if not exists idx_collections_trash on public.collections(user_id, deleted_at) where deleted_at is not null;
+
+-- Friends never see trashed notes
+drop policy if exists notes_select_owner_or_public on public.notes;
+create policy notes_select_owner_or_public
+on public.notes for select
+using (user_id = auth.uid() or (is_private = false and deleted_at is null));
+
+-- books.notes_count only counts notes that aren't in the trash
+create or replace function public.adjust_notes_count()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' and new.deleted_at is null then
+    update public.books
+      set notes_count = notes_count + 1
+      where id = new.book_id;
+  elsif tg_op = 'DELETE' and old.deleted_at is null then
+    update public.books
+      set notes_count = greatest(notes_count - 1, 0)
+      where id = old.book_id;
+  elsif tg_op = 'UPDATE' and old.deleted_at is null and new.deleted_at is not null then
+    update public.books
+      set notes_count = greatest(notes_count - 1, 0)
+      where id = old.book_id;
+  elsif tg_op = 'UPDATE' and old.deleted_at is not null and new.deleted_at is null then
+    update public.books
+      set notes_count = notes_count + 1
+      where id = new.book_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_notes_count_trash on public.notes;
+create trigger trg_notes_count_trash
+after update of deleted_at on public.notes
+for each row
+when (old.deleted_at is distinct from new.deleted_at)
+execute function public.adjust_notes_count();
+
+-- Moves an item to the trash. A book takes its notes with it, stamped with the same time so
+-- restoring the book brings back exactly those.
+create or replace function public.trash_item(p_kind text, p_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  stamp timestamptz := now();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if p_kind = 'book' then
+    update public.books set deleted_at = stamp
+    where id = p_id and user_id = uid and deleted_at is null;
+  elsif p_kind = 'note' then
+    update public.notes set deleted_at = stamp
+    where id = p_id and user_id = uid and deleted_at is null;
+  elsif p_kind = 'folder' then
+    update public.folders set deleted_at = stamp
+    where id = p_id and user_id = uid and deleted_at is null;
+  elsif p_kind = 'collection' then
+    update public.collections set deleted_at = stamp
+    where id = p_id and user_id = uid and deleted_at is null;
+  else
+    raise exception 'Unknown item kind %', p_kind using errcode = '22023';
+  end if;
+
+  if not found then
+    raise exception 'Item not found for user' using errcode = '22023';
+  end if;
+
+  if p_kind = 'book' then
+    update public.notes set deleted_at = stamp
+    where book_id = p_id and user_id = uid and deleted_at is null;
+  end if;
+
+  return stamp;
+end;
+$$;
+
+-- Takes an item back out of the trash. A note brings its book back with it when that was
+-- trashed too (a note can't live in a deleted book).
+create or replace function public.restore_item(p_kind text, p_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  stamp timestamptz;
+  note_book uuid;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if p_kind = 'book' then
+    select deleted_at into stamp
+    from public.books
+    where id = p_id and user_id = uid and deleted_at is not null;
+    if found then
+      update public.books set deleted_at = null where id = p_id;
+      update public.notes set deleted_at = null
+      where book_id = p_id and user_id = uid and deleted_at = stamp;
+      return;
+    end if;
+  elsif p_kind = 'note' then
+    update public.notes set deleted_at = null
+    where id = p_id and user_id = uid and deleted_at is not null
+    returning book_id into note_book;
+    if found then
+      update public.books set deleted_at = null
+      where id = note_book and user_id = uid and deleted_at is not null;
+      return;
+    end if;
+  elsif p_kind = 'folder' then
+    update public.folders set deleted_at = null
+    where id = p_id and user_id = uid and deleted_at is not null;
+  elsif p_kind = 'collection' then
+    update public.collections set deleted_at = null
+    where id = p_id and user_id = uid and deleted_at is not null;
+  else
+    raise exception 'Unknown item kind %', p_kind using errcode = '22023';
+  end if;
+
+  if not found then
+    raise exception 'Item not found in trash' using errcode = '22023';
+  end if;
+end;
+$$;
+
+-- Trashed items past their owner's retention period (all users when p_user_id is null).
+-- Used by the purge-trash Edge Function with the service role only.
+create or replace function public.trash_purge_targets(p_user_id uuid default null)
+returns table (kind text, id uuid, user_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with retention as (
+    select p.id as user_id, now() - make_interval(days => p.trash_retention_days) as cutoff
+    from public.profiles p
+    where p_user_id is null or p.id = p_user_id
+  )
+  select 'book', b.id, b.user_id from public.books b join retention r on r.user_id = b.user_id
+  where b.deleted_at < r.cutoff
+  union all
+  select 'note', n.id, n.user_id from public.notes n join retention r on r.user_id = n.user_id
+  where n.deleted_at < r.cutoff
+  union all
+  select 'folder', f.id, f.user_id from public.folders f join retention r on r.user_id = f.user_id
+  where f.deleted_at < r.cutoff
+  union all
+  select 'collection', c.id, c.user_id from public.collections c join retention r on r.user_id = c.user_id
+  where c.deleted_at < r.cutoff;
+$$;
+
+revoke execute on function public.trash_purge_targets(uuid) from public, anon, authenticated;
+grant execute on function public.trash_purge_targets(uuid) to service_role;
+
+-- =========================
+-- Keep trashed notes out of search, review and related notes
+-- =========================
+
+create or replace function public.search_notes(
+  p_query text,
+  p_book_id uuid default null,
+  p_limit int default 50
+)
+returns table (note_id uuid, rank real, headline text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  q tsquery;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select to_tsquery('english', string_agg(quote_literal(w) || ':*', ' & '))
+  into q
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as w
+  where w <> '';
+
+  -- Empty, or nothing but stop words
+  if q is null or numnode(q) = 0 then
+    return;
+  end if;
+
+  return query
+  select
+    hit.id,
+    hit.score,
+    ts_headline(
+      'english',
+      concat_ws(' … ', hit.content, hit.context, hit.transcript, hit.extracted_text),
+      q,
+      'StartSel="<mark>", StopSel="</mark>", MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from (
+    select n.id, n.content, n.context, n.transcript, n.extracted_text,
+           ts_rank(public.notes_search_vector(n), q) as score,
+           n.created_at
+    from public.notes n
+    where n.user_id = uid
+      and n.deleted_at is null
+      and (p_book_id is null or n.book_id = p_book_id)
+      and public.notes_search_vector(n) @@ q
+    order by score desc, n.created_at desc
+    limit greatest(1, least(coalesce(p_limit, 50), 200))
+  ) hit
+  order by hit.score desc, hit.created_at desc;
+end;
+$$;
+
+create or replace function public.review_pick_notes(note_limit int default 5)
+returns uuid[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  safe_limit int := greatest(1, least(coalesce(note_limit, 5), 50));
+  note_ids uuid[];
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select array(
+    select n.id
+    from public.notes n
+    where n.user_id = uid
+      and n.deleted_at is null
+      and (n.next_review_at is null or n.next_review_at <= now())
+    order by coalesce(n.next_review_at, to_timestamp(0)), n.review_count, n.created_at
+    limit safe_limit
+  ) into note_ids;
+
+  return coalesce(note_ids, '{}');
+end;
+$$;
+
+create or replace function public.pending_note_embeddings(
+  p_model text,
+  p_limit int default 50
+)
+returns table (note_id uuid, input text, content_hash text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return query
+  select n.id, public.note_embedding_input(n), md5(public.note_embedding_input(n))
+  from public.notes n
+  left join public.note_embeddings e on e.note_id = n.id
+  where n.user_id = uid
+    and n.deleted_at is null
+    and public.note_embedding_input(n) <> ''
+    and (e.note_id is null or e.model <> p_model or e.content_hash <> md5(public.note_embedding_input(n)))
+  order by n.updated_at desc
+  limit greatest(1, least(coalesce(p_limit, 50), 200));
+end;
+$$;
+
+create or replace function public.related_notes(
+  p_note_id uuid,
+  p_limit int default 5,
+  p_other_books boolean default true
+)
+returns table (note_id uuid, similarity real)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  uid uuid := auth.uid();
+  source record;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select e.embedding, e.model, n.book_id
+  into source
+  from public.note_embeddings e
+  join public.notes n on n.id = e.note_id
+  where e.note_id = p_note_id
+    and e.user_id = uid;
+
+  if not found then
+    return;
+  end if;
+
+  return query
+  select e.note_id, (1 - (e.embedding <=> source.embedding))::real
+  from public.note_embeddings e
+  join public.notes n on n.id = e.note_id
+  where e.user_id = uid
+    and e.model = source.model
+    and e.note_id <> p_note_id
+    and n.deleted_at is null
+    and (not coalesce(p_other_books, true) or n.book_id <> source.book_id)
+  order by e.embedding <=> source.embedding
+  limit greatest(1, least(coalesce(p_limit, 5), 50));
+end;
+$$;
+
+create or replace function public.match_notes(
+  p_embedding extensions.vector(768),
+  p_model text,
+  p_book_id uuid default null,
+  p_limit int default 30,
+  p_min_similarity real default 0.2
+)
+returns table (note_id uuid, similarity real)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return query
+  select hit.note_id, hit.similarity
+  from (
+    select e.note_id, (1 - (e.embedding <=> p_embedding))::real as similarity
+    from public.note_embeddings e
+    join public.notes n on n.id = e.note_id
+    where e.user_id = uid
+      and e.model = p_model
+      and n.deleted_at is null
+      and (p_book_id is null or n.book_id = p_book_id)
+    order by e.embedding <=> p_embedding
+    limit greatest(1, least(coalesce(p_limit, 30), 100))
+  ) hit
+  where hit.similarity >= coalesce(p_min_similarity, 0);
+end;
+$$;
@@ -0,0 +1,19 @@
+-- Realtime: stream row changes of the library and social tables to signed-in clients, which
+-- merge them into their caches (src/api/realtime.ts). RLS decides which rows a client receives.
+-- Apply via: supabase db push
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'books', 'notes', 'folders', 'collections', 'social_posts', 'social_comments', 'social_likes'
+  ] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end $$;
@@ -0,0 +1,194 @@
+-- Graded spaced repetition: reviews are graded Again/Hard/Good/Easy and scheduled with FSRS
+-- (v4.5 default parameters, 90% target recall) instead of a fixed doubling interval. Each note
+-- keeps its memory stability (days), difficulty (1-10) and lapse count.
+-- Apply via: supabase db push
+
+alter table public.notes
+  add column if not exists review_stability real,
+  add column if not exists review_difficulty real,
+  add column if not exists review_lapses int not null default 0;
+
+-- Notes reviewed under the doubling schedule carry on from their current interval
+update public.notes
+  set review_stability  = greatest(extract(epoch from next_review_at - last_reviewed_at) / 86400, 1),
+      review_difficulty = 5
+where review_stability is null
+  and review_count > 0
+  and last_reviewed_at is not null
+  and next_review_at is not null;
+
+-- Memory state after a review graded 1 (again) to 4 (easy), `p_elapsed_days` after the previous
+-- one. A note without a state yet gets the initial stability/difficulty for the grade.
+create or replace function public.fsrs_next_state(
+  p_stability real,
+  p_difficulty real,
+  p_elapsed_days real,
+  p_grade int
+)
+returns table (stability real, difficulty real)
+language plpgsql
+immutable
+as $$
+declare
+  -- w[1]..w[17] are FSRS w0..w16
+  w constant double precision[] := array[
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+  ];
+  decay constant double precision := -0.5;
+  factor constant double precision := 19.0 / 81.0;
+  s double precision;
+  d double precision;
+  r double precision;
+begin
+  if p_stability is null or p_difficulty is null then
+    stability := w[p_grade];
+    difficulty := least(greatest(w[5] - (p_grade - 3) * w[6], 1), 10);
+    return next;
+    return;
+  end if;
+
+  s := greatest(p_stability, 0.01);
+  d := least(greatest(p_difficulty, 1), 10);
+  -- Probability the note was still remembered when it was reviewed
+  r := power(1 + factor * greatest(coalesce(p_elapsed_days, 0), 0) / s, decay);
+
+  if p_grade = 1 then
+    stability := least(
+      w[12] * power(d, -w[13]) * (power(s + 1, w[14]) - 1) * exp(w[15] * (1 - r)),
+      s
+    );
+  else
+    stability := s * (
+      exp(w[9]) * (11 - d) * power(s, -w[10]) * (exp(w[11] * (1 - r)) - 1)
+        * case when p_grade = 2 then w[16] else 1 end
+        * case when p_grade = 4 then w[17] else 1 end
+      + 1
+    );
+  end if;
+
+  -- Harder grades raise difficulty, easier ones lower it; it drifts back toward the default
+  d := d - w[7] * (p_grade - 3);
+  difficulty := least(greatest(w[8] * w[5] + (1 - w[8]) * d, 1), 10);
+  return next;
+end;
+$$;
+
+-- Applies a graded review to one of the user's notes. At 90% target recall the interval equals
+-- the new stability (whole days, 1-365); a forgotten note counts as a lapse and is due again in
+-- ten minutes so the next session picks it up. Only called from the RPCs below.
+create or replace function public.note_apply_grade(p_uid uuid, p_note_id uuid, p_grade int)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  note_row public.notes;
+  next_state record;
+  elapsed real;
+begin
+  if p_grade is null or p_grade not between 1 and 4 then
+    raise exception 'Grade must be 1 (again), 2 (hard), 3 (good) or 4 (easy)' using errcode = '22023';
+  end if;
+
+  select *
+    into note_row
+  from public.notes
+  where id = p_note_id
+    and user_id = p_uid
+    and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Note not found for user' using errcode = '22023';
+  end if;
+
+  elapsed := extract(epoch from now() - coalesce(note_row.last_reviewed_at, now())) / 86400;
+  select *
+    into next_state
+  from public.fsrs_next_state(note_row.review_stability, note_row.review_difficulty, elapsed, p_grade);
+
+  update public.notes
+    set review_count      = coalesce(review_count, 0) + 1,
+        review_stability  = next_state.stability,
+        review_difficulty = next_state.difficulty,
+        review_lapses     = review_lapses + case when p_grade = 1 and note_row.review_stability is not null then 1 else 0 end,
+        last_reviewed_at  = now(),
+        next_review_at    = now() + case
+          when p_grade = 1 then interval '10 minutes'
+          else interval '1 day' * least(greatest(round(next_state.stability), 1), 365)
+        end
+  where id = p_note_id
+  returning * into note_row;
+
+  return note_row;
+end;
+$$;
+
+revoke execute on function public.note_apply_grade(uuid, uuid, int) from public, anon, authenticated;
+
+-- Grade a note within a session and add it to the session's completed list
+drop function if exists public.review_mark_note(uuid, uuid);
+create or replace function public.review_mark_note(p_session_id uuid, p_note_id uuid, p_grade int default 3)
+returns public.review_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  session_row public.review_sessions;
+  completed uuid[];
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select *
+    into session_row
+  from public.review_sessions
+  where id = p_session_id
+    and user_id = uid;
+
+  if not found then
+    raise exception 'Session not found for user' using errcode = '22023';
+  end if;
+
+  if array_position(coalesce(session_row.note_ids, '{}'), p_note_id) is null then
+    raise exception 'Note is not part of this session' using errcode = '22023';
+  end if;
+
+  perform public.note_apply_grade(uid, p_note_id, p_grade);
+
+  completed := coalesce(session_row.completed_note_ids, '{}');
+  if array_position(completed, p_note_id) is null then
+    completed := completed || p_note_id;
+    update public.review_sessions
+      set completed_note_ids = completed
+    where id = p_session_id;
+    session_row.completed_note_ids := completed;
+  end if;
+
+  return session_row;
+end;
+$$;
+
+-- Standalone graded review for non-session flows
+drop function if exists public.note_mark_reviewed(uuid);
+create or replace function public.note_mark_reviewed(p_note_id uuid, p_grade int default 3)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return public.note_apply_grade(uid, p_note_id, p_grade);
+end;
+$$;
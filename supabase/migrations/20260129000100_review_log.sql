@@ -0,0 +1,253 @@
+-- Review log: one row per graded review, written by the review RPCs, and the aggregates behind
+-- the review analytics on the profile page (retention, due forecast, reviews per day).
+-- Apply via: supabase db push
+
+create table if not exists public.review_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  note_id uuid not null references public.notes(id) on delete cascade,
+  session_id uuid references public.review_sessions(id) on delete set null,
+  grade smallint not null check (grade between 1 and 4),
+  -- Time from showing the card to grading it, as measured by the client
+  response_ms int check (response_ms >= 0),
+  -- Interval the note had been given and the time that actually passed; null on a first review
+  scheduled_days real,
+  elapsed_days real,
+  -- Scheduler state after this review
+  stability real,
+  difficulty real,
+  reviewed_at timestamptz not null default now()
+);
+
+create index if not exists idx_review_log_user on public.review_log(user_id, reviewed_at desc);
+create index if not exists idx_review_log_note on public.review_log(note_id, reviewed_at desc);
+
+alter table public.review_log enable row level security;
+
+-- Rows are written by note_apply_grade and read back by their owner
+drop policy if exists review_log_owner_select on public.review_log;
+create policy review_log_owner_select
+on public.review_log for select
+using (user_id = auth.uid());
+
+-- Same scheduling as before (20260128000100_graded_review.sql), now logging each review
+drop function if exists public.note_apply_grade(uuid, uuid, int);
+create or replace function public.note_apply_grade(
+  p_uid uuid,
+  p_note_id uuid,
+  p_grade int,
+  p_session_id uuid default null,
+  p_response_ms int default null
+)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  note_row public.notes;
+  next_state record;
+  elapsed real;
+begin
+  if p_grade is null or p_grade not between 1 and 4 then
+    raise exception 'Grade must be 1 (again), 2 (hard), 3 (good) or 4 (easy)' using errcode = '22023';
+  end if;
+
+  select *
+    into note_row
+  from public.notes
+  where id = p_note_id
+    and user_id = p_uid
+    and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Note not found for user' using errcode = '22023';
+  end if;
+
+  elapsed := extract(epoch from now() - note_row.last_reviewed_at) / 86400;
+  select *
+    into next_state
+  from public.fsrs_next_state(note_row.review_stability, note_row.review_difficulty, coalesce(elapsed, 0), p_grade);
+
+  insert into public.review_log (
+    user_id, note_id, session_id, grade, response_ms, scheduled_days, elapsed_days, stability, difficulty
+  ) values (
+    p_uid, p_note_id, p_session_id, p_grade, case when p_response_ms >= 0 then p_response_ms end,
+    extract(epoch from note_row.next_review_at - note_row.last_reviewed_at) / 86400, elapsed,
+    next_state.stability, next_state.difficulty
+  );
+
+  update public.notes
+    set review_count      = coalesce(review_count, 0) + 1,
+        review_stability  = next_state.stability,
+        review_difficulty = next_state.difficulty,
+        review_lapses     = review_lapses + case when p_grade = 1 and note_row.review_stability is not null then 1 else 0 end,
+        last_reviewed_at  = now(),
+        next_review_at    = now() + case
+          when p_grade = 1 then interval '10 minutes'
+          else interval '1 day' * least(greatest(round(next_state.stability), 1), 365)
+        end
+  where id = p_note_id
+  returning * into note_row;
+
+  return note_row;
+end;
+$$;
+
+revoke execute on function public.note_apply_grade(uuid, uuid, int, uuid, int) from public, anon, authenticated;
+
+drop function if exists public.review_mark_note(uuid, uuid, int);
+create or replace function public.review_mark_note(
+  p_session_id uuid,
+  p_note_id uuid,
+  p_grade int default 3,
+  p_response_ms int default null
+)
+returns public.review_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  session_row public.review_sessions;
+  completed uuid[];
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select *
+    into session_row
+  from public.review_sessions
+  where id = p_session_id
+    and user_id = uid;
+
+  if not found then
+    raise exception 'Session not found for user' using errcode = '22023';
+  end if;
+
+  if array_position(coalesce(session_row.note_ids, '{}'), p_note_id) is null then
+    raise exception 'Note is not part of this session' using errcode = '22023';
+  end if;
+
+  perform public.note_apply_grade(uid, p_note_id, p_grade, p_session_id, p_response_ms);
+
+  completed := coalesce(session_row.completed_note_ids, '{}');
+  if array_position(completed, p_note_id) is null then
+    completed := completed || p_note_id;
+    update public.review_sessions
+      set completed_note_ids = completed
+    where id = p_session_id;
+    session_row.completed_note_ids := completed;
+  end if;
+
+  return session_row;
+end;
+$$;
+
+drop function if exists public.note_mark_reviewed(uuid, int);
+create or replace function public.note_mark_reviewed(
+  p_note_id uuid,
+  p_grade int default 3,
+  p_response_ms int default null
+)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return public.note_apply_grade(uid, p_note_id, p_grade, null, p_response_ms);
+end;
+$$;
+
+-- Reviews per local day over the last p_days days. Retention counts only notes that were
+-- due again (not first reviews): recalled = graded Hard or better; mature = interval of 21+ days.
+create or replace function public.review_daily_stats(p_tz text default 'UTC', p_days int default 365)
+returns table (
+  day date,
+  reviews int,
+  first_reviews int,
+  recalled int,
+  mature_reviews int,
+  mature_recalled int
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  tz text := coalesce(nullif(p_tz, ''), 'UTC');
+  safe_days int := greatest(1, least(coalesce(p_days, 365), 730));
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = tz) then
+    tz := 'UTC';
+  end if;
+
+  return query
+  select
+    (l.reviewed_at at time zone tz)::date as day,
+    count(*)::int as reviews,
+    count(*) filter (where l.scheduled_days is null)::int as first_reviews,
+    count(*) filter (where l.scheduled_days is not null and l.grade > 1)::int as recalled,
+    count(*) filter (where l.scheduled_days >= 21)::int as mature_reviews,
+    count(*) filter (where l.scheduled_days >= 21 and l.grade > 1)::int as mature_recalled
+  from public.review_log l
+  where l.user_id = uid
+    and l.reviewed_at >= (date_trunc('day', now() at time zone tz) - (safe_days - 1) * interval '1 day') at time zone tz
+  group by 1
+  order by 1;
+end;
+$$;
+
+-- Notes coming due per local day over the next p_days days; overdue ones count for today.
+-- Notes never reviewed have no due date and are left out.
+create or replace function public.review_forecast(p_tz text default 'UTC', p_days int default 30)
+returns table (day date, due int)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  tz text := coalesce(nullif(p_tz, ''), 'UTC');
+  safe_days int := greatest(1, least(coalesce(p_days, 30), 365));
+  today date;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = tz) then
+    tz := 'UTC';
+  end if;
+  today := (now() at time zone tz)::date;
+
+  return query
+  select
+    greatest((n.next_review_at at time zone tz)::date, today) as day,
+    count(*)::int as due
+  from public.notes n
+  where n.user_id = uid
+    and n.deleted_at is null
+    and n.next_review_at is not null
+    and (n.next_review_at at time zone tz)::date < today + safe_days
+  group by 1
+  order by 1;
+end;
+$$;
@@ -0,0 +1,243 @@
+-- Cloze deletion cards: a note's content can mark phrases as {{c1::hidden phrase}} (optionally
+-- {{c1::phrase::hint}}), and each cloze number is reviewed and scheduled as its own card. The
+-- per-cloze scheduler state lives on the note; the note itself is due when its earliest cloze is.
+-- Apply via: supabase db push
+
+alter table public.notes
+  add column if not exists review_clozes jsonb;
+
+comment on column public.notes.review_clozes is
+  'Scheduler state per cloze number: {"1": {stability, difficulty, lapses, review_count, last_reviewed_at, next_review_at}}';
+
+alter table public.review_log
+  add column if not exists cloze smallint;
+
+-- Earliest due date over the clozes in `p_content`; a cloze without a state yet is due now.
+-- Null when the content has no clozes.
+create or replace function public.note_cloze_due(p_content text, p_states jsonb)
+returns timestamptz
+language sql
+stable
+as $$
+  select min(coalesce((p_states -> (m[1]::int)::text ->> 'next_review_at')::timestamptz, now()))
+  from regexp_matches(coalesce(p_content, ''), '\{\{c(\d+)::', 'g') as m;
+$$;
+
+-- Editing a cloze note (e.g. adding a c3) reschedules it from its clozes
+create or replace function public.notes_sync_cloze_due()
+returns trigger
+language plpgsql
+as $$
+declare
+  due timestamptz := public.note_cloze_due(new.content, new.review_clozes);
+begin
+  if due is not null then
+    new.next_review_at := due;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_sync_cloze_due on public.notes;
+create trigger notes_sync_cloze_due
+before insert or update of content on public.notes
+for each row execute function public.notes_sync_cloze_due();
+
+-- Same scheduling as 20260129000100_review_log.sql; with `p_cloze` the grade applies to that
+-- cloze only and the note's due date follows its earliest cloze
+drop function if exists public.note_apply_grade(uuid, uuid, int, uuid, int);
+create or replace function public.note_apply_grade(
+  p_uid uuid,
+  p_note_id uuid,
+  p_grade int,
+  p_session_id uuid default null,
+  p_response_ms int default null,
+  p_cloze int default null
+)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  note_row public.notes;
+  cloze_state jsonb;
+  prev_stability real;
+  prev_difficulty real;
+  prev_last timestamptz;
+  prev_next timestamptz;
+  next_state record;
+  next_due timestamptz;
+  lapse int;
+  elapsed real;
+  states jsonb;
+begin
+  if p_grade is null or p_grade not between 1 and 4 then
+    raise exception 'Grade must be 1 (again), 2 (hard), 3 (good) or 4 (easy)' using errcode = '22023';
+  end if;
+
+  select *
+    into note_row
+  from public.notes
+  where id = p_note_id
+    and user_id = p_uid
+    and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Note not found for user' using errcode = '22023';
+  end if;
+
+  if p_cloze is null then
+    prev_stability := note_row.review_stability;
+    prev_difficulty := note_row.review_difficulty;
+    prev_last := note_row.last_reviewed_at;
+    prev_next := note_row.next_review_at;
+  else
+    if not exists (
+      select 1
+      from regexp_matches(coalesce(note_row.content, ''), '\{\{c(\d+)::', 'g') as m
+      where m[1]::int = p_cloze
+    ) then
+      raise exception 'Cloze % not found in note', p_cloze using errcode = '22023';
+    end if;
+
+    cloze_state := coalesce(note_row.review_clozes -> p_cloze::text, '{}'::jsonb);
+    prev_stability := (cloze_state ->> 'stability')::real;
+    prev_difficulty := (cloze_state ->> 'difficulty')::real;
+    prev_last := (cloze_state ->> 'last_reviewed_at')::timestamptz;
+    prev_next := (cloze_state ->> 'next_review_at')::timestamptz;
+  end if;
+
+  elapsed := extract(epoch from now() - prev_last) / 86400;
+  select *
+    into next_state
+  from public.fsrs_next_state(prev_stability, prev_difficulty, coalesce(elapsed, 0), p_grade);
+
+  lapse := case when p_grade = 1 and prev_stability is not null then 1 else 0 end;
+  next_due := now() + case
+    when p_grade = 1 then interval '10 minutes'
+    else interval '1 day' * least(greatest(round(next_state.stability), 1), 365)
+  end;
+
+  insert into public.review_log (
+    user_id, note_id, session_id, cloze, grade, response_ms, scheduled_days, elapsed_days, stability, difficulty
+  ) values (
+    p_uid, p_note_id, p_session_id, p_cloze, p_grade, case when p_response_ms >= 0 then p_response_ms end,
+    extract(epoch from prev_next - prev_last) / 86400, elapsed,
+    next_state.stability, next_state.difficulty
+  );
+
+  if p_cloze is null then
+    update public.notes
+      set review_count      = coalesce(review_count, 0) + 1,
+          review_stability  = next_state.stability,
+          review_difficulty = next_state.difficulty,
+          review_lapses     = review_lapses + lapse,
+          last_reviewed_at  = now(),
+          next_review_at    = next_due
+    where id = p_note_id
+    returning * into note_row;
+  else
+    states := jsonb_set(
+      coalesce(note_row.review_clozes, '{}'::jsonb),
+      array[p_cloze::text],
+      jsonb_build_object(
+        'stability', next_state.stability,
+        'difficulty', next_state.difficulty,
+        'lapses', coalesce((cloze_state ->> 'lapses')::int, 0) + lapse,
+        'review_count', coalesce((cloze_state ->> 'review_count')::int, 0) + 1,
+        'last_reviewed_at', now(),
+        'next_review_at', next_due
+      )
+    );
+
+    update public.notes
+      set review_count     = coalesce(review_count, 0) + 1,
+          review_lapses    = review_lapses + lapse,
+          review_clozes    = states,
+          last_reviewed_at = now(),
+          next_review_at   = public.note_cloze_due(note_row.content, states)
+    where id = p_note_id
+    returning * into note_row;
+  end if;
+
+  return note_row;
+end;
+$$;
+
+revoke execute on function public.note_apply_grade(uuid, uuid, int, uuid, int, int) from public, anon, authenticated;
+
+drop function if exists public.review_mark_note(uuid, uuid, int, int);
+create or replace function public.review_mark_note(
+  p_session_id uuid,
+  p_note_id uuid,
+  p_grade int default 3,
+  p_response_ms int default null,
+  p_cloze int default null
+)
+returns public.review_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  session_row public.review_sessions;
+  completed uuid[];
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select *
+    into session_row
+  from public.review_sessions
+  where id = p_session_id
+    and user_id = uid;
+
+  if not found then
+    raise exception 'Session not found for user' using errcode = '22023';
+  end if;
+
+  if array_position(coalesce(session_row.note_ids, '{}'), p_note_id) is null then
+    raise exception 'Note is not part of this session' using errcode = '22023';
+  end if;
+
+  perform public.note_apply_grade(uid, p_note_id, p_grade, p_session_id, p_response_ms, p_cloze);
+
+  completed := coalesce(session_row.completed_note_ids, '{}');
+  if array_position(completed, p_note_id) is null then
+    completed := completed || p_note_id;
+    update public.review_sessions
+      set completed_note_ids = completed
+    where id = p_session_id;
+    session_row.completed_note_ids := completed;
+  end if;
+
+  return session_row;
+end;
+$$;
+
+drop function if exists public.note_mark_reviewed(uuid, int, int);
+create or replace function public.note_mark_reviewed(
+  p_note_id uuid,
+  p_grade int default 3,
+  p_response_ms int default null,
+  p_cloze int default null
+)
+returns public.notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return public.note_apply_grade(uid, p_note_id, p_grade, null, p_response_ms, p_cloze);
+end;
+$$;
@@ -0,0 +1,232 @@
+-- Scoped review decks: a session can draw its notes from one book, tag, collection or saved
+-- filter instead of the whole library, with a chosen size and share of never-reviewed notes.
+-- The scope is kept on the session so a resumed session still shows where it came from.
+-- Apply via: supabase db push
+
+alter table public.review_sessions
+  add column if not exists scope_kind text not null default 'all',
+  add column if not exists scope_value text,
+  add column if not exists session_size int,
+  add column if not exists new_share real;
+
+alter table public.review_sessions drop constraint if exists review_sessions_scope_kind_check;
+alter table public.review_sessions
+  add constraint review_sessions_scope_kind_check
+  check (scope_kind in ('all', 'book', 'tag', 'collection', 'saved_filter'));
+
+alter table public.review_sessions drop constraint if exists review_sessions_new_share_check;
+alter table public.review_sessions
+  add constraint review_sessions_new_share_check
+  check (new_share is null or new_share between 0 and 1);
+
+-- Text elements of a JSON array (saved filter lists); empty for anything else
+create or replace function public.jsonb_text_array(p_value jsonb)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(
+    array(select jsonb_array_elements_text(case when jsonb_typeof(p_value) = 'array' then p_value else '[]'::jsonb end)),
+    '{}'
+  );
+$$;
+
+-- The user's notes in a review scope: 'all', or a book id, tag, collection id or saved filter id
+-- (same rules as noteMatchesSavedFilter in the app). Only called from the RPCs below.
+create or replace function public.review_scope_notes(p_uid uuid, p_scope_kind text, p_scope_value text)
+returns setof uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  filters jsonb;
+  book_ids text[];
+  types text[];
+  tags text[];
+  folder_ids text[];
+  scope_ids uuid[];
+begin
+  case coalesce(p_scope_kind, 'all')
+    when 'all' then
+      return query
+      select n.id from public.notes n where n.user_id = p_uid and n.deleted_at is null;
+
+    when 'book' then
+      if not exists (
+        select 1 from public.books b
+        where b.id::text = p_scope_value and b.user_id = p_uid and b.deleted_at is null
+      ) then
+        raise exception 'Book not found for user' using errcode = '22023';
+      end if;
+      return query
+      select n.id from public.notes n
+      where n.user_id = p_uid and n.deleted_at is null and n.book_id::text = p_scope_value;
+
+    when 'tag' then
+      if coalesce(p_scope_value, '') = '' then
+        raise exception 'Tag is required' using errcode = '22023';
+      end if;
+      return query
+      select n.id from public.notes n
+      where n.user_id = p_uid and n.deleted_at is null and p_scope_value = any(coalesce(n.tags, '{}'));
+
+    when 'collection' then
+      select c.note_ids
+        into scope_ids
+      from public.collections c
+      where c.id::text = p_scope_value and c.user_id = p_uid and c.deleted_at is null;
+
+      if not found then
+        raise exception 'Collection not found for user' using errcode = '22023';
+      end if;
+      return query
+      select n.id from public.notes n
+      where n.user_id = p_uid and n.deleted_at is null and n.id = any(coalesce(scope_ids, '{}'));
+
+    when 'saved_filter' then
+      select f.filters
+        into filters
+      from public.saved_filters f
+      where f.id::text = p_scope_value and f.user_id = p_uid;
+
+      if not found then
+        raise exception 'Saved filter not found for user' using errcode = '22023';
+      end if;
+
+      filters := coalesce(filters, '{}'::jsonb);
+      book_ids := public.jsonb_text_array(filters -> 'bookIds');
+      types := public.jsonb_text_array(filters -> 'types');
+      tags := public.jsonb_text_array(filters -> 'tags');
+      folder_ids := public.jsonb_text_array(filters -> 'folderIds');
+
+      return query
+      select n.id from public.notes n
+      where n.user_id = p_uid
+        and n.deleted_at is null
+        and (cardinality(book_ids) = 0 or n.book_id::text = any(book_ids))
+        and (cardinality(types) = 0 or n.type = any(types))
+        and coalesce(n.tags, '{}') @> tags
+        and (cardinality(folder_ids) = 0 or n.folder_id::text = any(folder_ids))
+        and (
+          jsonb_typeof(filters -> 'dateRange') is distinct from 'object'
+          or n.created_at between (filters -> 'dateRange' ->> 'start')::timestamptz
+                              and (filters -> 'dateRange' ->> 'end')::timestamptz
+        );
+
+    else
+      raise exception 'Unknown review scope %', p_scope_kind using errcode = '22023';
+  end case;
+end;
+$$;
+
+revoke execute on function public.review_scope_notes(uuid, text, text) from public, anon, authenticated;
+
+-- Pick due notes in the scope (oldest/least reviewed first). With p_new_share, about that share
+-- of the session goes to never-reviewed notes and the rest to notes due again; either side fills
+-- in when the other runs out.
+drop function if exists public.review_pick_notes(int);
+create or replace function public.review_pick_notes(
+  note_limit int default 5,
+  p_scope_kind text default 'all',
+  p_scope_value text default null,
+  p_new_share real default null
+)
+returns uuid[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  safe_limit int := greatest(1, least(coalesce(note_limit, 5), 50));
+  new_quota int;
+  note_ids uuid[];
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if p_new_share is not null and p_new_share not between 0 and 1 then
+    raise exception 'New note share must be between 0 and 1' using errcode = '22023';
+  end if;
+  new_quota := case when p_new_share is null then safe_limit else round(safe_limit * p_new_share)::int end;
+
+  select array(
+    select c.id
+    from (
+      select
+        n.id,
+        n.next_review_at,
+        n.review_count,
+        n.created_at,
+        n.last_reviewed_at is null as is_new,
+        row_number() over (
+          partition by n.last_reviewed_at is null
+          order by coalesce(n.next_review_at, to_timestamp(0)), n.review_count, n.created_at
+        ) as position
+      from public.notes n
+      where n.id in (select public.review_scope_notes(uid, p_scope_kind, p_scope_value))
+        and (n.next_review_at is null or n.next_review_at <= now())
+    ) c
+    order by
+      c.position <= case
+        when p_new_share is null then safe_limit
+        when c.is_new then new_quota
+        else safe_limit - new_quota
+      end desc,
+      coalesce(c.next_review_at, to_timestamp(0)), c.review_count, c.created_at
+    limit safe_limit
+  ) into note_ids;
+
+  return coalesce(note_ids, '{}');
+end;
+$$;
+
+-- Create a review session over a scope; if note_ids is empty, auto-pick from it
+drop function if exists public.review_start_session(uuid[], int);
+create or replace function public.review_start_session(
+  note_ids uuid[] default null,
+  note_limit int default 5,
+  p_scope_kind text default 'all',
+  p_scope_value text default null,
+  p_new_share real default null
+)
+returns public.review_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  target_ids uuid[] := coalesce(note_ids, '{}');
+  session_row public.review_sessions;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  if target_ids = '{}'::uuid[] then
+    target_ids := public.review_pick_notes(note_limit, p_scope_kind, p_scope_value, p_new_share);
+  end if;
+
+  -- Filter to only this user's notes within the scope
+  select array_agg(id)
+    into target_ids
+  from public.notes
+  where id = any(target_ids)
+    and id in (select public.review_scope_notes(uid, p_scope_kind, p_scope_value));
+
+  insert into public.review_sessions (
+    user_id, note_ids, completed_note_ids, scope_kind, scope_value, session_size, new_share
+  ) values (
+    uid, coalesce(target_ids, '{}'), '{}', coalesce(p_scope_kind, 'all'),
+    case when coalesce(p_scope_kind, 'all') = 'all' then null else p_scope_value end,
+    note_limit, p_new_share
+  )
+  returning * into session_row;
+
+  return session_row;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- rewrite_note_links runs as owner and edits any user's notes, so only the link triggers
+-- (20260124000100_note_links.sql) may call it.
+-- Apply via: supabase db push
+
+revoke execute on function public.rewrite_note_links(text, uuid, text) from public, anon, authenticated;
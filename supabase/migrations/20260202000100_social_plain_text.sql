@@ -0,0 +1,86 @@
+-- Social posts carry plain text: [[note:<id>|label]] links become their label and
+-- {{c1::phrase}} clozes their phrase, so the feed neither shows the markup nor hands out the
+-- ids of (possibly private) notes. Posts already in the feed are cleaned up too.
+-- Apply via: supabase db push
+
+-- A link cut off by the 280-character limit of older posts is dropped as well
+create or replace function public.note_plain_text(p_content text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    regexp_replace(
+      regexp_replace(p_content, '\[\[(note|book):[0-9a-fA-F-]{36}\|([^\]]*)\]\]', '\2', 'g'),
+      '\{\{c[0-9]+?::(.*?)(::[^{}]*)?\}\}', '\1', 'g'
+    ),
+    '\[\[(note|book):[^\]]*$', ''
+  );
+$$;
+
+create or replace function public.social_posts_plain_text()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.content := public.note_plain_text(new.content);
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_social_posts_plain_text on public.social_posts;
+create trigger trg_social_posts_plain_text
+before insert or update of content on public.social_posts
+for each row execute function public.social_posts_plain_text();
+
+-- Strip before cutting to 280 characters so a link is never cut in half
+create or replace function public.social_post_new_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_private then
+    return new;
+  end if;
+
+  insert into public.social_posts (user_id, type, content, note_id, book_id, is_public)
+  values (
+    new.user_id,
+    'shared_note',
+    left(public.note_plain_text(coalesce(new.content, '')), 280),
+    new.id,
+    new.book_id,
+    true
+  );
+
+  return new;
+end;
+$$;
+
+create or replace function public.social_post_note_made_public()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_private = false and coalesce(old.is_private, true) = true then
+    insert into public.social_posts (user_id, type, content, note_id, book_id, is_public)
+    values (
+      new.user_id,
+      'shared_note',
+      left(public.note_plain_text(coalesce(new.content, '')), 280),
+      new.id,
+      new.book_id,
+      true
+    );
+  end if;
+  return new;
+end;
+$$;
+
+update public.social_posts
+  set content = public.note_plain_text(content)
+where content ~ '\[\[(note|book):|\{\{c[0-9]';
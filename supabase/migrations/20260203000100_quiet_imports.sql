@@ -0,0 +1,91 @@
+-- Imports (library CSV, Kindle clippings, backup restores) don't fill the feed with one post
+-- per book or note. The app sends their writes with an `x-marginalia-import` header, which
+-- PostgREST exposes to the triggers through request.headers.
+-- Apply via: supabase db push
+
+create or replace function public.request_is_import()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(current_setting('request.headers', true)::jsonb ->> 'x-marginalia-import', '') = 'true';
+$$;
+
+create or replace function public.social_post_new_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_private or public.request_is_import() then
+    return new;
+  end if;
+
+  insert into public.social_posts (user_id, type, content, note_id, book_id, is_public)
+  values (
+    new.user_id,
+    'shared_note',
+    left(public.note_plain_text(coalesce(new.content, '')), 280),
+    new.id,
+    new.book_id,
+    true
+  );
+
+  return new;
+end;
+$$;
+
+create or replace function public.social_post_note_made_public()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.request_is_import() then
+    return new;
+  end if;
+
+  if new.is_private = false and coalesce(old.is_private, true) = true then
+    insert into public.social_posts (user_id, type, content, note_id, book_id, is_public)
+    values (
+      new.user_id,
+      'shared_note',
+      left(public.note_plain_text(coalesce(new.content, '')), 280),
+      new.id,
+      new.book_id,
+      true
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.social_post_new_book()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  summary text;
+begin
+  if public.request_is_import() then
+    return new;
+  end if;
+
+  summary := left(format('Added a new book: %s%s', new.title, coalesce(' by ' || new.author, '')), 280);
+
+  insert into public.social_posts (user_id, type, content, book_id, is_public)
+  values (
+    new.user_id,
+    'status',
+    summary,
+    new.id,
+    true
+  );
+
+  return new;
+end;
+$$;
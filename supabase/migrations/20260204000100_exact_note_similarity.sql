@@ -0,0 +1,95 @@
+-- Exact nearest-neighbour lookups. Ordering by `embedding <=> ...` with a limit let the planner
+-- walk the HNSW index shared by every user and filter by user afterwards, so a user could get
+-- fewer (or no) neighbours when other users' vectors were closer. Each user's notes are now
+-- scanned in full (via idx_note_embeddings_user) and ranked exactly; a library is small enough
+-- for that, and the unused shared index is dropped.
+-- Apply via: supabase db push
+
+drop index if exists public.idx_note_embeddings_vector;
+
+create or replace function public.related_notes(
+  p_note_id uuid,
+  p_limit int default 5,
+  p_other_books boolean default true
+)
+returns table (note_id uuid, similarity real)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  uid uuid := auth.uid();
+  source record;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select e.embedding, e.model, n.book_id
+  into source
+  from public.note_embeddings e
+  join public.notes n on n.id = e.note_id
+  where e.note_id = p_note_id
+    and e.user_id = uid;
+
+  if not found then
+    return;
+  end if;
+
+  -- Materialized so the distances are computed over the user's rows, never from an index scan
+  return query
+  with candidates as materialized (
+    select e.note_id, e.embedding <=> source.embedding as distance
+    from public.note_embeddings e
+    join public.notes n on n.id = e.note_id
+    where e.user_id = uid
+      and n.deleted_at is null
+      and e.model = source.model
+      and e.note_id <> p_note_id
+      and (not coalesce(p_other_books, true) or n.book_id <> source.book_id)
+  )
+  select c.note_id, (1 - c.distance)::real
+  from candidates c
+  order by c.distance
+  limit greatest(1, least(coalesce(p_limit, 5), 50));
+end;
+$$;
+
+create or replace function public.match_notes(
+  p_embedding extensions.vector(768),
+  p_model text,
+  p_book_id uuid default null,
+  p_limit int default 30,
+  p_min_similarity real default 0.2
+)
+returns table (note_id uuid, similarity real)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  return query
+  with candidates as materialized (
+    select e.note_id, e.embedding <=> p_embedding as distance
+    from public.note_embeddings e
+    join public.notes n on n.id = e.note_id
+    where e.user_id = uid
+      and n.deleted_at is null
+      and e.model = p_model
+      and (p_book_id is null or n.book_id = p_book_id)
+  )
+  select c.note_id, (1 - c.distance)::real
+  from candidates c
+  where 1 - c.distance >= coalesce(p_min_similarity, 0)
+  order by c.distance
+  limit greatest(1, least(coalesce(p_limit, 30), 100));
+end;
+$$;
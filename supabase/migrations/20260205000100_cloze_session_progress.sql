@@ -0,0 +1,60 @@
+-- A cloze note stays open in its review session until every cloze that is due has been graded,
+-- so a resumed session still shows the clozes left (20260130000100_cloze_review.sql marked the
+-- note complete after its first cloze). A graded cloze is scheduled ahead, Again included, so
+-- the note is done once none of its clozes is due any more.
+-- Apply via: supabase db push
+
+create or replace function public.review_mark_note(
+  p_session_id uuid,
+  p_note_id uuid,
+  p_grade int default 3,
+  p_response_ms int default null,
+  p_cloze int default null
+)
+returns public.review_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  session_row public.review_sessions;
+  note_row public.notes;
+  completed uuid[];
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select *
+    into session_row
+  from public.review_sessions
+  where id = p_session_id
+    and user_id = uid;
+
+  if not found then
+    raise exception 'Session not found for user' using errcode = '22023';
+  end if;
+
+  if array_position(coalesce(session_row.note_ids, '{}'), p_note_id) is null then
+    raise exception 'Note is not part of this session' using errcode = '22023';
+  end if;
+
+  note_row := public.note_apply_grade(uid, p_note_id, p_grade, p_session_id, p_response_ms, p_cloze);
+
+  if p_cloze is not null and public.note_cloze_due(note_row.content, note_row.review_clozes) <= now() then
+    return session_row;
+  end if;
+
+  completed := coalesce(session_row.completed_note_ids, '{}');
+  if array_position(completed, p_note_id) is null then
+    completed := completed || p_note_id;
+    update public.review_sessions
+      set completed_note_ids = completed
+    where id = p_session_id;
+    session_row.completed_note_ids := completed;
+  end if;
+
+  return session_row;
+end;
+$$;
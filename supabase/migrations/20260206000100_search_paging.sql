@@ -0,0 +1,62 @@
+-- Paged note search: the Notes tab and book pages fetch 50 hits at a time and ask for the next
+-- page with p_offset, so matches beyond the first page can be reached.
+-- Apply via: supabase db push
+
+drop function if exists public.search_notes(text, uuid, int);
+create or replace function public.search_notes(
+  p_query text,
+  p_book_id uuid default null,
+  p_limit int default 50,
+  p_offset int default 0
+)
+returns table (note_id uuid, rank real, headline text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  q tsquery;
+begin
+  if uid is null then
+    raise exception 'Not authenticated' using errcode = '28P01';
+  end if;
+
+  select to_tsquery('english', string_agg(quote_literal(w) || ':*', ' & '))
+  into q
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as w
+  where w <> '';
+
+  -- Empty, or nothing but stop words
+  if q is null or numnode(q) = 0 then
+    return;
+  end if;
+
+  -- Ties are broken by id so pages never overlap or skip a note
+  return query
+  select
+    hit.id,
+    hit.score,
+    ts_headline(
+      'english',
+      concat_ws(' … ', hit.content, hit.context, hit.transcript, hit.extracted_text),
+      q,
+      'StartSel="<mark>", StopSel="</mark>", MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from (
+    select n.id, n.content, n.context, n.transcript, n.extracted_text,
+           ts_rank(public.notes_search_vector(n), q) as score,
+           n.created_at
+    from public.notes n
+    where n.user_id = uid
+      and n.deleted_at is null
+      and (p_book_id is null or n.book_id = p_book_id)
+      and public.notes_search_vector(n) @@ q
+    order by score desc, n.created_at desc, n.id
+    limit greatest(1, least(coalesce(p_limit, 50), 200))
+    offset greatest(coalesce(p_offset, 0), 0)
+  ) hit
+  order by hit.score desc, hit.created_at desc, hit.id;
+end;
+$$;
@@ -0,0 +1,24 @@
+-- books.updated_at is the version an edit is checked against (UpdateConflictError in the app).
+-- The counters and reading position kept in sync by triggers (notes_count, current_page,
+-- current_position) no longer bump it, so adding a note or logging progress doesn't make an
+-- open edit of the book look like a conflict.
+-- Apply via: supabase db push
+
+create or replace function public.books_set_updated_at()
+returns trigger
+language plpgsql
+as $$
+declare
+  maintained text[] := array['notes_count', 'current_page', 'current_position', 'updated_at'];
+begin
+  if (to_jsonb(new) - maintained) is distinct from (to_jsonb(old) - maintained) then
+    new.updated_at = now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_books_updated on public.books;
+create trigger trg_books_updated
+before update on public.books
+for each row execute function public.books_set_updated_at();
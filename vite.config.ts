@@ -9,6 +9,15 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
   },
   plugins: [react()],
+  define: {
+    // Versions the service worker registration (src/lib/pwa.ts) so each deploy reinstalls it
+    __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
+  },
+  build: {
+    // Lists every built file; public/sw.js precaches them on install so the app opens offline
+    // after the first visit
+    manifest: "asset-manifest.json",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),